@@ -7,16 +7,31 @@ import FeasibilityResult from '@/components/FeasibilityResult';
 import AlreadyUnderTarget from '@/components/AlreadyUnderTarget';
 import AnalyzingOverlay from '@/components/AnalyzingOverlay';
 import CompressingOverlay from '@/components/CompressingOverlay';
+import BatchView from '@/components/BatchView';
+import PasswordPrompt from '@/components/PasswordPrompt';
+import RepairNotice from '@/components/RepairNotice';
 import {
   uploadPdf,
-  getJobStatus,
-  getEstimates,
+  subscribeToJob,
   compressWithQuality,
   compressToSize,
+  compressLossless,
+  cancelJob,
+  getEstimates,
   downloadPdf,
-  pollJobStatus,
+  waitForJobStatus,
   EstimateResponse,
+  ColorConversion,
+  CompressionMode,
+  PageReduction,
+  PageAction,
+  PageProgress,
+  SplitPart,
+  DocumentFeature,
+  FidelityReport,
   checkHealth,
+  ApiError,
+  UploadErrorCode,
 } from '@/lib/api';
 import { formatBytes } from '@/lib/sizeUtils';
 
@@ -31,6 +46,19 @@ type AppStatus =
 
 type FailureType = 'upload' | 'analysis' | 'compression' | null;
 
+const FEATURE_LABELS: Record<DocumentFeature, string> = {
+  outlines: 'bookmarks',
+  links: 'links',
+  forms: 'form fields',
+  namedDestinations: 'named destinations',
+  metadata: 'document properties',
+  pageLabels: 'page labels',
+};
+
+function listFeatures(features: DocumentFeature[]): string {
+  return features.map((feature) => FEATURE_LABELS[feature]).join(', ');
+}
+
 interface Toast {
   type: 'success' | 'error' | 'warning';
   message: string;
@@ -38,6 +66,8 @@ interface Toast {
 
 export default function Home() {
   const [file, setFile] = useState<File | null>(null);
+  // Set when several files were dropped at once; the batch flow takes over
+  const [batchFiles, setBatchFiles] = useState<File[] | null>(null);
   const [selectedChoice, setSelectedChoice] = useState<CompressionChoice | null>(null);
   const [status, setStatus] = useState<AppStatus>('idle');
   const [jobId, setJobId] = useState<string | null>(null);
@@ -46,37 +76,51 @@ export default function Home() {
     compressedSize: number;
     quality: number;
     originalSize: number;
+    parts?: SplitPart[];
+    reducedPages?: number[];
+    pageAction?: PageAction;
+    fidelity?: FidelityReport;
   } | null>(null);
   const [toast, setToast] = useState<Toast | null>(null);
   const [backendConnected, setBackendConnected] = useState<boolean | null>(null);
   const [progressMessage, setProgressMessage] = useState<string | null>(null);
   const [compressionProgress, setCompressionProgress] = useState<number | null>(null);
   const [compressionMessage, setCompressionMessage] = useState<string | null>(null);
+  const [compressionPages, setCompressionPages] = useState<PageProgress | null>(null);
   const [failureType, setFailureType] = useState<FailureType>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
-
-  // Refs to track active polling and prevent race conditions
-  const pollIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const pollTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const [uploadRejection, setUploadRejection] = useState<UploadErrorCode | null>(null);
+  // An encrypted file waiting for its password
+  const [passwordPrompt, setPasswordPrompt] = useState<{ file: File; incorrect: boolean } | null>(null);
+  const [encrypted, setEncrypted] = useState(false);
+  const [keepEncryption, setKeepEncryption] = useState(true);
+  // Consent to invalidating a signed file's signature, asked per file
+  const [breakSignatures, setBreakSignatures] = useState(false);
+
+  // Refs to track the active job subscription and prevent race conditions
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+  const analysisTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const activeJobIdRef = useRef<string | null>(null);
 
-  // Cleanup function for polling intervals only
-  const cleanupPolling = useCallback(() => {
-    if (pollIntervalRef.current) {
-      clearInterval(pollIntervalRef.current);
-      pollIntervalRef.current = null;
-    }
-    if (pollTimeoutRef.current) {
-      clearTimeout(pollTimeoutRef.current);
-      pollTimeoutRef.current = null;
+  // Stop following the job's updates
+  const cleanupSubscription = useCallback(() => {
+    unsubscribeRef.current?.();
+    unsubscribeRef.current = null;
+    if (analysisTimeoutRef.current) {
+      clearTimeout(analysisTimeoutRef.current);
+      analysisTimeoutRef.current = null;
     }
   }, []);
 
   // Cancel current job completely
   const cancelCurrentJob = useCallback(() => {
-    cleanupPolling();
+    cleanupSubscription();
+    // Stop the server's work too; a job that already finished just refuses
+    if (activeJobIdRef.current) {
+      cancelJob(activeJobIdRef.current).catch(() => {});
+    }
     activeJobIdRef.current = null;
-  }, [cleanupPolling]);
+  }, [cleanupSubscription]);
 
   // Check backend health on mount
   useEffect(() => {
@@ -96,7 +140,7 @@ export default function Home() {
   // Using formatBytes from sizeUtils for consistent decimal (SI) units
 
   const handleFileSelect = useCallback(
-    async (selectedFile: File | null) => {
+    async (selectedFile: File | null, password?: string) => {
       // Cancel any existing job first
       cancelCurrentJob();
 
@@ -108,6 +152,10 @@ export default function Home() {
       setSelectedChoice(null);
       setFailureType(null);
       setErrorMessage(null);
+      setUploadRejection(null);
+      setPasswordPrompt(null);
+      setEncrypted(false);
+      setBreakSignatures(false);
       setStatus('idle');
 
       if (!selectedFile) return;
@@ -121,7 +169,7 @@ export default function Home() {
       setStatus('uploading');
 
       try {
-        const response = await uploadPdf(selectedFile);
+        const response = await uploadPdf(selectedFile, password);
         const currentJobId = response.jobId;
 
         // Track this as the active job
@@ -129,17 +177,32 @@ export default function Home() {
         setJobId(currentJobId);
         setStatus('estimating');
 
-        // Poll for estimates
-        pollIntervalRef.current = setInterval(async () => {
-          // Check if this job is still the active one
-          if (activeJobIdRef.current !== currentJobId) {
+        // The stream's estimate event and a fetch on 'ready' can both arrive
+        let estimatesShown = false;
+        const showEstimates = (estimateData: EstimateResponse) => {
+          if (activeJobIdRef.current !== currentJobId || estimatesShown) {
             return;
           }
 
-          try {
-            const jobStatus = await getJobStatus(currentJobId);
-
-            // Double-check we're still the active job before updating state
+          estimatesShown = true;
+          cleanupSubscription();
+          setProgressMessage(null);
+          setEstimates(estimateData);
+          setStatus('ready');
+        };
+
+        const failAnalysis = (errMsg: string) => {
+          cleanupSubscription();
+          setStatus('failed');
+          setFailureType('analysis');
+          setErrorMessage(errMsg);
+          showToast('error', errMsg);
+        };
+
+        // Follow the job until its estimates arrive
+        unsubscribeRef.current = subscribeToJob(currentJobId, {
+          onStatus: (jobStatus) => {
+            // Ignore updates for a job the user moved away from
             if (activeJobIdRef.current !== currentJobId) {
               return;
             }
@@ -148,43 +211,42 @@ export default function Home() {
             if (jobStatus.progressMessage) {
               setProgressMessage(jobStatus.progressMessage);
             }
-
-            if (jobStatus.status === 'ready' || jobStatus.status === 'done') {
-              // Final check - if job was cancelled, don't update state
-              if (activeJobIdRef.current !== currentJobId) {
-                return;
-              }
-
-              cleanupPolling();
-              setProgressMessage(null);
-
-              try {
-                const estimateData = await getEstimates(currentJobId);
-                setEstimates(estimateData);
-                setStatus('ready');
-              } catch (err) {
-                setStatus('failed');
-                setFailureType('analysis');
-                setErrorMessage('Failed to get size estimates');
-                showToast('error', 'Failed to get size estimates');
-              }
+            setEncrypted(Boolean(jobStatus.encrypted));
+
+            if (jobStatus.status === 'ready' && !estimatesShown) {
+              // Estimation that failed softly leaves the job ready without
+              // estimates, and the stream has none to send
+              getEstimates(currentJobId)
+                .then(showEstimates)
+                .catch(() => {
+                  if (activeJobIdRef.current === currentJobId && !estimatesShown) {
+                    failAnalysis('Failed to get size estimates');
+                  }
+                });
             } else if (jobStatus.status === 'failed') {
-              cleanupPolling();
-              setStatus('failed');
-              setFailureType('analysis');
-              const errMsg = jobStatus.error || 'Failed to analyze PDF';
-              setErrorMessage(errMsg);
-              showToast('error', errMsg);
+              failAnalysis(jobStatus.error || 'Failed to analyze PDF');
+            } else if (jobStatus.status === 'cancelled') {
+              failAnalysis('Analysis was cancelled. Please try again.');
             }
-          } catch (err) {
-            // Continue polling on transient errors
-          }
-        }, 1000);
+          },
+          onEstimate: showEstimates,
+          onError: () => {
+            if (activeJobIdRef.current !== currentJobId) {
+              return;
+            }
+
+            cleanupSubscription();
+            setStatus('failed');
+            setFailureType('analysis');
+            setErrorMessage('Lost connection while analyzing. Please try again.');
+            showToast('error', 'Lost connection while analyzing. Please try again.');
+          },
+        });
 
         // Timeout after 120 seconds
-        pollTimeoutRef.current = setTimeout(() => {
+        analysisTimeoutRef.current = setTimeout(() => {
           if (activeJobIdRef.current === currentJobId) {
-            cleanupPolling();
+            cancelCurrentJob();
             setStatus('failed');
             setFailureType('analysis');
             setErrorMessage('Analysis took too long. Please try again.');
@@ -192,7 +254,25 @@ export default function Home() {
           }
         }, 120000);
       } catch (err) {
-        cleanupPolling();
+        cleanupSubscription();
+
+        const rejection = err instanceof ApiError ? err.uploadErrorCode : undefined;
+        // Encrypted: ask for the password and upload it again
+        if (rejection === 'ENCRYPTED' || rejection === 'INCORRECT_PASSWORD') {
+          setFile(null);
+          setPasswordPrompt({ file: selectedFile, incorrect: rejection === 'INCORRECT_PASSWORD' });
+          setStatus('idle');
+          return;
+        }
+
+        // Refused for its content: the upload zone explains why
+        if (rejection) {
+          setFile(null);
+          setUploadRejection(rejection);
+          setStatus('idle');
+          return;
+        }
+
         setStatus('failed');
         setFailureType('upload');
         const errMsg = err instanceof Error ? err.message : 'Upload failed';
@@ -200,30 +280,54 @@ export default function Home() {
         showToast('error', errMsg);
       }
     },
-    [backendConnected, showToast, cancelCurrentJob, cleanupPolling]
+    [backendConnected, showToast, cancelCurrentJob, cleanupSubscription]
   );
 
-  const handleCompress = useCallback(async () => {
+  const startCompression = useCallback(async ({
+    colorConversion = 'keep',
+    mode = 'standard',
+    pageReduction,
+  }: {
+    colorConversion?: ColorConversion;
+    mode?: CompressionMode;
+    pageReduction?: PageReduction;
+  } = {}) => {
     if (!jobId || !file || !selectedChoice) return;
 
+    activeJobIdRef.current = jobId;
     setStatus('compressing');
     setCompressionProgress(0);
     setCompressionMessage('Starting compression...');
+    setCompressionPages(null);
+
+    // Split parts come as a ZIP, which can't keep PDF encryption
+    const keep = encrypted && keepEncryption && mode !== 'split';
 
     try {
       // Start compression based on choice type
-      if (selectedChoice.type === 'target') {
-        await compressToSize(jobId, selectedChoice.targetMB);
+      if (selectedChoice.type === 'lossless') {
+        // A signed file is refused unless the user agreed under the notice
+        await compressLossless(jobId, undefined, keep, breakSignatures);
+      } else if (selectedChoice.type === 'target') {
+        // Prefer lossless when it alone gets under the target
+        const lossless = estimates?.losslessEstimate;
+        if (
+          mode === 'standard' && colorConversion === 'keep' && !pageReduction &&
+          lossless && lossless.estimatedSizeMB <= selectedChoice.targetMB
+        ) {
+          await compressLossless(jobId, selectedChoice.targetMB, keep, breakSignatures);
+        } else {
+          await compressToSize(jobId, selectedChoice.targetMB, undefined, mode, colorConversion, pageReduction, keep);
+        }
       } else {
-        await compressWithQuality(jobId, selectedChoice.quality);
+        await compressWithQuality(jobId, selectedChoice.quality, keep);
       }
 
-      // Poll for completion with progress tracking
-      const finalStatus = await pollJobStatus(
+      // Follow the job to completion with progress tracking
+      const finalStatus = await waitForJobStatus(
         jobId,
         ['done'],
         {
-          interval: 500,
           timeout: 300000,
           onProgress: (status) => {
             if (typeof status.progress === 'number') {
@@ -232,15 +336,28 @@ export default function Home() {
             if (status.progressMessage) {
               setCompressionMessage(status.progressMessage);
             }
+            setCompressionPages(status.pageProgress ?? null);
           },
         }
       );
 
-      if (finalStatus.status === 'done' && finalStatus.compressionResult) {
+      if (finalStatus.status === 'cancelled') {
+        // Moved on to another file: nothing left to show for this one
+        if (activeJobIdRef.current !== jobId) return;
+
+        setCompressionProgress(null);
+        setCompressionMessage(null);
+        setStatus('ready');
+        showToast('warning', 'Compression cancelled');
+      } else if (finalStatus.status === 'done' && finalStatus.compressionResult) {
         setCompressionResult({
           compressedSize: finalStatus.compressionResult.compressedSize,
           quality: finalStatus.compressionResult.quality,
           originalSize: finalStatus.originalSize,
+          parts: finalStatus.compressionResult.parts,
+          reducedPages: finalStatus.compressionResult.reducedPages,
+          pageAction: finalStatus.compressionResult.pageAction,
+          fidelity: finalStatus.compressionResult.fidelity,
         });
         setCompressionProgress(null);
         setCompressionMessage(null);
@@ -258,27 +375,54 @@ export default function Home() {
     } catch (err) {
       setCompressionProgress(null);
       setCompressionMessage(null);
+      // The target would blur text, or a signature would break: pick another
+      // or confirm under the notice
+      if (err instanceof ApiError && (err.code === 'ILLEGIBLE' || err.code === 'SIGNED')) {
+        setStatus('ready');
+        showToast('warning', err.message);
+        return;
+      }
       setStatus('failed');
-      setFailureType('compression');
+      // The server restarted and forgot the password: retrying uploads again,
+      // which asks for it
+      setFailureType(err instanceof ApiError && err.code === 'ENCRYPTED' ? 'upload' : 'compression');
       const errMsg = err instanceof Error ? err.message : 'Compression failed';
       setErrorMessage(errMsg);
       showToast('error', errMsg);
     }
-  }, [jobId, file, selectedChoice, showToast]);
+  }, [jobId, file, selectedChoice, estimates, encrypted, keepEncryption, breakSignatures, showToast]);
+
+  const handleCompress = useCallback(() => startCompression(), [startCompression]);
+  const handleSplit = useCallback(() => startCompression({ mode: 'split' }), [startCompression]);
+  const handleReducePages = useCallback(
+    (action: PageAction) => startCompression({ pageReduction: { pages: 'auto', action } }),
+    [startCompression]
+  );
+
+  // The compression's own wait sees the cancelled status and returns to the choices
+  const handleCancelCompression = useCallback(() => {
+    if (!jobId) return;
+    cancelJob(jobId).catch((err) => {
+      showToast('error', err instanceof Error ? err.message : 'Failed to cancel compression');
+    });
+  }, [jobId, showToast]);
 
   const handleDownload = useCallback(async () => {
     if (!jobId || !file) return;
 
     try {
       const baseName = file.name.replace(/\.pdf$/i, '');
-      await downloadPdf(jobId, `${baseName}_compressed.pdf`);
+      await downloadPdf(
+        jobId,
+        compressionResult?.parts ? `${baseName}_parts.zip` : `${baseName}_compressed.pdf`
+      );
     } catch (err) {
       showToast(
         'error',
         err instanceof Error ? err.message : 'Download failed'
       );
     }
-  }, [jobId, file, showToast]);
+  }, [jobId, file, compressionResult, showToast]);
 
   const handleReset = useCallback(() => {
     cancelCurrentJob();
@@ -290,8 +434,13 @@ export default function Home() {
     setProgressMessage(null);
     setCompressionProgress(null);
     setCompressionMessage(null);
+    setCompressionPages(null);
     setFailureType(null);
     setErrorMessage(null);
+    setUploadRejection(null);
+    setPasswordPrompt(null);
+    setEncrypted(false);
+    setBreakSignatures(false);
     setStatus('idle');
   }, [cancelCurrentJob]);
 
@@ -339,6 +488,8 @@ export default function Home() {
           filename={file.name}
           progress={compressionProgress ?? undefined}
           progressMessage={compressionMessage ?? undefined}
+          pageProgress={compressionPages ?? undefined}
+          onCancel={handleCancelCompression}
         />
       )}
 
@@ -422,11 +573,36 @@ export default function Home() {
 
         {/* Main Card */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-6">
-          {/* Step 1: Upload */}
-          {status === 'idle' && (
+          {/* Batch of files */}
+          {batchFiles && (
+            <BatchView
+              files={batchFiles}
+              onReset={() => setBatchFiles(null)}
+              onToast={showToast}
+            />
+          )}
+
+          {/* Step 1: Upload (or unlock an encrypted file) */}
+          {status === 'idle' && !batchFiles && passwordPrompt && (
+            <PasswordPrompt
+              filename={passwordPrompt.file.name}
+              incorrect={passwordPrompt.incorrect}
+              onSubmit={(password) => handleFileSelect(passwordPrompt.file, password)}
+              onCancel={() => setPasswordPrompt(null)}
+            />
+          )}
+          {status === 'idle' && !batchFiles && !passwordPrompt && (
             <UploadZone
               file={file}
               onFileSelect={handleFileSelect}
+              onFilesSelect={(files) => {
+                if (backendConnected === false) {
+                  showToast('error', 'Backend not connected. Please try again later.');
+                  return;
+                }
+                setBatchFiles(files);
+              }}
+              rejection={uploadRejection}
               disabled={false}
             />
           )}
@@ -434,8 +610,33 @@ export default function Home() {
           {/* Step 2: Choose compression level */}
           {status === 'ready' && estimates && estimates.estimates.length > 0 && (
             <>
+              {/* Lost content is shown before anything is compressed */}
+              {estimates.repair && <RepairNotice repair={estimates.repair} />}
+
+              {/* Any rewrite of the file breaks a signature, even lossless */}
+              {estimates.analysis?.metadata.hasSignatures && (
+                <div className="rounded-lg p-4 border bg-amber-50 border-amber-200">
+                  <h3 className="font-semibold text-amber-800">This PDF is digitally signed</h3>
+                  <p className="text-sm text-amber-700 mt-1">
+                    Compressing it, even losslessly, invalidates the signature. Keep the original if the signature matters.
+                  </p>
+                  <label className="flex items-center gap-2 text-sm text-amber-800 mt-2">
+                    <input
+                      type="checkbox"
+                      checked={breakSignatures}
+                      onChange={(e) => setBreakSignatures(e.target.checked)}
+                      className="rounded border-amber-300"
+                    />
+                    Compress it anyway and invalidate the signature
+                  </label>
+                </div>
+              )}
+
               <EstimateDisplay
+                jobId={jobId ?? undefined}
                 estimates={estimates.estimates}
+                minimumLegibleSizeMB={estimates.minimumLegibleSizeMB}
+                losslessEstimate={estimates.losslessEstimate}
                 originalSizeMB={estimates.originalSizeMB}
                 pageCount={estimates.pageCount}
                 analysis={estimates.analysis}
@@ -443,6 +644,18 @@ export default function Home() {
                 onChoiceSelect={setSelectedChoice}
               />
 
+              {encrypted && (
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={keepEncryption}
+                    onChange={(e) => setKeepEncryption(e.target.checked)}
+                    className="rounded border-gray-300"
+                  />
+                  Keep the password and permissions on the compressed PDF
+                </label>
+              )}
+
               {/* Feasibility Result - shows when target is selected */}
               {selectedChoice && selectedChoice.type === 'target' && (
                 // Check if file is already under target
@@ -468,7 +681,12 @@ export default function Home() {
                       || selectedChoice.targetMB
                     }
                     minimumAchievableMB={estimates.analysis?.minimumAchievableSizeMB}
-                    onCompress={handleCompress}
+                    losslessMB={estimates.losslessEstimate?.estimatedSizeMB}
+                    pageCount={estimates.pageCount}
+                    grayscalePageCount={estimates.analysis?.color?.grayscalePageCount}
+                    onCompress={(colorConversion) => startCompression({ colorConversion })}
+                    onSplit={handleSplit}
+                    onReducePages={handleReducePages}
                     onChangeTarget={(newTargetMB) => {
                       if (newTargetMB) {
                         // User selected a new target from the impossible target screen
@@ -486,8 +704,8 @@ export default function Home() {
                 )
               )}
 
-              {/* Quality selection - show compress button directly */}
-              {selectedChoice && selectedChoice.type === 'quality' && (
+              {/* Quality or lossless selection - show compress button directly */}
+              {selectedChoice && (selectedChoice.type === 'quality' || selectedChoice.type === 'lossless') && (
                 <>
                   <button
                     onClick={handleCompress}
@@ -543,7 +761,11 @@ export default function Home() {
                 </h3>
 
                 {/* "Fits in X with room to spare" message */}
-                {selectedChoice?.type === 'target' ? (
+                {compressionResult.parts && selectedChoice?.type === 'target' ? (
+                  <p className="text-green-600 font-medium">
+                    Split into {compressionResult.parts.length} parts of up to {selectedChoice.label} each.
+                  </p>
+                ) : selectedChoice?.type === 'target' ? (
                   <p className="text-green-600 font-medium">
                     Fits in {selectedChoice.label} with room to spare.
                   </p>
@@ -590,11 +812,55 @@ export default function Home() {
                 </p>
               </div>
 
+              {/* Pages that were given up to fit */}
+              {compressionResult.reducedPages && compressionResult.reducedPages.length > 0 && (
+                <p className="text-center text-sm text-amber-600">
+                  {compressionResult.reducedPages.length === 1 ? 'Page' : 'Pages'}{' '}
+                  {compressionResult.reducedPages.join(', ')}{' '}
+                  {compressionResult.pageAction === 'remove'
+                    ? 'were removed.'
+                    : 'were kept as low-resolution previews.'}
+                </p>
+              )}
+
+              {/* Document features compression dropped */}
+              {compressionResult.fidelity && compressionResult.fidelity.lost.length > 0 && (
+                <p className="text-center text-sm text-amber-600">
+                  Some {listFeatures(compressionResult.fidelity.lost)} could not be kept
+                  {compressionResult.fidelity.droppedForSize
+                    ? ' without going over the target size.'
+                    : '.'}
+                </p>
+              )}
+              {compressionResult.fidelity && compressionResult.fidelity.regrafted.length > 0 && (
+                <p className="text-center text-sm text-gray-500">
+                  Restored {listFeatures(compressionResult.fidelity.regrafted)} from the original.
+                </p>
+              )}
+
+              {/* Parts of a split document */}
+              {compressionResult.parts && (
+                <ul className="border border-gray-200 rounded-lg divide-y divide-gray-100 text-sm">
+                  {compressionResult.parts.map((part) => (
+                    <li key={part.filename} className="flex justify-between px-3 py-2">
+                      <span className="text-gray-800 truncate" title={part.filename}>
+                        {part.firstPage === part.lastPage
+                          ? `Page ${part.firstPage}`
+                          : `Pages ${part.firstPage}-${part.lastPage}`}
+                      </span>
+                      <span className={part.verificationPassed ? 'text-green-600' : 'text-amber-600'}>
+                        {formatBytes(part.compressedSize)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
               <button
                 onClick={handleDownload}
                 className="w-full py-3 px-4 rounded-lg font-semibold text-white bg-green-600 hover:bg-green-700 transition-colors"
               >
-                Download Compressed PDF
+                {compressionResult.parts ? 'Download Parts (ZIP)' : 'Download Compressed PDF'}
               </button>
 
               <button
@@ -0,0 +1,113 @@
+'use client';
+
+import { BatchFileEstimate, BatchStatus } from '@/lib/api';
+import { formatBytes, formatMB } from '@/lib/sizeUtils';
+
+interface BatchTableProps {
+  files: BatchFileEstimate[];
+  jobs?: BatchStatus['jobs'];
+  targetMB?: number;
+}
+
+type Feasibility =
+  | { kind: 'under' }
+  | { kind: 'fits'; estimatedMB: number }
+  | { kind: 'impossible'; minimumMB: number };
+
+/**
+ * Whether one file can reach the target, judged from its estimates
+ */
+export function getFileFeasibility(file: BatchFileEstimate, targetMB: number): Feasibility {
+  if (file.originalSizeMB <= targetMB) {
+    return { kind: 'under' };
+  }
+
+  const best = [...file.estimates]
+    .sort((a, b) => b.quality - a.quality)
+    .find((e) => e.estimatedSizeMB <= targetMB);
+
+  if (best) {
+    return { kind: 'fits', estimatedMB: best.estimatedSizeMB };
+  }
+
+  const smallest = Math.min(...file.estimates.map((e) => e.estimatedSizeMB));
+  return { kind: 'impossible', minimumMB: file.minimumAchievableSizeMB ?? smallest };
+}
+
+export default function BatchTable({ files, jobs, targetMB }: BatchTableProps) {
+  return (
+    <div className="border border-gray-200 rounded-lg overflow-hidden">
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50 text-xs text-gray-400 uppercase tracking-wide">
+          <tr>
+            <th className="text-left font-semibold px-3 py-2">File</th>
+            <th className="text-right font-semibold px-3 py-2">Original</th>
+            <th className="text-right font-semibold px-3 py-2 w-40">Result</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {files.map((file) => {
+            const job = jobs?.find((j) => j.id === file.jobId);
+            const status = job?.status ?? file.status;
+
+            return (
+              <tr key={file.jobId}>
+                <td className="px-3 py-2 text-gray-800 truncate max-w-[220px]" title={file.originalFilename}>
+                  {file.originalFilename}
+                </td>
+                <td className="px-3 py-2 text-right text-gray-500 whitespace-nowrap">
+                  {formatBytes(file.originalSize)}
+                </td>
+                <td className="px-3 py-2 text-right whitespace-nowrap">
+                  {status === 'compressing' ? (
+                    <div className="flex items-center justify-end gap-2">
+                      <div className="w-20 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-blue-500 transition-all"
+                          style={{ width: `${job?.progress ?? 0}%` }}
+                        />
+                      </div>
+                      <span className="text-gray-500 w-9">{job?.progress ?? 0}%</span>
+                    </div>
+                  ) : status === 'done' && job?.compressionResult ? (
+                    <span className={job.compressionResult.targetMet === false ? 'text-amber-600' : 'text-green-600'}>
+                      {formatBytes(job.compressionResult.compressedSize)}
+                    </span>
+                  ) : status === 'failed' ? (
+                    <span className="text-red-500" title={job?.error}>
+                      Failed
+                    </span>
+                  ) : status === 'cancelled' ? (
+                    <span className="text-gray-500">Cancelled</span>
+                  ) : status === 'pending' || status === 'estimating' ? (
+                    <span className="text-gray-400">Analyzing...</span>
+                  ) : targetMB !== undefined ? (
+                    <FeasibilityBadge feasibility={getFileFeasibility(file, targetMB)} />
+                  ) : (
+                    <span className="text-gray-400">Ready</span>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function FeasibilityBadge({ feasibility }: { feasibility: Feasibility }) {
+  if (feasibility.kind === 'under') {
+    return <span className="text-gray-500">Already under</span>;
+  }
+
+  if (feasibility.kind === 'fits') {
+    return <span className="text-green-600">~{formatMB(feasibility.estimatedMB)}</span>;
+  }
+
+  return (
+    <span className="text-amber-600" title={`Can't go below ~${formatMB(feasibility.minimumMB)}`}>
+      Min ~{formatMB(feasibility.minimumMB)}
+    </span>
+  );
+}
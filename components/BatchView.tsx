@@ -0,0 +1,263 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import TargetSelector, { TargetSelection } from './TargetSelector';
+import BatchTable, { getFileFeasibility } from './BatchTable';
+import {
+  uploadBatch,
+  getBatchStatus,
+  getBatchEstimates,
+  compressBatchToSize,
+  downloadBatch,
+  deleteBatch,
+  BatchStatus,
+  BatchEstimateResponse,
+  BatchBudget,
+} from '@/lib/api';
+import { formatBytes, formatMB } from '@/lib/sizeUtils';
+
+interface BatchViewProps {
+  files: File[];
+  onReset: () => void;
+  onToast: (type: 'success' | 'error' | 'warning', message: string) => void;
+}
+
+type BatchPhase = 'uploading' | 'estimating' | 'ready' | 'compressing' | 'done' | 'failed';
+
+const POLL_INTERVAL_MS = 1000;
+
+export default function BatchView({ files, onReset, onToast }: BatchViewProps) {
+  const [phase, setPhase] = useState<BatchPhase>('uploading');
+  const [batchId, setBatchId] = useState<string | null>(null);
+  const [estimates, setEstimates] = useState<BatchEstimateResponse | null>(null);
+  const [batchStatus, setBatchStatus] = useState<BatchStatus | null>(null);
+  const [target, setTarget] = useState<TargetSelection | null>(null);
+  // Platform limits usually apply to the whole message, so share by default
+  const [budget, setBudget] = useState<BatchBudget>('combined');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // Guards against a state update after the user started over
+  const activeBatchIdRef = useRef<string | null>(null);
+
+  // Upload all files once
+  useEffect(() => {
+    let cancelled = false;
+
+    uploadBatch(files)
+      .then((response) => {
+        if (cancelled) return;
+        activeBatchIdRef.current = response.batchId;
+        setBatchId(response.batchId);
+        setPhase('estimating');
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setErrorMessage(err instanceof Error ? err.message : 'Upload failed');
+        setPhase('failed');
+      });
+
+    return () => {
+      cancelled = true;
+      activeBatchIdRef.current = null;
+    };
+  }, [files]);
+
+  // Poll while the server is working on the batch
+  useEffect(() => {
+    if (!batchId || (phase !== 'estimating' && phase !== 'compressing')) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const status = await getBatchStatus(batchId);
+        if (activeBatchIdRef.current !== batchId) return;
+        setBatchStatus(status);
+
+        if (phase === 'estimating' && status.status !== 'estimating') {
+          setEstimates(await getBatchEstimates(batchId));
+          setPhase('ready');
+        } else if (phase === 'compressing' && status.status !== 'compressing') {
+          if (status.doneCount > 0) {
+            setPhase('done');
+            onToast(
+              status.failedCount > 0 ? 'warning' : 'success',
+              status.failedCount > 0
+                ? `${status.doneCount} of ${status.fileCount} files compressed`
+                : 'Compression complete!'
+            );
+          } else {
+            setErrorMessage('None of the files could be compressed.');
+            setPhase('failed');
+          }
+        }
+      } catch (err) {
+        setErrorMessage(err instanceof Error ? err.message : 'Lost connection to the server');
+        setPhase('failed');
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [batchId, phase, onToast]);
+
+  const handleCompress = useCallback(async () => {
+    if (!batchId || !target) return;
+
+    try {
+      await compressBatchToSize(batchId, target.targetMB, budget);
+      setPhase('compressing');
+    } catch (err) {
+      onToast('error', err instanceof Error ? err.message : 'Failed to start compression');
+    }
+  }, [batchId, target, budget, onToast]);
+
+  const handleDownload = useCallback(async () => {
+    if (!batchId) return;
+
+    try {
+      await downloadBatch(batchId);
+    } catch (err) {
+      onToast('error', err instanceof Error ? err.message : 'Download failed');
+    }
+  }, [batchId, onToast]);
+
+  const handleReset = useCallback(() => {
+    if (batchId) {
+      deleteBatch(batchId).catch(() => {});
+    }
+    onReset();
+  }, [batchId, onReset]);
+
+  const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+  const largestSizeMB = estimates
+    ? Math.max(...estimates.files.map((f) => f.originalSizeMB))
+    : 0;
+  const impossibleCount = estimates && target && budget === 'each'
+    ? estimates.files.filter((f) => getFileFeasibility(f, target.targetMB).kind === 'impossible').length
+    : 0;
+  // Smallest the files can get together, from the combined estimates
+  const combinedMinimumMB = estimates && estimates.estimates.length > 0
+    ? Math.min(...estimates.estimates.map((e) => e.estimatedSizeMB))
+    : undefined;
+  const combinedImpossible =
+    budget === 'combined' && target && combinedMinimumMB !== undefined && combinedMinimumMB > target.targetMB;
+
+  if (phase === 'failed') {
+    return (
+      <div className="py-8 text-center">
+        <h3 className="text-xl font-semibold text-gray-900 mb-1">Batch failed</h3>
+        <p className="text-gray-500 mb-4">
+          {errorMessage || "We couldn't process your PDFs. Please try again."}
+        </p>
+        <button
+          onClick={handleReset}
+          className="px-6 py-2 rounded-lg font-medium text-white bg-blue-600 hover:bg-blue-700 transition-colors"
+        >
+          Start over
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <h3 className="text-lg font-semibold text-gray-900">
+          {files.length} PDFs • {formatBytes(totalSize)}
+        </h3>
+        <p className="text-sm text-gray-500">
+          {phase === 'uploading' && 'Uploading...'}
+          {phase === 'estimating' && 'Analyzing files...'}
+          {phase === 'ready' && (budget === 'combined'
+            ? 'All files together will fit the target.'
+            : 'Each file will be compressed to the target on its own.')}
+          {phase === 'compressing' && `Compressing... ${batchStatus?.progress ?? 0}%`}
+          {phase === 'done' && batchStatus && (
+            <>Done. {formatBytes(batchStatus.compressedSize)} in total.</>
+          )}
+        </p>
+        {phase === 'done' && batchStatus?.budget && (
+          <p className={`text-sm font-medium mt-1 ${batchStatus.budget.budgetMet ? 'text-green-600' : 'text-amber-600'}`}>
+            {batchStatus.budget.budgetMet
+              ? `Fits in ${formatBytes(batchStatus.budget.targetSizeBytes)} together.`
+              : `Still over the ${formatBytes(batchStatus.budget.targetSizeBytes)} limit - try removing a file.`}
+          </p>
+        )}
+      </div>
+
+      {phase === 'ready' && estimates && (
+        <>
+          <div className="flex rounded-lg bg-gray-100 p-1 text-sm">
+            {(['combined', 'each'] as BatchBudget[]).map((option) => (
+              <button
+                key={option}
+                onClick={() => setBudget(option)}
+                className={`flex-1 py-1.5 rounded-md font-medium transition-all ${
+                  budget === option ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {option === 'combined' ? 'All files together' : 'Each file separately'}
+              </button>
+            ))}
+          </div>
+
+          <TargetSelector
+            originalSizeMB={budget === 'combined' ? estimates.originalSizeMB : largestSizeMB}
+            selectedTarget={target}
+            onTargetSelect={setTarget}
+          />
+        </>
+      )}
+
+      {estimates && (
+        <BatchTable
+          files={estimates.files}
+          jobs={batchStatus?.jobs}
+          targetMB={budget === 'each' ? target?.targetMB : undefined}
+        />
+      )}
+
+      {phase === 'ready' && combinedImpossible && (
+        <p className="text-sm text-amber-600">
+          Together these files can&apos;t go below ~{formatMB(combinedMinimumMB!)}. They will be
+          compressed as far as possible.
+        </p>
+      )}
+
+      {phase === 'ready' && target && impossibleCount > 0 && (
+        <p className="text-sm text-amber-600">
+          {impossibleCount === 1 ? '1 file' : `${impossibleCount} files`} can&apos;t reach{' '}
+          {target.targetMB} MB and will be compressed as far as possible.
+        </p>
+      )}
+
+      {phase === 'ready' && (
+        <button
+          onClick={handleCompress}
+          disabled={!target}
+          className={`w-full py-3 px-4 rounded-lg font-semibold transition-all ${
+            target
+              ? 'text-white bg-blue-600 hover:bg-blue-700 shadow-md hover:shadow-lg'
+              : 'bg-gray-200 text-gray-400 cursor-not-allowed'
+          }`}
+        >
+          Compress {files.length} PDFs
+        </button>
+      )}
+
+      {phase === 'done' && (
+        <button
+          onClick={handleDownload}
+          className="w-full py-3 px-4 rounded-lg font-semibold text-white bg-green-600 hover:bg-green-700 transition-colors"
+        >
+          Download ZIP
+        </button>
+      )}
+
+      <button
+        onClick={handleReset}
+        className="w-full py-2 text-sm text-gray-500 hover:text-gray-700"
+      >
+        {phase === 'done' ? 'Compress other PDFs' : 'Choose different files'}
+      </button>
+    </div>
+  );
+}
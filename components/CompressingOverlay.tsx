@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { PageProgress } from '@/lib/api';
 
 const funMessages = [
   "Squishing pixels together...",
@@ -49,18 +50,49 @@ interface CompressingOverlayProps {
   filename: string;
   progress?: number;
   progressMessage?: string;
+  pageProgress?: PageProgress;
+  onCancel?: () => void;
 }
 
+// One Ghostscript pass over the document; target searches run several
+interface PagePass {
+  pageCount: number;
+  startPage: number;
+  startSecond: number;
+  lastPage: number;
+}
+
+// Pages and seconds to see before the page rate is trusted for an ETA
+const MIN_ETA_PAGES = 2;
+const MIN_ETA_SECONDS = 3;
+
 export default function CompressingOverlay({
   filename,
   progress,
-  progressMessage
+  progressMessage,
+  pageProgress,
+  onCancel
 }: CompressingOverlayProps) {
   // Track elapsed time for user feedback
   const [elapsedSeconds, setElapsedSeconds] = useState(0);
   const [messageIndex, setMessageIndex] = useState(() =>
     Math.floor(Math.random() * funMessages.length)
   );
+  const [pass, setPass] = useState<PagePass | null>(null);
+
+  // A page number going back means a new pass has started
+  if (pageProgress && (
+    !pass || pageProgress.page < pass.lastPage || pageProgress.pageCount !== pass.pageCount
+  )) {
+    setPass({
+      pageCount: pageProgress.pageCount,
+      startPage: pageProgress.page,
+      startSecond: elapsedSeconds,
+      lastPage: pageProgress.page,
+    });
+  } else if (pageProgress && pass && pageProgress.page !== pass.lastPage) {
+    setPass({ ...pass, lastPage: pageProgress.page });
+  }
 
   useEffect(() => {
     const interval = setInterval(() => {
@@ -89,6 +121,16 @@ export default function CompressingOverlay({
     return `${mins}m ${secs}s`;
   };
 
+  // Remaining time for this pass, from its page rate so far
+  let etaSeconds: number | null = null;
+  if (pageProgress && pass) {
+    const pagesDone = pageProgress.page - pass.startPage;
+    const secondsSpent = elapsedSeconds - pass.startSecond;
+    if (pagesDone >= MIN_ETA_PAGES && secondsSpent >= MIN_ETA_SECONDS) {
+      etaSeconds = Math.round((secondsSpent / pagesDone) * (pageProgress.pageCount - pageProgress.page + 1));
+    }
+  }
+
   return (
     <div className="fixed inset-0 bg-white/90 backdrop-blur-sm z-50 flex items-center justify-center">
       <div className="text-center space-y-6 max-w-sm mx-auto px-4">
@@ -142,6 +184,14 @@ export default function CompressingOverlay({
           <p className="text-gray-500 text-sm truncate max-w-xs mx-auto">
             {filename}
           </p>
+          {pageProgress && (
+            <p className="text-gray-700 text-sm">
+              Page {pageProgress.page} of {pageProgress.pageCount}
+              {etaSeconds !== null && (
+                <span className="text-gray-400"> · about {formatTime(etaSeconds)} left in this pass</span>
+              )}
+            </p>
+          )}
         </div>
 
         {/* Fun message that cycles */}
@@ -167,6 +217,15 @@ export default function CompressingOverlay({
             </p>
           )}
         </div>
+
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="text-sm text-gray-500 hover:text-gray-700 underline"
+          >
+            Cancel
+          </button>
+        )}
       </div>
     </div>
   );
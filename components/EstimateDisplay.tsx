@@ -1,15 +1,24 @@
 'use client';
 
-import { SizeEstimate, PDFAnalysis } from '@/lib/api';
+import { useState } from 'react';
+import { SizeEstimate, PDFAnalysis, LosslessEstimate } from '@/lib/api';
 import TargetSelector, { TargetSelection } from './TargetSelector';
+import PageHeatStrip from './PageHeatStrip';
+import PreviewCompare from './PreviewCompare';
 import { formatMB } from '@/lib/sizeUtils';
 
 type CompressionChoice =
   | { type: 'quality'; quality: number }
-  | { type: 'target'; targetMB: number; label: string };
+  | { type: 'target'; targetMB: number; label: string }
+  | { type: 'lossless' };
 
 interface EstimateDisplayProps {
+  // Enables page previews
+  jobId?: string;
   estimates: SizeEstimate[];
+  // Smaller targets would make text hard to read
+  minimumLegibleSizeMB?: number;
+  losslessEstimate?: LosslessEstimate;
   originalSizeMB: number;
   pageCount: number;
   analysis?: PDFAnalysis;
@@ -36,17 +45,53 @@ const qualityDescriptions: Record<number, { label: string; description: string }
   },
 };
 
+/**
+ * How a quality level looked next to the original, from its visual score
+ */
+function describeVisualScore(estimate: SizeEstimate): { label: string; className: string } | null {
+  if (estimate.visualScore === undefined) return null;
+
+  if (estimate.legible === false) {
+    return { label: 'Text hard to read', className: 'text-red-600' };
+  }
+  if (estimate.visualScore >= 0.98) {
+    return { label: 'Visually identical', className: 'text-green-600' };
+  }
+  if (estimate.visualScore >= 0.9) {
+    return { label: 'Minor softening', className: 'text-gray-500' };
+  }
+  return { label: 'Noticeably degraded', className: 'text-amber-600' };
+}
+
 export default function EstimateDisplay({
+  jobId,
   estimates,
+  minimumLegibleSizeMB,
+  losslessEstimate,
   originalSizeMB,
   pageCount,
   analysis,
   selectedChoice,
   onChoiceSelect,
 }: EstimateDisplayProps) {
+  const [showPreview, setShowPreview] = useState(false);
+
   // Sort estimates by quality descending
   const sortedEstimates = [...estimates].sort((a, b) => b.quality - a.quality);
 
+  // The quality a choice would be compressed at; for a target, the best
+  // sampled quality estimated to fit
+  const previewQuality = selectedChoice?.type === 'quality'
+    ? selectedChoice.quality
+    : selectedChoice?.type === 'target'
+      ? sortedEstimates.find((e) => e.estimatedSizeMB <= selectedChoice.targetMB)?.quality
+      : undefined;
+
+  // Start on the page with the most image data, where compression shows most
+  const previewPage = analysis?.pages?.reduce((heaviest, page) =>
+    page.imageBytes > heaviest.imageBytes ? page : heaviest
+  ).pageNumber;
+
   // Convert TargetSelection to CompressionChoice
   const handleTargetSelect = (target: TargetSelection) => {
     const label = target.type === 'platform'
@@ -129,6 +174,9 @@ export default function EstimateDisplay({
           </div>
         )}
 
+        {/* Which pages the bytes are on */}
+        {analysis?.pages && <PageHeatStrip pages={analysis.pages} />}
+
         {/* Minimum achievable size hint */}
         {analysis && analysis.minimumAchievableSizeMB > 0 && (
           <p className="text-xs text-gray-400 text-center">
@@ -141,6 +189,7 @@ export default function EstimateDisplay({
       <TargetSelector
         originalSizeMB={originalSizeMB}
         minimumAchievableMB={analysis?.minimumAchievableSizeMB}
+        minimumLegibleMB={minimumLegibleSizeMB}
         selectedTarget={getSelectedTarget()}
         onTargetSelect={handleTargetSelect}
       />
@@ -158,6 +207,47 @@ export default function EstimateDisplay({
       {/* Quality Options */}
       <div className="space-y-2">
         <div className="grid gap-2">
+          {/* Lossless option - only worth offering if it actually saves something */}
+          {losslessEstimate && losslessEstimate.estimatedSizeMB < originalSizeMB && (() => {
+            const isSelected = selectedChoice?.type === 'lossless';
+            const savings = ((1 - losslessEstimate.estimatedSizeMB / originalSizeMB) * 100).toFixed(0);
+
+            return (
+              <button
+                onClick={() => onChoiceSelect({ type: 'lossless' })}
+                className={`
+                  w-full p-3 rounded-lg border-2 transition-all text-left
+                  ${isSelected
+                    ? 'border-blue-500 bg-blue-50 ring-2 ring-blue-200'
+                    : 'border-gray-200 bg-white hover:border-gray-300 hover:bg-gray-50'
+                  }
+                `}
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div
+                      className={`
+                        w-4 h-4 rounded-full border-2 flex items-center justify-center
+                        ${isSelected ? 'border-blue-500 bg-blue-500' : 'border-gray-300'}
+                      `}
+                    />
+                    <div>
+                      <p className={`font-medium text-sm ${isSelected ? 'text-blue-700' : 'text-gray-800'}`}>
+                        Lossless
+                      </p>
+                      <p className="text-xs text-gray-500">Images untouched, safe for contracts and signed forms</p>
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <p className={`font-semibold text-sm ${isSelected ? 'text-blue-700' : 'text-gray-800'}`}>
+                      {formatMB(losslessEstimate.estimatedSizeMB)}
+                    </p>
+                    <p className="text-xs text-green-600">-{savings}%</p>
+                  </div>
+                </div>
+              </button>
+            );
+          })()}
           {sortedEstimates.map((estimate) => {
             const isSelected =
               selectedChoice?.type === 'quality' &&
@@ -167,6 +257,7 @@ export default function EstimateDisplay({
               label: `Quality ${estimate.quality}%`,
               description: '',
             };
+            const visual = describeVisualScore(estimate);
 
             return (
               <button
@@ -203,12 +294,25 @@ export default function EstimateDisplay({
                         {info.label}
                       </p>
                       <p className="text-xs text-gray-500">{info.description}</p>
+                      {visual && (
+                        <p
+                          className={`text-xs font-medium ${visual.className}`}
+                          title={`Similarity to the original: ${Math.round(estimate.visualScore! * 100)}%`}
+                        >
+                          {visual.label}
+                        </p>
+                      )}
                     </div>
                   </div>
                   <div className="text-right">
                     <p className={`font-semibold text-sm ${isSelected ? 'text-blue-700' : 'text-gray-800'}`}>
                       {formatMB(estimate.estimatedSizeMB)}
                     </p>
+                    {estimate.confidenceInterval && (
+                      <p className="text-xs text-gray-400" title="Likely range of the compressed size">
+                        {formatMB(estimate.confidenceInterval.lowMB)}&ndash;{formatMB(estimate.confidenceInterval.highMB)}
+                      </p>
+                    )}
                     <p className="text-xs text-green-600">-{savings}%</p>
                   </div>
                 </div>
@@ -218,6 +322,25 @@ export default function EstimateDisplay({
         </div>
       </div>
 
+      {/* Before/after comparison of one page */}
+      {jobId && previewQuality !== undefined && (
+        showPreview ? (
+          <PreviewCompare
+            jobId={jobId}
+            pageCount={pageCount}
+            quality={previewQuality}
+            initialPage={previewPage}
+          />
+        ) : (
+          <button
+            onClick={() => setShowPreview(true)}
+            className="w-full py-2 text-sm text-blue-600 hover:text-blue-700"
+          >
+            Preview a page before compressing
+          </button>
+        )
+      )}
+
       <p className="text-xs text-gray-400 text-center">
         Text remains sharp at all levels. Heavy compression affects image quality.
       </p>
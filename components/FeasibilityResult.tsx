@@ -2,27 +2,39 @@
 
 import { useState } from 'react';
 import { formatMB } from '@/lib/sizeUtils';
+import type { ColorConversion, PageAction } from '@/lib/api';
 
 interface FeasibilityResultProps {
   targetMB: number;
   targetLabel: string;
   estimatedMB: number;
   minimumAchievableMB?: number;
-  onCompress: () => void;
+  losslessMB?: number;
+  pageCount?: number;
+  grayscalePageCount?: number;
+  onCompress: (colorConversion?: ColorConversion) => void;
+  onSplit?: () => void;
+  onReducePages?: (action: PageAction) => void;
   onChangeTarget: (newTargetMB?: number) => void;
 }
 
-type ImpossibleTargetOption = 'compress' | 'different';
+type ImpossibleTargetOption = 'compress' | 'grayscale' | 'mono' | 'pages' | 'split' | 'different';
 
 export default function FeasibilityResult({
   targetMB,
   targetLabel,
   estimatedMB,
   minimumAchievableMB,
+  losslessMB,
+  pageCount,
+  grayscalePageCount,
   onCompress,
+  onSplit,
+  onReducePages,
   onChangeTarget,
 }: FeasibilityResultProps) {
   const [selectedOption, setSelectedOption] = useState<ImpossibleTargetOption>('different');
+  const [pageAction, setPageAction] = useState<PageAction>('placeholder');
   const [customTargetMB, setCustomTargetMB] = useState<string>(
     minimumAchievableMB ? Math.ceil(minimumAchievableMB).toString() : ''
   );
@@ -32,8 +44,17 @@ export default function FeasibilityResult({
   const isAchievable = estimatedMB <= targetMB;
   const isClose = isAchievable && estimatedMB >= targetMB * 0.95;
   const isMuchSmaller = isAchievable && estimatedMB <= targetMB * 0.7;
+  // Target reachable by lossless optimization alone
+  const isLossless = losslessMB !== undefined && losslessMB <= targetMB;
 
   const minSize = minimumAchievableMB || estimatedMB;
+  // Colour conversion won't help a document that has no colour to drop
+  const isAllGrayscale =
+    pageCount !== undefined && grayscalePageCount !== undefined && grayscalePageCount >= pageCount;
+  // Rough number of parts; the server plans the actual split
+  const partCount = Math.max(2, Math.ceil(minSize / targetMB));
+  const canSplit = onSplit !== undefined && (pageCount === undefined || pageCount > 1);
+  const canReducePages = onReducePages !== undefined && (pageCount === undefined || pageCount > 1);
 
   // Validate custom target
   const handleCustomTargetChange = (value: string) => {
@@ -51,6 +72,12 @@ export default function FeasibilityResult({
   const handleContinue = () => {
     if (selectedOption === 'compress') {
       onCompress();
+    } else if (selectedOption === 'grayscale' || selectedOption === 'mono') {
+      onCompress(selectedOption);
+    } else if (selectedOption === 'pages') {
+      onReducePages?.(pageAction);
+    } else if (selectedOption === 'split') {
+      onSplit?.();
     } else if (selectedOption === 'different') {
       const numValue = parseFloat(customTargetMB);
       if (!isNaN(numValue) && numValue > 0) {
@@ -65,7 +92,7 @@ export default function FeasibilityResult({
     selectedOption === 'different' && (!!customTargetError || !customTargetMB);
 
   // For impossible targets - show two options
-  if (!isAchievable) {
+  if (!isAchievable && !isLossless) {
     return (
       <div className="space-y-4">
         {/* Warning banner */}
@@ -116,7 +143,138 @@ export default function FeasibilityResult({
             </div>
           </label>
 
-          {/* Option 2: Try different target */}
+          {/* Option 2: Drop colour */}
+          {!isAllGrayscale && (
+            <label
+              className={`block p-4 rounded-lg border-2 cursor-pointer transition-all ${
+                selectedOption === 'grayscale'
+                  ? 'border-blue-500 bg-blue-50'
+                  : 'border-gray-200 hover:border-gray-300'
+              }`}
+            >
+              <div className="flex items-start gap-3">
+                <input
+                  type="radio"
+                  name="impossibleOption"
+                  checked={selectedOption === 'grayscale'}
+                  onChange={() => setSelectedOption('grayscale')}
+                  className="mt-1"
+                />
+                <div className="flex-1">
+                  <span className="font-medium text-gray-800">Convert to grayscale</span>
+                  <p className="text-sm text-gray-500 mt-1">
+                    Removes colour from images and text. Often a large saving on colour scans.
+                  </p>
+                </div>
+              </div>
+            </label>
+          )}
+
+          {/* Option 3: Black & white */}
+          <label
+            className={`block p-4 rounded-lg border-2 cursor-pointer transition-all ${
+              selectedOption === 'mono'
+                ? 'border-blue-500 bg-blue-50'
+                : 'border-gray-200 hover:border-gray-300'
+            }`}
+          >
+            <div className="flex items-start gap-3">
+              <input
+                type="radio"
+                name="impossibleOption"
+                checked={selectedOption === 'mono'}
+                onChange={() => setSelectedOption('mono')}
+                className="mt-1"
+              />
+              <div className="flex-1">
+                <span className="font-medium text-gray-800">Black &amp; white (for scans)</span>
+                <p className="text-sm text-gray-500 mt-1">
+                  Turns every page into a black &amp; white image. Best for scanned text; text is no longer selectable.
+                </p>
+                {isAllGrayscale && (
+                  <p className="text-xs text-gray-400 mt-1">
+                    Your PDF is already grayscale, so grayscale conversion won&apos;t help.
+                  </p>
+                )}
+              </div>
+            </div>
+          </label>
+
+          {/* Option 4: Give up the heaviest pages */}
+          {canReducePages && (
+            <label
+              className={`block p-4 rounded-lg border-2 cursor-pointer transition-all ${
+                selectedOption === 'pages'
+                  ? 'border-blue-500 bg-blue-50'
+                  : 'border-gray-200 hover:border-gray-300'
+              }`}
+            >
+              <div className="flex items-start gap-3">
+                <input
+                  type="radio"
+                  name="impossibleOption"
+                  checked={selectedOption === 'pages'}
+                  onChange={() => setSelectedOption('pages')}
+                  className="mt-1"
+                />
+                <div className="flex-1">
+                  <span className="font-medium text-gray-800">Shrink only the heaviest pages</span>
+                  <p className="text-sm text-gray-500 mt-1">
+                    The rest of the document keeps its quality.
+                  </p>
+                  <div className="mt-2 flex gap-2 text-sm">
+                    {(['placeholder', 'remove'] as PageAction[]).map((action) => (
+                      <button
+                        key={action}
+                        type="button"
+                        onClick={() => {
+                          setSelectedOption('pages');
+                          setPageAction(action);
+                        }}
+                        className={`px-3 py-1 rounded border ${
+                          pageAction === action
+                            ? 'border-blue-500 text-blue-700 bg-white'
+                            : 'border-gray-300 text-gray-500 hover:text-gray-700'
+                        }`}
+                      >
+                        {action === 'placeholder' ? 'Keep as low-res previews' : 'Remove them'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </label>
+          )}
+
+          {/* Option 5: Split into parts */}
+          {canSplit && (
+            <label
+              className={`block p-4 rounded-lg border-2 cursor-pointer transition-all ${
+                selectedOption === 'split'
+                  ? 'border-blue-500 bg-blue-50'
+                  : 'border-gray-200 hover:border-gray-300'
+              }`}
+            >
+              <div className="flex items-start gap-3">
+                <input
+                  type="radio"
+                  name="impossibleOption"
+                  checked={selectedOption === 'split'}
+                  onChange={() => setSelectedOption('split')}
+                  className="mt-1"
+                />
+                <div className="flex-1">
+                  <span className="font-medium text-gray-800">Split into parts</span>
+                  <p className="text-sm text-gray-500 mt-1">
+                    About {partCount} PDFs of up to {formatMB(targetMB)} each, downloaded as a ZIP.
+                    Good for attachment limits.
+                  </p>
+                </div>
+              </div>
+            </label>
+          )}
+
+          {/* Option 6: Try different target */}
           <label
             className={`block p-4 rounded-lg border-2 cursor-pointer transition-all ${
               selectedOption === 'different'
@@ -193,27 +351,42 @@ export default function FeasibilityResult({
             </svg>
           </div>
           <div className="flex-1">
-            <h3 className="font-semibold text-green-800">
-              {isClose ? "We can do this, but it'll be close." : "We can do this."}
-            </h3>
-            <p className="text-sm text-green-700 mt-1">
-              Estimated result:{' '}
-              <span className="font-semibold">{formatMB(estimatedMB)}</span>
-              {isClose && (
-                <span className="text-green-600"> (target: {formatMB(targetMB)})</span>
-              )}
-            </p>
-            {isMuchSmaller && (
-              <p className="text-sm text-green-600 mt-1">
-                Fits in {targetLabel} with plenty of room to spare.
-              </p>
+            {isLossless ? (
+              <>
+                <h3 className="font-semibold text-green-800">
+                  You can hit {formatMB(targetMB)} without touching quality.
+                </h3>
+                <p className="text-sm text-green-700 mt-1">
+                  Estimated result:{' '}
+                  <span className="font-semibold">{formatMB(losslessMB ?? targetMB)}</span>
+                  <span className="text-green-600"> (images stay exactly as they are)</span>
+                </p>
+              </>
+            ) : (
+              <>
+                <h3 className="font-semibold text-green-800">
+                  {isClose ? "We can do this, but it'll be close." : "We can do this."}
+                </h3>
+                <p className="text-sm text-green-700 mt-1">
+                  Estimated result:{' '}
+                  <span className="font-semibold">{formatMB(estimatedMB)}</span>
+                  {isClose && (
+                    <span className="text-green-600"> (target: {formatMB(targetMB)})</span>
+                  )}
+                </p>
+                {isMuchSmaller && (
+                  <p className="text-sm text-green-600 mt-1">
+                    Fits in {targetLabel} with plenty of room to spare.
+                  </p>
+                )}
+              </>
             )}
           </div>
         </div>
       </div>
 
       <button
-        onClick={onCompress}
+        onClick={() => onCompress()}
         className="w-full py-3 px-4 rounded-lg font-semibold text-white bg-blue-600 hover:bg-blue-700 shadow-md hover:shadow-lg transition-all"
       >
         Compress PDF
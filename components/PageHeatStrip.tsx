@@ -0,0 +1,120 @@
+'use client';
+
+import { PageSizeInfo } from '@/lib/api';
+import { formatBytes } from '@/lib/sizeUtils';
+
+interface PageHeatStripProps {
+  pages: PageSizeInfo[];
+}
+
+// Long documents are drawn as groups of pages so cells stay visible
+const MAX_CELLS = 120;
+// Only call out heavy pages when a few of them hold most of the file
+const HEAVY_SHARE = 0.5;
+const MAX_HEAVY_PAGE_FRACTION = 0.25;
+
+interface Cell {
+  firstPage: number;
+  lastPage: number;
+  bytes: number;
+  imageBytes: number;
+}
+
+/**
+ * Group consecutive pages into at most MAX_CELLS cells
+ */
+function toCells(pages: PageSizeInfo[]): Cell[] {
+  const perCell = Math.ceil(pages.length / MAX_CELLS);
+  const cells: Cell[] = [];
+
+  for (let i = 0; i < pages.length; i += perCell) {
+    const group = pages.slice(i, i + perCell);
+    cells.push({
+      firstPage: group[0].pageNumber,
+      lastPage: group[group.length - 1].pageNumber,
+      bytes: group.reduce((sum, page) => sum + page.totalBytes, 0),
+      imageBytes: group.reduce((sum, page) => sum + page.imageBytes, 0),
+    });
+  }
+
+  return cells;
+}
+
+/**
+ * Page numbers as compact ranges, e.g. "3, 40-45"
+ */
+function formatPageList(pageNumbers: number[]): string {
+  const sorted = [...pageNumbers].sort((a, b) => a - b);
+  const ranges: string[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i];
+    while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) i++;
+    ranges.push(start === sorted[i] ? `${start}` : `${start}-${sorted[i]}`);
+  }
+
+  return ranges.join(', ');
+}
+
+/**
+ * Fewest pages that together hold at least HEAVY_SHARE of the bytes,
+ * or null when the weight is spread too evenly to be worth pointing out
+ */
+function findHeavyPages(pages: PageSizeInfo[], totalBytes: number) {
+  const byWeight = [...pages].sort((a, b) => b.totalBytes - a.totalBytes);
+  const heavy: PageSizeInfo[] = [];
+  let bytes = 0;
+
+  for (const page of byWeight) {
+    if (bytes >= totalBytes * HEAVY_SHARE) break;
+    heavy.push(page);
+    bytes += page.totalBytes;
+  }
+
+  if (heavy.length > pages.length * MAX_HEAVY_PAGE_FRACTION) return null;
+  return { pageNumbers: heavy.map((page) => page.pageNumber), share: bytes / totalBytes };
+}
+
+export default function PageHeatStrip({ pages }: PageHeatStripProps) {
+  const totalBytes = pages.reduce((sum, page) => sum + page.totalBytes, 0);
+  if (pages.length < 2 || totalBytes === 0) return null;
+
+  const cells = toCells(pages);
+  const maxBytes = Math.max(...cells.map((cell) => cell.bytes));
+  const heavy = findHeavyPages(pages, totalBytes);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex h-6 rounded overflow-hidden bg-gray-100 gap-px">
+        {cells.map((cell) => {
+          const label = cell.firstPage === cell.lastPage
+            ? `Page ${cell.firstPage}`
+            : `Pages ${cell.firstPage}-${cell.lastPage}`;
+          // Square root keeps light pages visible next to a very heavy one
+          const intensity = maxBytes > 0 ? Math.sqrt(cell.bytes / maxBytes) : 0;
+
+          return (
+            <div
+              key={cell.firstPage}
+              className="flex-1 min-w-[2px] bg-red-500"
+              style={{ opacity: 0.1 + intensity * 0.9 }}
+              title={`${label}: ${formatBytes(cell.bytes)}${
+                cell.imageBytes > 0 ? ` (images ${formatBytes(cell.imageBytes)})` : ''
+              }`}
+            />
+          );
+        })}
+      </div>
+      <div className="flex justify-between text-xs text-gray-400">
+        <span>Page 1</span>
+        {heavy && (
+          <span className="text-gray-600">
+            {heavy.pageNumbers.length === 1 ? 'Page' : 'Pages'} {formatPageList(heavy.pageNumbers)}{' '}
+            {heavy.pageNumbers.length === 1 ? 'holds' : 'hold'} {Math.round(heavy.share * 100)}% of the file
+          </span>
+        )}
+        <span>Page {pages[pages.length - 1].pageNumber}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { useState } from 'react';
+
+interface PasswordPromptProps {
+  filename: string;
+  // The last password tried was wrong
+  incorrect?: boolean;
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+}
+
+export default function PasswordPrompt({
+  filename,
+  incorrect = false,
+  onSubmit,
+  onCancel,
+}: PasswordPromptProps) {
+  const [password, setPassword] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password) onSubmit(password);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+        <div className="flex items-start gap-3">
+          <div className="flex-shrink-0 w-8 h-8 rounded-full bg-amber-100 flex items-center justify-center">
+            <svg className="w-5 h-5 text-amber-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth="2"
+                d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
+              />
+            </svg>
+          </div>
+          <div className="flex-1 min-w-0">
+            <h3 className="font-semibold text-amber-800">This PDF is password-protected</h3>
+            <p className="text-sm text-amber-700 mt-1 break-words">
+              Enter the password for <span className="font-medium">{filename}</span> to compress it.
+              It is only kept in memory while your file is processed.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoFocus
+          autoComplete="off"
+          placeholder="PDF password"
+          aria-label="PDF password"
+          className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+            incorrect ? 'border-red-400' : 'border-gray-300'
+          }`}
+        />
+        {incorrect && (
+          <p className="mt-2 text-sm text-red-600">That password is incorrect. Please try again.</p>
+        )}
+      </div>
+
+      <button
+        type="submit"
+        disabled={!password}
+        className="w-full py-3 px-4 rounded-lg font-semibold text-white bg-blue-600 hover:bg-blue-700 shadow-md hover:shadow-lg transition-all disabled:bg-gray-300 disabled:shadow-none"
+      >
+        Unlock and upload
+      </button>
+      <button
+        type="button"
+        onClick={onCancel}
+        className="w-full py-2 text-sm text-gray-500 hover:text-gray-700"
+      >
+        Choose a different file
+      </button>
+    </form>
+  );
+}
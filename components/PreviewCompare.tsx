@@ -0,0 +1,147 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getPreview, PagePreview } from '@/lib/api';
+import { formatBytes } from '@/lib/sizeUtils';
+
+interface PreviewCompareProps {
+  jobId: string;
+  pageCount: number;
+  quality: number;
+  // Page shown first, e.g. the one with the most image data
+  initialPage?: number;
+}
+
+const ZOOM_LEVELS = [1, 2, 3];
+
+export default function PreviewCompare({
+  jobId,
+  pageCount,
+  quality,
+  initialPage = 1,
+}: PreviewCompareProps) {
+  const [page, setPage] = useState(initialPage);
+  // The last preview rendered; kept on screen while the next one renders
+  const [preview, setPreview] = useState<PagePreview | null>(null);
+  // The last request that finished, and its error if it failed
+  const [finished, setFinished] = useState<{ key: string; error?: string } | null>(null);
+  // Where the divider sits, in percent from the left
+  const [split, setSplit] = useState(50);
+  const [zoom, setZoom] = useState(1);
+
+  const requestKey = `${page}:${quality}`;
+  const loading = finished?.key !== requestKey;
+  const error = loading ? undefined : finished?.error;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getPreview(jobId, page, quality)
+      .then((result) => {
+        if (cancelled) return;
+        setPreview(result);
+        setFinished({ key: `${page}:${quality}` });
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setFinished({
+          key: `${page}:${quality}`,
+          error: err instanceof Error ? err.message : 'Failed to render preview',
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [jobId, page, quality]);
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1}
+            className="px-2 py-1 rounded text-gray-600 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent"
+            aria-label="Previous page"
+          >
+            &lsaquo;
+          </button>
+          <span className="text-gray-600">
+            Page {page} of {pageCount}
+          </span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page >= pageCount}
+            className="px-2 py-1 rounded text-gray-600 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent"
+            aria-label="Next page"
+          >
+            &rsaquo;
+          </button>
+        </div>
+        <div className="flex gap-1">
+          {ZOOM_LEVELS.map((level) => (
+            <button
+              key={level}
+              onClick={() => setZoom(level)}
+              className={`px-2 py-1 rounded text-xs ${
+                zoom === level ? 'bg-blue-100 text-blue-700' : 'text-gray-500 hover:bg-gray-100'
+              }`}
+            >
+              {level}&times;
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="relative h-96 overflow-auto bg-gray-100 rounded">
+        {preview && (
+          <div className="relative" style={{ width: `${zoom * 100}%` }}>
+            {/* Data URLs rendered on demand; there is nothing for next/image to optimize */}
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={preview.original.image}
+              alt={`Page ${preview.page} as it is`}
+              className="block w-full"
+            />
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={preview.compressed.image}
+              alt={`Page ${preview.page} compressed`}
+              className="absolute inset-0 block w-full"
+              style={{ clipPath: `inset(0 0 0 ${split}%)` }}
+            />
+            <div
+              className="absolute inset-y-0 w-0.5 bg-blue-500 pointer-events-none"
+              style={{ left: `${split}%` }}
+            />
+          </div>
+        )}
+        {loading && (
+          <div className="absolute inset-0 flex items-center justify-center bg-white/60 text-sm text-gray-500">
+            Rendering preview...
+          </div>
+        )}
+        {error && (
+          <div className="absolute inset-0 flex items-center justify-center p-4 text-sm text-red-600 text-center">
+            {error}
+          </div>
+        )}
+      </div>
+
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={split}
+        onChange={(e) => setSplit(Number(e.target.value))}
+        className="w-full"
+        aria-label="Compare original and compressed"
+      />
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>Original{preview && ` (${formatBytes(preview.original.sizeBytes)} for this page)`}</span>
+        <span>Compressed{preview && ` (${formatBytes(preview.compressed.sizeBytes)})`}</span>
+      </div>
+    </div>
+  );
+}
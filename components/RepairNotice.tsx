@@ -0,0 +1,35 @@
+'use client';
+
+import { RepairReport } from '@/lib/api';
+
+interface RepairNoticeProps {
+  repair: RepairReport;
+}
+
+export default function RepairNotice({ repair }: RepairNoticeProps) {
+  const lostContent = repair.warnings.length > 0;
+
+  return (
+    <div className={`rounded-lg p-4 border ${lostContent ? 'bg-amber-50 border-amber-200' : 'bg-blue-50 border-blue-200'}`}>
+      <h3 className={`font-semibold ${lostContent ? 'text-amber-800' : 'text-blue-800'}`}>
+        This PDF was damaged and has been repaired
+      </h3>
+      {lostContent ? (
+        <>
+          <p className="text-sm text-amber-700 mt-1">
+            Check the compressed file carefully. Some content could not be recovered:
+          </p>
+          <ul className="list-disc list-inside text-sm text-amber-700 mt-2 space-y-1">
+            {repair.warnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        </>
+      ) : (
+        <p className="text-sm text-blue-700 mt-1">
+          Its internal index was rebuilt. No content was lost.
+        </p>
+      )}
+    </div>
+  );
+}
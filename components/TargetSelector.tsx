@@ -43,6 +43,8 @@ export type TargetSelection =
 interface TargetSelectorProps {
   originalSizeMB: number;
   minimumAchievableMB?: number;
+  // Smaller targets would make text hard to read
+  minimumLegibleMB?: number;
   selectedTarget: TargetSelection | null;
   onTargetSelect: (target: TargetSelection) => void;
 }
@@ -50,6 +52,7 @@ interface TargetSelectorProps {
 export default function TargetSelector({
   originalSizeMB,
   minimumAchievableMB,
+  minimumLegibleMB,
   selectedTarget,
   onTargetSelect,
 }: TargetSelectorProps) {
@@ -103,6 +106,11 @@ export default function TargetSelector({
       return;
     }
 
+    if (!isLegible(numValue)) {
+      setCustomError(`Text would be hard to read below ${minimumLegibleMB?.toFixed(1)} MB`);
+      return;
+    }
+
     // Valid - select it
     onTargetSelect({
       type: 'custom',
@@ -122,6 +130,12 @@ export default function TargetSelector({
     return targetMB >= minimumAchievableMB;
   };
 
+  // Check if a target keeps text readable
+  const isLegible = (targetMB: number) => {
+    if (!minimumLegibleMB) return true;
+    return targetMB >= minimumLegibleMB;
+  };
+
   return (
     <div className="space-y-4">
       <p className="text-sm font-medium text-gray-700 text-center">
@@ -138,22 +152,29 @@ export default function TargetSelector({
             {category.platforms.map((platform) => {
               const selected = isSelected(platform.id);
               const achievable = isAchievable(platform.limitMB);
+              const legible = isLegible(platform.limitMB);
 
               return (
                 <button
                   key={platform.id}
                   onClick={() => handlePlatformSelect(platform)}
-                  disabled={!achievable}
+                  disabled={!achievable || !legible}
                   className={`
                     px-3 py-2 rounded-lg text-sm font-medium transition-all
                     ${selected
                       ? 'bg-blue-500 text-white shadow-md'
-                      : achievable
+                      : achievable && legible
                         ? 'bg-gray-100 text-gray-700 hover:bg-gray-200'
                         : 'bg-gray-50 text-gray-300 cursor-not-allowed'
                     }
                   `}
-                  title={!achievable ? `Cannot compress below ${minimumAchievableMB?.toFixed(1)} MB` : undefined}
+                  title={
+                    !achievable
+                      ? `Cannot compress below ${minimumAchievableMB?.toFixed(1)} MB`
+                      : !legible
+                        ? `Text would be hard to read below ${minimumLegibleMB?.toFixed(1)} MB`
+                        : undefined
+                  }
                 >
                   {platform.name}
                   <span className={`ml-1 ${selected ? 'text-blue-100' : 'text-gray-400'}`}>
@@ -2,19 +2,40 @@
 
 import { useCallback, useState } from 'react';
 import { formatBytes, MB } from '@/lib/sizeUtils';
+import { UploadErrorCode } from '@/lib/api';
 
 interface UploadZoneProps {
   file: File | null;
   onFileSelect: (file: File | null) => void;
+  // When set, several files can be dropped at once and are handed over as a batch
+  onFilesSelect?: (files: File[]) => void;
+  // Why the server refused the last upload
+  rejection?: UploadErrorCode | null;
   disabled?: boolean;
 }
 
 const MAX_FILE_SIZE_MB = 250;
 const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * MB;
 
-export default function UploadZone({ file, onFileSelect, disabled = false }: UploadZoneProps) {
+const REJECTION_MESSAGES: Record<UploadErrorCode, string> = {
+  NOT_PDF: "This file isn't a PDF, whatever its name says",
+  ENCRYPTED: 'This PDF is password-protected.',
+  INCORRECT_PASSWORD: 'The password for this PDF is incorrect.',
+  TOO_MANY_PAGES: 'This PDF has too many pages. Split it into smaller files first.',
+  TRUNCATED: 'This PDF is incomplete, probably from an interrupted download. Download it again.',
+  DAMAGED: 'This PDF is too badly damaged to open.',
+};
+
+export default function UploadZone({
+  file,
+  onFileSelect,
+  onFilesSelect,
+  rejection,
+  disabled = false,
+}: UploadZoneProps) {
   const [isDragging, setIsDragging] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [localError, setError] = useState<string | null>(null);
+  const error = localError ?? (rejection ? REJECTION_MESSAGES[rejection] : null);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -26,23 +47,36 @@ export default function UploadZone({ file, onFileSelect, disabled = false }: Upl
     setIsDragging(false);
   }, []);
 
-  const validateAndSelectFile = useCallback((selectedFile: File) => {
+  const validateAndSelectFiles = useCallback((fileList: FileList) => {
     setError(null);
 
-    // Check file type
-    if (selectedFile.type !== 'application/pdf') {
-      setError('Please upload a PDF file');
-      return;
+    const selectedFiles = onFilesSelect ? Array.from(fileList) : Array.from(fileList).slice(0, 1);
+    if (selectedFiles.length === 0) return;
+
+    for (const selectedFile of selectedFiles) {
+      // Check file type
+      if (selectedFile.type !== 'application/pdf') {
+        setError(selectedFiles.length > 1
+          ? `${selectedFile.name} is not a PDF file`
+          : 'Please upload a PDF file');
+        return;
+      }
+
+      // Check file size
+      if (selectedFile.size > MAX_FILE_SIZE_BYTES) {
+        setError(selectedFiles.length > 1
+          ? `${selectedFile.name} is too large. Maximum size is ${MAX_FILE_SIZE_MB}MB.`
+          : `File too large. Maximum size is ${MAX_FILE_SIZE_MB}MB.`);
+        return;
+      }
     }
 
-    // Check file size
-    if (selectedFile.size > MAX_FILE_SIZE_BYTES) {
-      setError(`File too large. Maximum size is ${MAX_FILE_SIZE_MB}MB.`);
-      return;
+    if (selectedFiles.length > 1 && onFilesSelect) {
+      onFilesSelect(selectedFiles);
+    } else {
+      onFileSelect(selectedFiles[0]);
     }
-
-    onFileSelect(selectedFile);
-  }, [onFileSelect]);
+  }, [onFileSelect, onFilesSelect]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -50,20 +84,16 @@ export default function UploadZone({ file, onFileSelect, disabled = false }: Upl
 
     if (disabled) return;
 
-    const droppedFile = e.dataTransfer.files[0];
-    if (droppedFile) {
-      validateAndSelectFile(droppedFile);
-    }
-  }, [validateAndSelectFile, disabled]);
+    validateAndSelectFiles(e.dataTransfer.files);
+  }, [validateAndSelectFiles, disabled]);
 
   const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     if (disabled) return;
 
-    const selectedFile = e.target.files?.[0];
-    if (selectedFile) {
-      validateAndSelectFile(selectedFile);
+    if (e.target.files) {
+      validateAndSelectFiles(e.target.files);
     }
-  }, [validateAndSelectFile, disabled]);
+  }, [validateAndSelectFiles, disabled]);
 
   const handleRemove = useCallback(() => {
     setError(null);
@@ -92,6 +122,7 @@ export default function UploadZone({ file, onFileSelect, disabled = false }: Upl
         <input
           type="file"
           accept=".pdf,application/pdf"
+          multiple={!!onFilesSelect}
           onChange={handleFileInput}
           disabled={disabled}
           className={`absolute inset-0 w-full h-full opacity-0 ${disabled ? 'cursor-not-allowed' : 'cursor-pointer'}`}
@@ -126,7 +157,7 @@ export default function UploadZone({ file, onFileSelect, disabled = false }: Upl
                   </svg>
                 </div>
                 <p className="text-gray-600 font-medium">
-                  Drag & drop your PDF here
+                  {onFilesSelect ? 'Drag & drop your PDFs here' : 'Drag & drop your PDF here'}
                 </p>
                 <p className="text-gray-400 text-sm">
                   or click to browse
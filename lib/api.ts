@@ -1,6 +1,33 @@
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 const API_KEY = process.env.NEXT_PUBLIC_API_KEY || '';
 
+// Why the server refused an upload
+export type UploadErrorCode = 'NOT_PDF' | 'ENCRYPTED' | 'INCORRECT_PASSWORD' | 'TOO_MANY_PAGES' | 'TRUNCATED' | 'DAMAGED';
+
+const UPLOAD_ERROR_CODES: UploadErrorCode[] = [
+  'NOT_PDF',
+  'ENCRYPTED',
+  'INCORRECT_PASSWORD',
+  'TOO_MANY_PAGES',
+  'TRUNCATED',
+  'DAMAGED',
+];
+
+/**
+ * A failed request, with the server's error code when it sent one
+ */
+export class ApiError extends Error {
+  constructor(message: string, public readonly status: number, public readonly code?: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  // The upload was refused for its content; see UploadErrorCode
+  get uploadErrorCode(): UploadErrorCode | undefined {
+    return UPLOAD_ERROR_CODES.find((code) => code === this.code);
+  }
+}
+
 interface ApiOptions {
   method?: string;
   body?: FormData | string;
@@ -30,7 +57,7 @@ async function apiFetch<T>(endpoint: string, options: ApiOptions = {}): Promise<
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: 'Request failed' }));
-    throw new Error(error.error || error.message || `HTTP ${response.status}`);
+    throw new ApiError(error.error || error.message || `HTTP ${response.status}`, response.status, error.code);
   }
 
   return response.json();
@@ -49,6 +76,35 @@ export interface SizeEstimate {
   quality: number;
   estimatedSizeBytes: number;
   estimatedSizeMB: number;
+  // Where the compressed size is likely to land (95% of the time)
+  confidenceInterval?: {
+    lowBytes: number;
+    highBytes: number;
+    lowMB: number;
+    highMB: number;
+  };
+  // How close the sample looked to the original (SSIM, 1 = identical)
+  visualScore?: number;
+  // Text in the sample stayed readable
+  legible?: boolean;
+}
+
+export interface PageResource {
+  name: string;
+  kind: 'image' | 'font' | 'form';
+  bytes: number;
+  sharedBy: number; // Number of pages that use it
+}
+
+export interface PageSizeInfo {
+  pageNumber: number;
+  // Stored bytes attributed to the page; shared resources are split evenly
+  totalBytes: number;
+  contentBytes: number;
+  contentShare: number; // 0-1, of all pages' content bytes
+  imageBytes: number;
+  fontBytes: number;
+  resources: PageResource[];
 }
 
 export interface PDFAnalysis {
@@ -65,13 +121,65 @@ export interface PDFAnalysis {
     hasBookmarks: boolean;
     hasAnnotations: boolean;
     hasForms: boolean;
+    hasSignatures: boolean;
+  };
+  color?: {
+    grayscalePageCount: number;
+    colorPageCount: number;
+    grayscalePages: number[];
   };
+  pages?: PageSizeInfo[];
   compressibleContentMB: number;
   fixedOverheadMB: number;
   minimumAchievableSizeMB: number;
   analysisTimeMs: number;
 }
 
+export interface LosslessEstimate {
+  estimatedSizeBytes: number;
+  estimatedSizeMB: number;
+}
+
+// How a damaged upload was repaired: 'xref' rebuilt the cross-reference
+// table, 'redistill' rewrote it with Ghostscript, 'salvage' dropped
+// unreadable objects
+export interface RepairReport {
+  method: 'xref' | 'redistill' | 'salvage';
+  // Content that was lost
+  warnings: string[];
+}
+
+// A page rendered for preview
+export interface PreviewImage {
+  // PNG data URL
+  image: string;
+  // The page on its own as a PDF
+  sizeBytes: number;
+}
+
+export interface PagePreview {
+  page: number;
+  quality: number;
+  original: PreviewImage;
+  compressed: PreviewImage;
+}
+
+export type DocumentFeature =
+  | 'outlines'
+  | 'links'
+  | 'forms'
+  | 'namedDestinations'
+  | 'metadata'
+  | 'pageLabels';
+
+// Document features compression dropped: copied back from the upload, or lost
+export interface FidelityReport {
+  regrafted: DocumentFeature[];
+  lost: DocumentFeature[];
+  // Restoring them would have gone over the target size
+  droppedForSize?: boolean;
+}
+
 export interface EstimateResponse {
   status: string;
   originalSize: number;
@@ -80,40 +188,97 @@ export interface EstimateResponse {
   sampledPages: number;
   samplingTimeMs: number;
   estimates: SizeEstimate[];
+  // Smaller targets would make text hard to read
+  minimumLegibleSizeMB?: number;
+  losslessEstimate?: LosslessEstimate;
   analysis?: PDFAnalysis;
+  repair?: RepairReport;
   message?: string;
 }
 
+export interface PageProgress {
+  page: number;
+  pageCount: number;
+}
+
 export interface JobStatus {
   id: string;
-  status: 'pending' | 'estimating' | 'ready' | 'compressing' | 'done' | 'failed';
+  status: 'pending' | 'estimating' | 'ready' | 'compressing' | 'done' | 'failed' | 'cancelled';
   originalFilename: string;
   originalSize: number;
   progress?: number;
   progressMessage?: string;
+  // Page Ghostscript is on during compression
+  pageProgress?: PageProgress;
   error?: string;
+  // Set when the server stopped Ghostscript at one of its limits
+  errorCode?: 'GHOSTSCRIPT_TIMEOUT' | 'MEMORY_LIMIT' | 'OUTPUT_LIMIT';
+  // The upload is encrypted; compression can keep its password
+  encrypted?: boolean;
+  repair?: RepairReport;
   compressionResult?: {
     compressedSize: number;
     quality: number;
     compressionRatio: number;
+    // Pages that were removed or replaced with low-resolution previews
+    reducedPages?: number[];
+    pageAction?: PageAction;
+    // The output has the upload's password and permissions
+    encrypted?: boolean;
+    fidelity?: FidelityReport;
+    // Split mode: the download is a ZIP of these parts
+    parts?: SplitPart[];
   };
   createdAt: string;
   updatedAt: string;
 }
 
+export interface SplitPart {
+  filename: string;
+  firstPage: number;
+  lastPage: number;
+  compressedSize: number;
+  verificationPassed: boolean;
+}
+
+// 'standard' compresses the whole document with Ghostscript,
+// 'images' re-encodes only the largest images to meet the target,
+// 'lossless' optimizes structure and streams without touching images,
+// 'split' cuts the document into parts that each fit the target
+export type CompressionMode = 'standard' | 'images' | 'lossless' | 'split';
+
+// 'grayscale' drops colour, 'mono' turns pages into black & white scans
+export type ColorConversion = 'keep' | 'grayscale' | 'mono';
+
+// 'remove' deletes pages, 'placeholder' keeps them as low-resolution images
+export type PageAction = 'remove' | 'placeholder';
+
+export interface PageReduction {
+  // Page ranges such as "3, 40-45", or 'auto' for the heaviest pages
+  // until the target is met
+  pages: string | number[] | 'auto';
+  action: PageAction;
+}
+
 export interface CompressResponse {
   message: string;
   jobId: string;
   quality: number;
   targetSizeMB?: number;
+  mode: CompressionMode;
+  colorConversion: ColorConversion;
 }
 
 /**
- * Upload a PDF file and start the job
+ * Upload a PDF file and start the job.
+ * Encrypted PDFs are refused with ENCRYPTED unless their password is given.
  */
-export async function uploadPdf(file: File): Promise<UploadResponse> {
+export async function uploadPdf(file: File, password?: string): Promise<UploadResponse> {
   const formData = new FormData();
   formData.append('file', file);
+  if (password !== undefined) {
+    formData.append('password', password);
+  }
 
   return apiFetch<UploadResponse>('/api/upload', {
     method: 'POST',
@@ -135,16 +300,24 @@ export async function getEstimates(jobId: string): Promise<EstimateResponse> {
   return apiFetch<EstimateResponse>(`/api/job/${jobId}/estimate`);
 }
 
+/**
+ * Render a page (1-based) as it is and compressed at a quality level
+ */
+export async function getPreview(jobId: string, page: number, quality: number): Promise<PagePreview> {
+  return apiFetch<PagePreview>(`/api/job/${jobId}/preview?page=${page}&quality=${quality}`);
+}
+
 /**
  * Start compression with a specific quality level
  */
 export async function compressWithQuality(
   jobId: string,
-  quality: number
+  quality: number,
+  keepEncryption = false
 ): Promise<CompressResponse> {
   return apiFetch<CompressResponse>(`/api/job/${jobId}/compress`, {
     method: 'POST',
-    body: JSON.stringify({ quality }),
+    body: JSON.stringify({ quality, keepEncryption }),
   });
 }
 
@@ -154,11 +327,32 @@ export async function compressWithQuality(
 export async function compressToSize(
   jobId: string,
   targetSizeMB: number,
-  maxQuality?: number
+  maxQuality?: number,
+  mode: CompressionMode = 'standard',
+  colorConversion: ColorConversion = 'keep',
+  pageReduction?: PageReduction,
+  keepEncryption = false
+): Promise<CompressResponse> {
+  return apiFetch<CompressResponse>(`/api/job/${jobId}/compress`, {
+    method: 'POST',
+    body: JSON.stringify({ targetSizeMB, quality: maxQuality, mode, colorConversion, pageReduction, keepEncryption }),
+  });
+}
+
+/**
+ * Start lossless optimization (images untouched).
+ * The target, if given, is only checked - lossless mode can't enforce it.
+ * Signed documents are refused unless `breakSignatures` is set.
+ */
+export async function compressLossless(
+  jobId: string,
+  targetSizeMB?: number,
+  keepEncryption = false,
+  breakSignatures = false
 ): Promise<CompressResponse> {
   return apiFetch<CompressResponse>(`/api/job/${jobId}/compress`, {
     method: 'POST',
-    body: JSON.stringify({ targetSizeMB, quality: maxQuality }),
+    body: JSON.stringify({ targetSizeMB, mode: 'lossless', keepEncryption, breakSignatures }),
   });
 }
 
@@ -188,8 +382,13 @@ export async function downloadPdf(jobId: string, filename: string): Promise<void
     throw new Error(error.error || 'Download failed');
   }
 
-  // Create a blob and download
-  const blob = await response.blob();
+  saveBlob(await response.blob(), filename);
+}
+
+/**
+ * Hand a downloaded blob to the browser as a file
+ */
+function saveBlob(blob: Blob, filename: string): void {
   const url = window.URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
@@ -200,6 +399,15 @@ export async function downloadPdf(jobId: string, filename: string): Promise<void
   window.URL.revokeObjectURL(url);
 }
 
+/**
+ * Stop a job's estimation or compression on the server
+ */
+export async function cancelJob(jobId: string): Promise<void> {
+  await apiFetch(`/api/job/${jobId}/cancel`, {
+    method: 'POST',
+  });
+}
+
 /**
  * Delete a job and clean up files
  */
@@ -210,7 +418,14 @@ export async function deleteJob(jobId: string): Promise<void> {
 }
 
 /**
- * Poll job status until it reaches a target state or fails
+ * Whether a job has stopped for good: done, failed or cancelled
+ */
+function isFinished(status: JobStatus): boolean {
+  return status.status === 'done' || status.status === 'failed' || status.status === 'cancelled';
+}
+
+/**
+ * Poll job status until it reaches a target state or finishes
  */
 export async function pollJobStatus(
   jobId: string,
@@ -228,7 +443,7 @@ export async function pollJobStatus(
     const status = await getJobStatus(jobId);
     onProgress?.(status);
 
-    if (targetStatuses.includes(status.status) || status.status === 'failed') {
+    if (targetStatuses.includes(status.status) || isFinished(status)) {
       return status;
     }
 
@@ -239,21 +454,19 @@ export async function pollJobStatus(
 }
 
 /**
- * Poll for estimates to be ready
+ * Wait for estimates to be ready
  */
 export async function pollEstimates(
   jobId: string,
   options: {
-    interval?: number;
     timeout?: number;
     onProgress?: (status: JobStatus) => void;
   } = {}
 ): Promise<EstimateResponse> {
-  const { interval = 500, timeout = 30000, onProgress } = options;
+  const { timeout = 30000, onProgress } = options;
 
   // First wait for status to be 'ready'
-  await pollJobStatus(jobId, ['ready', 'compressing', 'done'], {
-    interval,
+  await waitForJobStatus(jobId, ['ready', 'compressing', 'done'], {
     timeout,
     onProgress,
   });
@@ -262,6 +475,311 @@ export async function pollEstimates(
   return getEstimates(jobId);
 }
 
+export interface JobSubscription {
+  onStatus: (status: JobStatus) => void;
+  onEstimate?: (estimates: EstimateResponse) => void;
+  onError?: (error: Error) => void;
+}
+
+// Used only when the browser has no EventSource
+const FALLBACK_POLL_INTERVAL_MS = 1000;
+
+/**
+ * Follow a job's updates through its event stream.
+ * Calls `onStatus` for every status or progress change and once more when
+ * the job is done or failed, after which the subscription ends by itself.
+ * Returns a function that unsubscribes early.
+ */
+export function subscribeToJob(jobId: string, handlers: JobSubscription): () => void {
+  if (typeof EventSource === 'undefined') {
+    return pollJobUpdates(jobId, handlers);
+  }
+
+  let source: EventSource | null = null;
+  let stopped = false;
+
+  const open = (query: string) => {
+    source = new EventSource(`${API_URL}/api/job/${jobId}/events${query}`);
+    const current = source;
+
+    const handleStatus = (event: MessageEvent) => handlers.onStatus(JSON.parse(event.data));
+    current.addEventListener('status', handleStatus);
+    current.addEventListener('progress', handleStatus);
+    current.addEventListener('estimate', (event) => {
+      handlers.onEstimate?.(JSON.parse((event as MessageEvent).data));
+    });
+    current.addEventListener('complete', (event) => {
+      current.close();
+      handleStatus(event as MessageEvent);
+    });
+
+    // The browser reconnects on its own unless the stream was refused,
+    // which is also how an expired token shows: connect with a fresh one
+    current.onerror = () => {
+      if (current.readyState !== EventSource.CLOSED || stopped) return;
+      if (API_KEY) {
+        connect();
+      } else {
+        handlers.onError?.(new Error('Lost connection to the server'));
+      }
+    };
+  };
+
+  // EventSource can't send headers, so a short-lived token for this job
+  // goes in the query string instead of the API key
+  const connect = () => {
+    if (!API_KEY) {
+      open('');
+      return;
+    }
+    getStreamToken(jobId)
+      .then(({ token }) => {
+        if (!stopped) open(`?token=${encodeURIComponent(token)}`);
+      })
+      .catch(() => {
+        if (!stopped) handlers.onError?.(new Error('Lost connection to the server'));
+      });
+  };
+
+  connect();
+  return () => {
+    stopped = true;
+    source?.close();
+  };
+}
+
+/**
+ * Get a short-lived token that opens a job's event stream
+ */
+async function getStreamToken(jobId: string): Promise<{ token: string; expiresAt: string }> {
+  return apiFetch(`/api/job/${jobId}/stream-token`, { method: 'POST' });
+}
+
+/**
+ * Polling stand-in for subscribeToJob
+ */
+function pollJobUpdates(jobId: string, handlers: JobSubscription): () => void {
+  let stopped = false;
+  let last: JobStatus | null = null;
+  let estimatesSent = false;
+
+  const poll = async () => {
+    try {
+      const status = await getJobStatus(jobId);
+      if (stopped) return;
+
+      if (
+        !last ||
+        status.status !== last.status ||
+        status.progress !== last.progress ||
+        status.progressMessage !== last.progressMessage
+      ) {
+        handlers.onStatus(status);
+      }
+
+      last = status;
+
+      // Estimates exist from 'ready' on, like the stream's estimate event
+      const hasEstimates = ['ready', 'compressing', 'done'].includes(status.status);
+      if (handlers.onEstimate && hasEstimates && !estimatesSent) {
+        estimatesSent = true;
+        const estimates = await getEstimates(jobId);
+        if (!stopped) handlers.onEstimate(estimates);
+      }
+
+      if (isFinished(status)) return;
+    } catch {
+      // Keep polling through transient errors
+    }
+
+    if (!stopped) setTimeout(poll, FALLBACK_POLL_INTERVAL_MS);
+  };
+
+  poll();
+  return () => {
+    stopped = true;
+  };
+}
+
+/**
+ * Wait until a job reaches a target state or fails, following its event stream
+ */
+export function waitForJobStatus(
+  jobId: string,
+  targetStatuses: JobStatus['status'][],
+  options: {
+    timeout?: number;
+    onProgress?: (status: JobStatus) => void;
+  } = {}
+): Promise<JobStatus> {
+  const { timeout = 300000, onProgress } = options;
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      unsubscribe();
+      reject(new Error('Timed out waiting for the job'));
+    }, timeout);
+
+    const unsubscribe = subscribeToJob(jobId, {
+      onStatus: (status) => {
+        onProgress?.(status);
+        if (targetStatuses.includes(status.status) || isFinished(status)) {
+          clearTimeout(timer);
+          unsubscribe();
+          resolve(status);
+        }
+      },
+      onError: (err) => {
+        clearTimeout(timer);
+        unsubscribe();
+        reject(err);
+      },
+    });
+  });
+}
+
+// Batches: several files uploaded together, one job per file
+
+export type BatchStatusValue = 'estimating' | 'ready' | 'compressing' | 'done' | 'failed';
+
+// 'each': every file must fit the target on its own,
+// 'combined': all files together must fit (e.g. attachments of one email)
+export type BatchBudget = 'each' | 'combined';
+
+export interface BatchUploadResponse {
+  batchId: string;
+  jobs: {
+    jobId: string;
+    status: string;
+    originalFilename: string;
+    originalSize: number;
+  }[];
+  message: string;
+}
+
+export interface BatchStatus {
+  id: string;
+  status: BatchStatusValue;
+  progress: number;
+  fileCount: number;
+  doneCount: number;
+  failedCount: number;
+  originalSize: number;
+  compressedSize: number;
+  budget?: {
+    targetSizeBytes: number;
+    quality?: number;
+    totalSize?: number;
+    budgetMet?: boolean;
+    rounds?: number;
+  };
+  jobs: (Omit<JobStatus, 'createdAt' | 'updatedAt' | 'compressionResult'> & {
+    compressionResult?: {
+      compressedSize: number;
+      quality: number;
+      compressionRatio: number;
+      verificationPassed: boolean;
+      targetMet?: boolean;
+    };
+  })[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BatchFileEstimate {
+  jobId: string;
+  status: JobStatus['status'];
+  originalFilename: string;
+  originalSize: number;
+  originalSizeMB: number;
+  pageCount?: number;
+  estimates: SizeEstimate[];
+  losslessEstimateMB?: number;
+  minimumAchievableSizeMB?: number;
+}
+
+export interface BatchEstimateResponse {
+  status: BatchStatusValue;
+  originalSize: number;
+  originalSizeMB: number;
+  // Combined size of all files at each quality
+  estimates: SizeEstimate[];
+  files: BatchFileEstimate[];
+}
+
+/**
+ * Upload several PDFs as one batch
+ */
+export async function uploadBatch(files: File[]): Promise<BatchUploadResponse> {
+  const formData = new FormData();
+  for (const file of files) {
+    formData.append('files', file);
+  }
+
+  return apiFetch<BatchUploadResponse>('/api/batch', {
+    method: 'POST',
+    body: formData,
+  });
+}
+
+/**
+ * Get the aggregate and per-file status of a batch
+ */
+export async function getBatchStatus(batchId: string): Promise<BatchStatus> {
+  return apiFetch<BatchStatus>(`/api/batch/${batchId}/status`);
+}
+
+/**
+ * Get per-file and combined size estimates for a batch
+ */
+export async function getBatchEstimates(batchId: string): Promise<BatchEstimateResponse> {
+  return apiFetch<BatchEstimateResponse>(`/api/batch/${batchId}/estimate`);
+}
+
+/**
+ * Compress a batch to a target size, per file or shared by all files
+ */
+export async function compressBatchToSize(
+  batchId: string,
+  targetSizeMB: number,
+  budget: BatchBudget = 'each'
+): Promise<{ message: string; batchId: string }> {
+  return apiFetch(`/api/batch/${batchId}/compress`, {
+    method: 'POST',
+    body: JSON.stringify({ targetSizeMB, budget }),
+  });
+}
+
+/**
+ * Download all compressed files of a batch as a ZIP
+ */
+export async function downloadBatch(batchId: string, filename = 'compressed_pdfs.zip'): Promise<void> {
+  const headers: Record<string, string> = {};
+  if (API_KEY) {
+    headers['X-API-Key'] = API_KEY;
+  }
+
+  const response = await fetch(`${API_URL}/api/batch/${batchId}/download`, {
+    headers,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Download failed' }));
+    throw new Error(error.error || 'Download failed');
+  }
+
+  saveBlob(await response.blob(), filename);
+}
+
+/**
+ * Delete a batch, its jobs and their files
+ */
+export async function deleteBatch(batchId: string): Promise<void> {
+  await apiFetch(`/api/batch/${batchId}`, {
+    method: 'DELETE',
+  });
+}
+
 /**
  * Check if the API is healthy
  */
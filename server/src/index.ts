@@ -1,16 +1,17 @@
+// Loaded before the other imports: services read their settings as they load
+import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
-import dotenv from 'dotenv';
 import { healthRouter } from './routes/health.js';
 import { uploadRouter } from './routes/upload.js';
 import { jobRouter } from './routes/job.js';
+import { batchRouter } from './routes/batch.js';
 import { authMiddleware } from './middleware/auth.js';
 import { rateLimitMiddleware } from './middleware/rateLimit.js';
-import { initJobQueue } from './services/jobQueue.js';
+import { initJobQueue, recoverInterruptedJobs, pruneJobs } from './services/jobQueue.js';
+import { pruneBatches, recoverInterruptedBatches } from './services/batch.js';
 import { cleanupOldFiles } from './utils/tempFiles.js';
 
-dotenv.config();
-
 const app = express();
 const PORT = process.env.PORT || 3001;
 
@@ -40,23 +41,36 @@ app.use('/api', authMiddleware);
 // API routes
 app.use('/api/upload', uploadRouter);
 app.use('/api/job', jobRouter);
+app.use('/api/batch', batchRouter);
 
 // Error handling middleware
 app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
   console.error('Error:', err.message);
+  // A stream or download already under way can only be cut off
+  if (res.headersSent) {
+    next(err);
+    return;
+  }
   res.status(500).json({ error: err.message || 'Internal server error' });
 });
 
-// Initialize job queue
+// Initialize job queue and pick up jobs interrupted by a restart
 initJobQueue();
+recoverInterruptedJobs();
+recoverInterruptedBatches();
+
+// Jobs of a process that stopped are taken over once they go stale
+setInterval(recoverInterruptedJobs, 60 * 1000);
 
 // Start cleanup interval (every 10 minutes)
 setInterval(() => {
   cleanupOldFiles(60); // Clean files older than 60 minutes
+  pruneJobs(60).then(pruneBatches); // Drop job records whose files are gone
 }, 10 * 60 * 1000);
 
 // Initial cleanup on startup
 cleanupOldFiles(60);
+pruneJobs(60).then(pruneBatches);
 
 app.listen(PORT, () => {
   console.log(`PDF Size Chooser API running on port ${PORT}`);
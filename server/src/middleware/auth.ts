@@ -1,9 +1,48 @@
 import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
 
 const API_KEY = process.env.API_KEY;
+// How long an event stream token can be used to (re)connect
+const STREAM_TOKEN_TTL_MS = (Number(process.env.STREAM_TOKEN_TTL_SECONDS) || 600) * 1000;
 
 /**
- * Middleware to validate API key from X-API-Key header
+ * Signature over a job id and expiry time, keyed with the API key
+ */
+function signStreamToken(jobId: string, expiresAt: number): string {
+  return crypto
+    .createHmac('sha256', API_KEY ?? '')
+    .update(`${jobId}.${expiresAt}`)
+    .digest('base64url');
+}
+
+/**
+ * Create a short-lived token that opens one job's event stream.
+ * EventSource can't set headers, so it takes this in the query string
+ * instead of the API key, which would otherwise end up in logs and
+ * browser history.
+ */
+export function createStreamToken(jobId: string): { token: string; expiresAt: Date } {
+  const expiresAt = Date.now() + STREAM_TOKEN_TTL_MS;
+  return { token: `${expiresAt}.${signStreamToken(jobId, expiresAt)}`, expiresAt: new Date(expiresAt) };
+}
+
+/**
+ * Whether `token` was made by createStreamToken for `jobId` and is unexpired
+ */
+function verifyStreamToken(jobId: string, token: string): boolean {
+  const [expiresPart, signature = ''] = token.split('.');
+  const expiresAt = Number(expiresPart);
+  if (!Number.isInteger(expiresAt) || expiresAt < Date.now()) return false;
+
+  const expected = Buffer.from(signStreamToken(jobId, expiresAt));
+  const provided = Buffer.from(signature);
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+}
+
+/**
+ * Middleware to validate API key from X-API-Key header.
+ * A job's event stream also opens with a token from createStreamToken in
+ * the `token` query parameter.
  */
 export function authMiddleware(req: Request, res: Response, next: NextFunction): void {
   // Skip auth if no API key is configured (development mode)
@@ -13,6 +52,19 @@ export function authMiddleware(req: Request, res: Response, next: NextFunction):
     return;
   }
 
+  const eventStream = req.method === 'GET' ? req.path.match(/^\/job\/([^/]+)\/events$/) : null;
+  if (eventStream && typeof req.query.token === 'string') {
+    if (!verifyStreamToken(eventStream[1], req.query.token)) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Invalid or expired stream token',
+      });
+      return;
+    }
+    next();
+    return;
+  }
+
   const providedKey = req.headers['x-api-key'];
 
   if (!providedKey) {
@@ -0,0 +1,395 @@
+import { Router } from 'express';
+import { promises as fs } from 'fs';
+import { CompressionRequest } from '../services/jobQueue.js';
+import {
+  createBatch,
+  getBatch,
+  getBatchJobs,
+  summarizeBatch,
+  allocateCombinedBudget,
+  startBatchCompression,
+  writeBatchArchive,
+  deleteBatch,
+} from '../services/batch.js';
+import { upload, handleUploadError } from './upload.js';
+import { validatePdfUpload, UploadValidationError } from '../services/uploadValidator.js';
+import { PdfEncryption } from '../services/encryption.js';
+import { parseCompressionParams, resolveCompressionRequest, checkSignatures } from './compressionParams.js';
+import { mbToBytes, formatBytesToMB } from '../utils/sizeUtils.js';
+
+export const batchRouter = Router();
+
+const MAX_BATCH_FILES = Number(process.env.MAX_BATCH_FILES) || 50;
+
+// 'each': the target applies to every file on its own
+// 'combined': all files together must fit the target (e.g. one email)
+type BudgetMode = 'each' | 'combined';
+const BUDGET_MODES: BudgetMode[] = ['each', 'combined'];
+
+/**
+ * POST /api/batch
+ * Upload several PDFs at once and create one job per file
+ */
+batchRouter.post('/', upload.array('files', MAX_BATCH_FILES), async (req, res, next) => {
+  try {
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+
+    if (files.length === 0) {
+      res.status(400).json({ error: 'No files uploaded' });
+      return;
+    }
+
+    // One bad file refuses the whole batch, so the user can fix it and retry.
+    // Batches take no passwords; only permission-restricted files get through.
+    const encryptions: (PdfEncryption | undefined)[] = [];
+    for (const file of files) {
+      try {
+        encryptions.push(await validatePdfUpload(file.path));
+      } catch (err) {
+        if (err instanceof UploadValidationError) {
+          await Promise.all(files.map((f) => fs.unlink(f.path).catch(() => {})));
+          const message = err.code === 'ENCRYPTED'
+            ? 'This PDF is password-protected. Upload it on its own to enter its password.'
+            : err.message;
+          res.status(422).json({
+            error: `${file.originalname}: ${message}`,
+            code: err.code,
+            filename: file.originalname,
+          });
+          return;
+        }
+        throw err;
+      }
+    }
+
+    const { batch, jobs } = await createBatch(
+      files.map((file, i) => ({
+        originalFilename: file.originalname,
+        size: file.size,
+        path: file.path,
+        encryption: encryptions[i],
+      }))
+    );
+
+    res.status(201).json({
+      batchId: batch.id,
+      jobs: jobs.map((job) => ({
+        jobId: job.id,
+        status: job.status,
+        originalFilename: job.originalFilename,
+        originalSize: job.originalSize,
+      })),
+      message: `Uploaded ${jobs.length} files. Estimating compression sizes...`,
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * GET /api/batch/:id/status
+ * Aggregate status plus the status of every file
+ */
+batchRouter.get('/:id/status', async (req, res, next) => {
+  try {
+    const batch = await getBatch(req.params.id);
+
+    if (!batch) {
+      res.status(404).json({ error: 'Batch not found' });
+      return;
+    }
+
+    const jobs = await getBatchJobs(batch);
+    const summary = summarizeBatch(jobs, batch);
+    const compression = batch.compression;
+
+    res.json({
+      id: batch.id,
+      ...summary,
+      // Shared budget results (combined mode only)
+      budget: compression?.budgetBytes
+        ? {
+            targetSizeBytes: compression.budgetBytes,
+            quality: compression.quality,
+            totalSize: compression.totalSize,
+            budgetMet: compression.budgetMet,
+            rounds: compression.rounds,
+          }
+        : undefined,
+      jobs: jobs.map((job) => ({
+        id: job.id,
+        status: job.status,
+        originalFilename: job.originalFilename,
+        originalSize: job.originalSize,
+        progress: job.progress,
+        progressMessage: job.progressMessage,
+        error: job.error,
+        compressionResult: job.compressionResult
+          ? {
+              compressedSize: job.compressionResult.compressedSize,
+              quality: job.compressionResult.quality,
+              compressionRatio: job.compressionResult.compressedSize / job.originalSize,
+              verificationPassed: job.compressionResult.verificationPassed,
+              targetMet: job.compressionResult.targetSizeBytes
+                ? job.compressionResult.compressedSize <= job.compressionResult.targetSizeBytes
+                : undefined,
+            }
+          : undefined,
+      })),
+      createdAt: batch.createdAt,
+      updatedAt: batch.updatedAt,
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * GET /api/batch/:id/estimate
+ * Per-file estimates, and combined estimates once every file is sampled
+ */
+batchRouter.get('/:id/estimate', async (req, res, next) => {
+  try {
+    const batch = await getBatch(req.params.id);
+
+    if (!batch) {
+      res.status(404).json({ error: 'Batch not found' });
+      return;
+    }
+
+    const jobs = await getBatchJobs(batch);
+    const summary = summarizeBatch(jobs, batch);
+
+    const files = jobs.map((job) => ({
+      jobId: job.id,
+      status: job.status,
+      originalFilename: job.originalFilename,
+      originalSize: job.originalSize,
+      originalSizeMB: formatBytesToMB(job.originalSize),
+      pageCount: job.estimates?.pageCount,
+      estimates: (job.estimates?.estimates ?? []).map((e) => ({
+        quality: e.quality,
+        estimatedSizeBytes: e.estimatedSize,
+        estimatedSizeMB: formatBytesToMB(e.estimatedSize),
+      })),
+      losslessEstimateMB: job.estimates?.losslessEstimate
+        ? formatBytesToMB(job.estimates.losslessEstimate.estimatedSize)
+        : undefined,
+      minimumAchievableSizeMB: job.estimates?.analysis
+        ? formatBytesToMB(job.estimates.analysis.minimumAchievableSize)
+        : undefined,
+    }));
+
+    // Combined sizes only make sense when every file has estimates to add up
+    const estimated = jobs.filter((job) => job.estimates);
+    const complete = estimated.length === jobs.length && jobs.length > 0;
+    const estimates = complete
+      ? jobs[0].estimates!.estimates
+          .map((e) => e.quality)
+          .filter((quality) => estimated.every((job) =>
+            job.estimates!.estimates.some((e) => e.quality === quality)
+          ))
+          .map((quality) => {
+            const total = estimated.reduce((sum, job) =>
+              sum + job.estimates!.estimates.find((e) => e.quality === quality)!.estimatedSize, 0);
+            return {
+              quality,
+              estimatedSizeBytes: total,
+              estimatedSizeMB: formatBytesToMB(total),
+            };
+          })
+      : [];
+
+    res.status(summary.status === 'estimating' ? 202 : 200).json({
+      status: summary.status,
+      originalSize: summary.originalSize,
+      originalSizeMB: formatBytesToMB(summary.originalSize),
+      estimates,
+      files,
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /api/batch/:id/compress
+ * Compress the files of a batch.
+ * Takes the same body as POST /api/job/:id/compress, plus `budget`:
+ * with 'each' (default) `targetSizeMB` applies to every file on its own
+ * and only files that aren't done yet are compressed; with 'combined'
+ * all files are compressed so that together they fit `targetSizeMB`.
+ */
+batchRouter.post('/:id/compress', async (req, res, next) => {
+  try {
+    const batch = await getBatch(req.params.id);
+
+    if (!batch) {
+      res.status(404).json({ error: 'Batch not found' });
+      return;
+    }
+
+    const jobs = await getBatchJobs(batch);
+    const summary = summarizeBatch(jobs, batch);
+
+    if (summary.status === 'estimating') {
+      res.status(409).json({ error: 'Estimation still in progress' });
+      return;
+    }
+
+    if (summary.status === 'compressing') {
+      res.status(409).json({ error: 'Compression already in progress' });
+      return;
+    }
+
+    const parsed = parseCompressionParams(req.body);
+    if ('error' in parsed) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    const { budget = 'each' } = req.body;
+
+    if (!BUDGET_MODES.includes(budget)) {
+      res.status(400).json({ error: `budget must be one of: ${BUDGET_MODES.join(', ')}` });
+      return;
+    }
+
+    if (budget === 'combined' && (!parsed.params.targetSizeMB || parsed.params.mode !== 'standard')) {
+      res.status(400).json({ error: 'A combined budget needs targetSizeMB and standard mode' });
+      return;
+    }
+
+    const requests = new Map<string, CompressionRequest>();
+    let combined: { budgetBytes: number; quality: number } | undefined;
+
+    if (budget === 'combined') {
+      // The budget is shared, so every file takes part - even finished ones
+      const budgetBytes = mbToBytes(parsed.params.targetSizeMB!);
+      const allocation = allocateCombinedBudget(jobs, budgetBytes);
+      combined = { budgetBytes, quality: allocation.quality };
+
+      for (const job of jobs) {
+        requests.set(job.id, {
+          quality: allocation.quality,
+          targetSizeBytes: allocation.targets.get(job.id),
+          mode: 'standard',
+          colorConversion: parsed.params.colorConversion,
+          keepEncryption: parsed.params.keepEncryption,
+        });
+      }
+    } else {
+      // Retry failed and cancelled files too; finished ones are left alone
+      for (const job of jobs) {
+        if (job.status === 'ready' || job.status === 'failed' || job.status === 'cancelled') {
+          const signed = checkSignatures(job, parsed.params);
+          if (signed) {
+            res.status(422).json({ error: `${job.originalFilename}: ${signed}`, code: 'SIGNED' });
+            return;
+          }
+          requests.set(job.id, resolveCompressionRequest(job, parsed.params));
+        }
+      }
+    }
+
+    if (requests.size === 0) {
+      res.status(409).json({ error: 'All files are already compressed. Use download endpoint.' });
+      return;
+    }
+
+    try {
+      await startBatchCompression(batch, requests, combined);
+
+      res.json({
+        message: `Compression started for ${requests.size} files`,
+        batchId: batch.id,
+        jobs: [...requests].map(([jobId, request]) => ({
+          jobId,
+          quality: request.quality,
+          targetSizeMB: request.targetSizeBytes ? formatBytesToMB(request.targetSizeBytes) : undefined,
+        })),
+        targetSizeMB: parsed.params.targetSizeMB,
+        budget,
+        mode: parsed.params.mode,
+        colorConversion: parsed.params.colorConversion,
+      });
+    } catch (err) {
+      res.status(500).json({
+        error: err instanceof Error ? err.message : 'Failed to start compression',
+      });
+    }
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * GET /api/batch/:id/download
+ * Download all compressed files as one ZIP
+ */
+batchRouter.get('/:id/download', async (req, res, next) => {
+  try {
+    const batch = await getBatch(req.params.id);
+
+    if (!batch) {
+      res.status(404).json({ error: 'Batch not found' });
+      return;
+    }
+
+    const jobs = await getBatchJobs(batch);
+    const summary = summarizeBatch(jobs, batch);
+
+    if (summary.doneCount === 0) {
+      res.status(400).json({
+        error: 'No compressed files yet',
+        status: summary.status,
+      });
+      return;
+    }
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', 'attachment; filename="compressed_pdfs.zip"');
+
+    try {
+      await writeBatchArchive(jobs, res);
+    } catch (err) {
+      console.error(`Failed to build archive for batch ${batch.id}:`, err);
+      // Headers are gone once streaming started; all we can do is cut the response
+      if (!res.headersSent) {
+        res.status(500).json({ error: 'Failed to build archive' });
+      } else {
+        res.destroy();
+      }
+    }
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * DELETE /api/batch/:id
+ * Delete a batch, its jobs and their files
+ */
+batchRouter.delete('/:id', async (req, res, next) => {
+  try {
+    const batch = await getBatch(req.params.id);
+
+    if (!batch) {
+      res.status(404).json({ error: 'Batch not found' });
+      return;
+    }
+
+    try {
+      await deleteBatch(batch.id);
+      res.json({ message: 'Batch deleted successfully' });
+    } catch (err) {
+      res.status(500).json({
+        error: err instanceof Error ? err.message : 'Failed to delete batch',
+      });
+    }
+  } catch (err) {
+    next(err);
+  }
+});
+
+batchRouter.use(handleUploadError);
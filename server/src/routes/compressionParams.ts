@@ -0,0 +1,231 @@
+import { Job, CompressionMode, CompressionRequest } from '../services/jobQueue.js';
+import { ColorConversion } from '../services/ghostscript.js';
+import { PageAction, PageReduction } from '../services/pageReducer.js';
+import { findBestQuality, findMinimumLegibleSize } from '../services/sampler.js';
+import { mbToBytes, formatBytesToMB } from '../utils/sizeUtils.js';
+
+const COMPRESSION_MODES: CompressionMode[] = ['standard', 'images', 'lossless', 'split'];
+const COLOR_CONVERSIONS: ColorConversion[] = ['keep', 'grayscale', 'mono'];
+const PAGE_ACTIONS: PageAction[] = ['remove', 'placeholder'];
+// Keeps a typo like "1-9999999" from expanding into millions of pages
+const MAX_PAGE_NUMBER = 100000;
+
+/**
+ * Validated body of a compress request (single job or batch)
+ */
+export interface CompressionParams {
+  quality?: number;
+  targetSizeMB?: number;
+  mode: CompressionMode;
+  colorConversion: ColorConversion;
+  pageReduction?: PageReduction;
+  keepEncryption: boolean;
+  breakSignatures: boolean; // Lossless mode refuses signed documents without it
+}
+
+/**
+ * Parse a page selection such as "3, 40-45" (or an array of page numbers)
+ * into sorted 1-based page numbers. Returns null when it isn't valid.
+ */
+function parsePageSelection(value: unknown): number[] | null {
+  const pages = new Set<number>();
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if (!Number.isInteger(item) || item < 1 || item > MAX_PAGE_NUMBER) return null;
+      pages.add(item);
+    }
+  } else if (typeof value === 'string') {
+    for (const part of value.split(',')) {
+      const match = part.trim().match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+      if (!match) return null;
+      const first = Number(match[1]);
+      const last = match[2] !== undefined ? Number(match[2]) : first;
+      if (first < 1 || last < first || last > MAX_PAGE_NUMBER) return null;
+      for (let page = first; page <= last; page++) pages.add(page);
+    }
+  } else {
+    return null;
+  }
+
+  return pages.size > 0 ? [...pages].sort((a, b) => a - b) : null;
+}
+
+/**
+ * Validate a compress request body.
+ * Returns the parsed parameters, or an error message for a 400 response.
+ */
+export function parseCompressionParams(
+  body: Record<string, unknown>
+): { params: CompressionParams } | { error: string } {
+  const {
+    quality,
+    targetSizeMB,
+    mode = 'standard',
+    colorConversion = 'keep',
+    pageReduction,
+    keepEncryption = false,
+    breakSignatures = false,
+  } = body;
+
+  // Validate input (lossless mode needs neither)
+  if (!quality && !targetSizeMB && mode !== 'lossless') {
+    return { error: 'Either quality or targetSizeMB must be provided' };
+  }
+
+  // Validate mode
+  if (!COMPRESSION_MODES.includes(mode as CompressionMode)) {
+    return { error: `mode must be one of: ${COMPRESSION_MODES.join(', ')}` };
+  }
+
+  if ((mode === 'images' || mode === 'split') && !targetSizeMB) {
+    return { error: `targetSizeMB is required for ${mode} mode` };
+  }
+
+  // Validate colour conversion
+  if (!COLOR_CONVERSIONS.includes(colorConversion as ColorConversion)) {
+    return { error: `colorConversion must be one of: ${COLOR_CONVERSIONS.join(', ')}` };
+  }
+
+  if (colorConversion !== 'keep' && mode !== 'standard') {
+    return { error: 'colorConversion is only supported in standard mode' };
+  }
+
+  // Validate page reduction
+  let parsedReduction: PageReduction | undefined;
+  if (pageReduction !== undefined) {
+    if (typeof pageReduction !== 'object' || pageReduction === null) {
+      return { error: 'pageReduction must be an object with pages and action' };
+    }
+    const { pages, action = 'remove' } = pageReduction as Record<string, unknown>;
+
+    if (mode !== 'standard') {
+      return { error: 'pageReduction is only supported in standard mode' };
+    }
+
+    if (!PAGE_ACTIONS.includes(action as PageAction)) {
+      return { error: `pageReduction.action must be one of: ${PAGE_ACTIONS.join(', ')}` };
+    }
+
+    if (pages === 'auto') {
+      if (!targetSizeMB) {
+        return { error: 'targetSizeMB is required to pick pages automatically' };
+      }
+      parsedReduction = { pages: 'auto', action: action as PageAction };
+    } else {
+      const pageNumbers = parsePageSelection(pages);
+      if (!pageNumbers) {
+        return { error: 'pageReduction.pages must be "auto" or page ranges such as "3, 40-45"' };
+      }
+      parsedReduction = { pages: pageNumbers, action: action as PageAction };
+    }
+  }
+
+  if (typeof keepEncryption !== 'boolean') {
+    return { error: 'keepEncryption must be a boolean' };
+  }
+
+  if (typeof breakSignatures !== 'boolean') {
+    return { error: 'breakSignatures must be a boolean' };
+  }
+
+  // Split parts are packed into a ZIP, which can't carry PDF encryption
+  if (keepEncryption && mode === 'split') {
+    return { error: 'keepEncryption is not supported in split mode' };
+  }
+
+  // Validate quality range
+  if (quality !== undefined) {
+    const qualityNum = Number(quality);
+    if (isNaN(qualityNum) || qualityNum < 1 || qualityNum > 100) {
+      return { error: 'Quality must be a number between 1 and 100' };
+    }
+  }
+
+  // Validate targetSizeMB
+  if (targetSizeMB !== undefined) {
+    const targetNum = Number(targetSizeMB);
+    if (isNaN(targetNum) || targetNum <= 0) {
+      return { error: 'targetSizeMB must be a positive number' };
+    }
+  }
+
+  return {
+    params: {
+      quality: quality !== undefined ? Number(quality) : undefined,
+      targetSizeMB: targetSizeMB !== undefined ? Number(targetSizeMB) : undefined,
+      mode: mode as CompressionMode,
+      colorConversion: colorConversion as ColorConversion,
+      pageReduction: parsedReduction,
+      keepEncryption,
+      breakSignatures,
+    },
+  };
+}
+
+/**
+ * Turn validated parameters into the request queued for a job, picking the
+ * starting quality for a size target from the job's estimates
+ */
+export function resolveCompressionRequest(job: Job, params: CompressionParams): CompressionRequest {
+  const { targetSizeMB, mode, colorConversion, pageReduction, keepEncryption } = params;
+  let quality = params.quality;
+  let targetSizeBytes: number | undefined;
+
+  if (targetSizeMB && mode === 'lossless') {
+    targetSizeBytes = mbToBytes(targetSizeMB);
+  } else if (targetSizeMB) {
+    targetSizeBytes = mbToBytes(targetSizeMB);
+
+    // If estimates are available, find best quality for target
+    if (job.estimates) {
+      const best = findBestQuality(job.estimates.estimates, targetSizeBytes);
+      if (!best.achievable) {
+        // Warn user but still allow compression
+        console.log(`Target ${targetSizeMB}MB may not be achievable for job ${job.id}`);
+      }
+      // Use the recommended quality as starting point
+      quality = best.quality;
+    }
+  }
+
+  return { quality, targetSizeBytes, mode, colorConversion, pageReduction, keepEncryption };
+}
+
+/**
+ * Check that a size target leaves text legible, going by the visual scores
+ * of the job's estimates. Returns an error message for a 422 response, or
+ * undefined when the target is fine or can't be judged.
+ *
+ * The estimates only describe standard compression in colour or gray; black
+ * & white conversion renders text differently anyway.
+ */
+export function checkTargetLegibility(job: Job, params: CompressionParams): string | undefined {
+  const { targetSizeMB, mode, colorConversion } = params;
+  if (!targetSizeMB || mode !== 'standard' || colorConversion === 'mono' || !job.estimates) {
+    return undefined;
+  }
+
+  const minimumSize = findMinimumLegibleSize(job.estimates.estimates);
+  if (minimumSize === undefined) return undefined;
+
+  const best = findBestQuality(job.estimates.estimates, mbToBytes(targetSizeMB));
+  if (best.legible) return undefined;
+
+  return `At ${targetSizeMB} MB the text would be hard to read. ` +
+    `The smallest size that keeps it legible is about ${formatBytesToMB(minimumSize, 1)} MB.`;
+}
+
+/**
+ * Check that lossless mode won't silently invalidate a digital signature:
+ * any rewrite of the file does, and users pick lossless for signed forms
+ * expecting them to stay intact. Returns an error message for a 422
+ * response, or undefined when the job isn't signed or the caller accepted
+ * losing the signature.
+ */
+export function checkSignatures(job: Job, params: CompressionParams): string | undefined {
+  if (params.mode !== 'lossless' || params.breakSignatures) return undefined;
+  if (!job.estimates?.analysis?.metadata.hasSignatures) return undefined;
+
+  return 'This PDF is digitally signed, and optimizing it would invalidate the signature.';
+}
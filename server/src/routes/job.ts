@@ -1,31 +1,56 @@
 import { Router } from 'express';
 import { promises as fs } from 'fs';
-import { getJob, queueCompression, deleteJob, getQueueStats } from '../services/jobQueue.js';
-import { findBestQuality } from '../services/sampler.js';
-import { mbToBytes, formatBytesToMB } from '../utils/sizeUtils.js';
+import {
+  Job,
+  getJob,
+  queueCompression,
+  cancelJob,
+  deleteJob,
+  getQueueStats,
+  onJobUpdate,
+} from '../services/jobQueue.js';
+import { EstimationResult, findMinimumLegibleSize } from '../services/sampler.js';
+import {
+  opensWithPassword,
+  setJobPassword,
+  hasJobPassword,
+  PasswordRequiredError,
+} from '../services/encryption.js';
+import { renderPagePreview } from '../services/preview.js';
+import {
+  parseCompressionParams,
+  resolveCompressionRequest,
+  checkTargetLegibility,
+  checkSignatures,
+} from './compressionParams.js';
+import { createStreamToken } from '../middleware/auth.js';
+import { formatBytesToMB } from '../utils/sizeUtils.js';
 
 export const jobRouter = Router();
 
+// Event stream timing: how often the store is re-read for updates from
+// other processes, how often an idle stream is kept alive, and how long
+// a browser waits before reconnecting
+const EVENT_STORE_POLL_MS = 2000;
+const EVENT_HEARTBEAT_MS = 15000;
+const EVENT_RETRY_MS = 3000;
+
 /**
- * GET /api/job/:id/status
- * Get the current status of a job
+ * Status payload for a job, shared by /status and the event stream
  */
-jobRouter.get('/:id/status', async (req, res) => {
-  const job = getJob(req.params.id);
-
-  if (!job) {
-    res.status(404).json({ error: 'Job not found' });
-    return;
-  }
-
-  res.json({
+function formatJobStatus(job: Job) {
+  return {
     id: job.id,
     status: job.status,
     originalFilename: job.originalFilename,
     originalSize: job.originalSize,
     progress: job.progress,
     progressMessage: job.progressMessage,
+    pageProgress: job.pageProgress,
     error: job.error,
+    errorCode: job.errorCode,
+    encrypted: Boolean(job.encryption),
+    repair: job.repair,
     compressionResult: job.compressionResult
       ? {
           compressedSize: job.compressionResult.compressedSize,
@@ -34,55 +59,63 @@ jobRouter.get('/:id/status', async (req, res) => {
           // Verification gate results
           verificationPassed: job.compressionResult.verificationPassed,
           attempts: job.compressionResult.attempts,
-          targetMet: job.compressionResult.targetSizeBytes
-            ? job.compressionResult.compressedSize <= job.compressionResult.targetSizeBytes
-            : undefined,
+          mode: job.compressionResult.mode,
+          colorConversion: job.compressionResult.colorConversion,
+          imagesRecompressed: job.compressionResult.imagesRecompressed,
+          reducedPages: job.compressionResult.reducedPages,
+          pageAction: job.compressionResult.pageAction,
+          encrypted: job.compressionResult.encrypted,
+          fidelity: job.compressionResult.fidelity,
+          parts: job.compressionResult.parts,
+          // Split mode: the target applies to each part, not the total
+          targetMet: job.compressionResult.parts
+            ? job.compressionResult.parts.every((part) => part.verificationPassed)
+            : job.compressionResult.targetSizeBytes
+              ? job.compressionResult.compressedSize <= job.compressionResult.targetSizeBytes
+              : undefined,
         }
       : undefined,
     createdAt: job.createdAt,
     updatedAt: job.updatedAt,
-  });
-});
+  };
+}
 
 /**
- * GET /api/job/:id/estimate
- * Get size estimates for a job (after sampling is complete)
+ * Estimate payload for a job whose sampling has finished
  */
-jobRouter.get('/:id/estimate', async (req, res) => {
-  const job = getJob(req.params.id);
-
-  if (!job) {
-    res.status(404).json({ error: 'Job not found' });
-    return;
-  }
-
-  if (job.status === 'pending' || job.status === 'estimating') {
-    res.status(202).json({
-      status: job.status,
-      message: 'Estimation in progress. Please poll again.',
-    });
-    return;
-  }
-
-  if (!job.estimates) {
-    res.status(200).json({
-      status: job.status,
-      originalSize: job.originalSize,
-      message: 'No estimates available',
-      estimates: [],
-    });
-    return;
-  }
-
+function formatEstimates(job: Job, estimates: EstimationResult) {
   // Format estimates for frontend (using decimal MB to match OS display)
-  const formattedEstimates = job.estimates.estimates.map((e) => ({
+  const formattedEstimates = estimates.estimates.map((e) => ({
     quality: e.quality,
     estimatedSizeBytes: e.estimatedSize,
     estimatedSizeMB: formatBytesToMB(e.estimatedSize),
+    // Where the compressed size is likely to land (missing on older jobs)
+    confidenceInterval: e.confidenceInterval
+      ? {
+          lowBytes: e.confidenceInterval.low,
+          highBytes: e.confidenceInterval.high,
+          lowMB: formatBytesToMB(e.confidenceInterval.low),
+          highMB: formatBytesToMB(e.confidenceInterval.high),
+        }
+      : undefined,
+    visualScore: e.visualScore,
+    legible: e.legible,
   }));
 
+  // Targets under this would blur text (undefined when quality isn't the limit)
+  const minimumLegibleSize = findMinimumLegibleSize(estimates.estimates);
+
+  // Size reachable without touching image quality
+  const lossless = estimates.losslessEstimate;
+  const losslessEstimate = lossless
+    ? {
+        estimatedSizeBytes: lossless.estimatedSize,
+        estimatedSizeMB: formatBytesToMB(lossless.estimatedSize),
+      }
+    : undefined;
+
   // Include analysis data if available (using decimal MB to match OS display)
-  const analysis = job.estimates.analysis;
+  const analysis = estimates.analysis;
   const analysisResponse = analysis
     ? {
         images: {
@@ -98,7 +131,26 @@ jobRouter.get('/:id/estimate', async (req, res) => {
           hasBookmarks: analysis.metadata.hasBookmarks,
           hasAnnotations: analysis.metadata.hasAnnotations,
           hasForms: analysis.metadata.hasForms,
+          hasSignatures: analysis.metadata.hasSignatures ?? false,
         },
+        // Older persisted jobs were analyzed before colour detection existed
+        color: analysis.color
+          ? {
+              grayscalePageCount: analysis.color.grayscalePages.length,
+              colorPageCount: analysis.color.colorPageCount,
+              grayscalePages: analysis.color.grayscalePages,
+            }
+          : undefined,
+        // Where the bytes are, page by page (also missing on older jobs)
+        pages: analysis.pages?.map((page) => ({
+          pageNumber: page.pageNumber,
+          totalBytes: page.totalBytes,
+          contentBytes: page.contentBytes,
+          contentShare: page.contentShare,
+          imageBytes: page.imageBytes,
+          fontBytes: page.fontBytes,
+          resources: page.resources,
+        })),
         compressibleContentMB: formatBytesToMB(analysis.compressibleContent),
         fixedOverheadMB: formatBytesToMB(analysis.fixedOverhead),
         minimumAchievableSizeMB: formatBytesToMB(analysis.minimumAchievableSize),
@@ -106,105 +158,344 @@ jobRouter.get('/:id/estimate', async (req, res) => {
       }
     : undefined;
 
-  res.json({
+  return {
     status: job.status,
     originalSize: job.originalSize,
     originalSizeMB: formatBytesToMB(job.originalSize),
-    pageCount: job.estimates.pageCount,
-    sampledPages: job.estimates.estimates[0]?.samplePages || 0,
-    samplingTimeMs: job.estimates.samplingTimeMs,
+    pageCount: estimates.pageCount,
+    sampledPages: estimates.estimates[0]?.samplePages || 0,
+    samplingTimeMs: estimates.samplingTimeMs,
+    // Which pages were sampled, and the seed that picks them again
+    sampling: estimates.sampling,
     estimates: formattedEstimates,
+    minimumLegibleSizeMB: minimumLegibleSize !== undefined ? formatBytesToMB(minimumLegibleSize) : undefined,
+    losslessEstimate,
     analysis: analysisResponse,
+    // The upload was damaged: what was repaired and what was lost
+    repair: job.repair,
     // Estimation confidence metrics (for debugging/transparency)
     estimationConfidence: {
-      variance: job.estimates.estimationVariance,
-      safetyMarginApplied: job.estimates.safetyMarginApplied,
+      variance: estimates.estimationVariance,
+      safetyMarginApplied: estimates.safetyMarginApplied,
+      level: estimates.sampling?.confidenceLevel,
+      stoppedBy: estimates.sampling?.stoppedBy,
     },
-  });
-});
+  };
+}
 
 /**
- * POST /api/job/:id/compress
- * Start compression with specified quality or target size
+ * GET /api/job/:id/status
+ * Get the current status of a job
  */
-jobRouter.post('/:id/compress', async (req, res) => {
-  const job = getJob(req.params.id);
+jobRouter.get('/:id/status', async (req, res, next) => {
+  try {
+    const job = await getJob(req.params.id);
 
-  if (!job) {
-    res.status(404).json({ error: 'Job not found' });
-    return;
-  }
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
 
-  if (job.status === 'compressing') {
-    res.status(409).json({ error: 'Compression already in progress' });
-    return;
+    res.json(formatJobStatus(job));
+  } catch (err) {
+    next(err);
   }
+});
 
-  if (job.status === 'done') {
-    res.status(409).json({ error: 'Job already completed. Use download endpoint.' });
-    return;
-  }
+/**
+ * GET /api/job/:id/estimate
+ * Get size estimates for a job (after sampling is complete)
+ */
+jobRouter.get('/:id/estimate', async (req, res, next) => {
+  try {
+    const job = await getJob(req.params.id);
 
-  const { quality, targetSizeMB } = req.body;
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
 
-  // Validate input
-  if (!quality && !targetSizeMB) {
-    res.status(400).json({ error: 'Either quality or targetSizeMB must be provided' });
-    return;
-  }
+    if (job.status === 'pending' || job.status === 'estimating') {
+      res.status(202).json({
+        status: job.status,
+        message: 'Estimation in progress. Please poll again.',
+      });
+      return;
+    }
 
-  // Validate quality range
-  if (quality !== undefined) {
-    const qualityNum = Number(quality);
-    if (isNaN(qualityNum) || qualityNum < 1 || qualityNum > 100) {
-      res.status(400).json({ error: 'Quality must be a number between 1 and 100' });
+    if (!job.estimates) {
+      res.status(200).json({
+        status: job.status,
+        originalSize: job.originalSize,
+        message: 'No estimates available',
+        estimates: [],
+      });
       return;
     }
+
+    res.json(formatEstimates(job, job.estimates));
+  } catch (err) {
+    next(err);
   }
+});
 
-  // Validate targetSizeMB
-  if (targetSizeMB !== undefined) {
-    const targetNum = Number(targetSizeMB);
-    if (isNaN(targetNum) || targetNum <= 0) {
-      res.status(400).json({ error: 'targetSizeMB must be a positive number' });
+/**
+ * GET /api/job/:id/preview?page=N&quality=Q
+ * Render a page as it is and compressed at a quality, as PNG data URLs
+ */
+jobRouter.get('/:id/preview', async (req, res, next) => {
+  try {
+    const job = await getJob(req.params.id);
+
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+
+    // Damaged uploads are only repaired during estimation
+    if (!job.estimates) {
+      res.status(409).json({ error: 'Estimation not complete', status: job.status });
       return;
     }
-  }
 
-  let compressionQuality = quality
-  let targetSizeBytes: number | undefined;
+    const { pageCount } = job.estimates;
+    const page = Number(req.query.page ?? 1);
+    const quality = Number(req.query.quality);
+
+    if (!Number.isInteger(page) || page < 1 || page > pageCount) {
+      res.status(400).json({ error: `page must be between 1 and ${pageCount}` });
+      return;
+    }
+
+    if (!Number.isInteger(quality) || quality < 1 || quality > 100) {
+      res.status(400).json({ error: 'quality must be a whole number between 1 and 100' });
+      return;
+    }
 
-  if (targetSizeMB) {
-    targetSizeBytes = mbToBytes(targetSizeMB);
+    try {
+      const preview = await renderPagePreview(job.id, job.uploadPath, page, quality, Boolean(job.encryption));
+      const toDataUrl = (image: Buffer) => `data:image/png;base64,${image.toString('base64')}`;
 
-    // If estimates are available, find best quality for target
-    if (job.estimates) {
-      const best = findBestQuality(job.estimates.estimates, targetSizeBytes);
-      if (!best.achievable) {
-        // Warn user but still allow compression
-        console.log(`Target ${targetSizeMB}MB may not be achievable for job ${job.id}`);
+      res.json({
+        page,
+        quality,
+        original: {
+          image: toDataUrl(preview.original.image),
+          sizeBytes: preview.original.sizeBytes,
+        },
+        compressed: {
+          image: toDataUrl(preview.compressed.image),
+          sizeBytes: preview.compressed.sizeBytes,
+        },
+      });
+    } catch (err) {
+      if (err instanceof PasswordRequiredError) {
+        res.status(422).json({ error: err.message, code: 'ENCRYPTED' });
+        return;
       }
-      // Use the recommended quality as starting point
-      compressionQuality = best.quality;
+      res.status(500).json({
+        error: err instanceof Error ? err.message : 'Failed to render preview',
+      });
     }
+  } catch (err) {
+    next(err);
   }
+});
 
+/**
+ * POST /api/job/:id/stream-token
+ * Get a short-lived token that opens the job's event stream, for clients
+ * like EventSource that can't send the X-API-Key header
+ */
+jobRouter.post('/:id/stream-token', async (req, res, next) => {
   try {
-    await queueCompression(job.id, {
-      quality: compressionQuality,
-      targetSizeBytes,
-    });
+    const job = await getJob(req.params.id);
 
-    res.json({
-      message: 'Compression started',
-      jobId: job.id,
-      quality: compressionQuality,
-      targetSizeMB,
-    });
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+
+    res.json(createStreamToken(job.id));
   } catch (err) {
-    res.status(500).json({
-      error: err instanceof Error ? err.message : 'Failed to start compression',
+    next(err);
+  }
+});
+
+/**
+ * GET /api/job/:id/events
+ * Stream job updates as Server-Sent Events instead of polling /status.
+ *
+ * Events (JSON data):
+ * - `status`: the job's status changed (same payload as /status)
+ * - `progress`: progress or its message changed (same payload as /status)
+ * - `estimate`: estimates became available (same payload as /estimate)
+ * - `complete`: the job is done or failed (same payload as /status); the
+ *   stream ends after this event
+ */
+jobRouter.get('/:id/events', async (req, res, next) => {
+  try {
+    const job = await getJob(req.params.id);
+
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      // Stop nginx from buffering the stream
+      'X-Accel-Buffering': 'no',
     });
+    res.write(`retry: ${EVENT_RETRY_MS}\n\n`);
+
+    let last: Job | undefined;
+    let closed = false;
+
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    const push = (current: Job | undefined) => {
+      // Store reads can race with pushed updates; never go backwards
+      if (closed || !current || (last && current.updatedAt < last.updatedAt)) return;
+
+      if (!last || current.status !== last.status) {
+        send('status', formatJobStatus(current));
+      } else if (current.progress !== last.progress || current.progressMessage !== last.progressMessage) {
+        send('progress', formatJobStatus(current));
+      }
+
+      if (current.estimates && !last?.estimates) {
+        send('estimate', formatEstimates(current, current.estimates));
+      }
+
+      last = current;
+
+      if (current.status === 'done' || current.status === 'failed' || current.status === 'cancelled') {
+        send('complete', formatJobStatus(current));
+        close();
+      }
+    };
+
+    // Updates made in this process arrive at once; re-reading the store
+    // catches those made by a Bull worker elsewhere
+    const unsubscribe = onJobUpdate(job.id, push);
+    const storePoll = setInterval(() => {
+      getJob(job.id).then(push).catch(() => {});
+    }, EVENT_STORE_POLL_MS);
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), EVENT_HEARTBEAT_MS);
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      unsubscribe();
+      clearInterval(storePoll);
+      clearInterval(heartbeat);
+      res.end();
+    };
+
+    req.on('close', close);
+    push(job);
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /api/job/:id/compress
+ * Start compression with specified quality or target size
+ */
+jobRouter.post('/:id/compress', async (req, res, next) => {
+  try {
+    const job = await getJob(req.params.id);
+
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+
+    if (job.status === 'compressing') {
+      res.status(409).json({ error: 'Compression already in progress' });
+      return;
+    }
+
+    if (job.status === 'done') {
+      res.status(409).json({ error: 'Job already completed. Use download endpoint.' });
+      return;
+    }
+
+    const parsed = parseCompressionParams(req.body);
+    if ('error' in parsed) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    const { pageReduction } = parsed.params;
+    const pageCount = job.estimates?.pageCount;
+    if (pageReduction && pageReduction.pages !== 'auto' && pageCount) {
+      const outOfRange = pageReduction.pages.find((page) => page > pageCount);
+      if (outOfRange !== undefined) {
+        res.status(400).json({ error: `Page ${outOfRange} is out of range (the document has ${pageCount} pages)` });
+        return;
+      }
+    }
+
+    // Encrypted jobs need their password: held since upload, or sent again
+    // because the server restarted and forgot it
+    const { password } = req.body;
+    if (job.encryption) {
+      if (typeof password === 'string') {
+        if (!(await opensWithPassword(job.uploadPath, password).catch(() => true))) {
+          res.status(422).json({ error: 'The password is incorrect.', code: 'INCORRECT_PASSWORD' });
+          return;
+        }
+        setJobPassword(job.id, password);
+      } else if (!hasJobPassword(job.id)) {
+        res.status(422).json({
+          error: 'This PDF is password-protected. Enter its password to compress it.',
+          code: 'ENCRYPTED',
+        });
+        return;
+      }
+    }
+
+    const illegible = checkTargetLegibility(job, parsed.params);
+    if (illegible) {
+      res.status(422).json({ error: illegible, code: 'ILLEGIBLE' });
+      return;
+    }
+
+    const signed = checkSignatures(job, parsed.params);
+    if (signed) {
+      res.status(422).json({ error: signed, code: 'SIGNED' });
+      return;
+    }
+
+    const request = resolveCompressionRequest(job, parsed.params);
+
+    try {
+      await queueCompression(job.id, request);
+
+      res.json({
+        message: 'Compression started',
+        jobId: job.id,
+        quality: request.quality,
+        targetSizeMB: parsed.params.targetSizeMB,
+        mode: request.mode,
+        colorConversion: request.colorConversion,
+        pageReduction: request.pageReduction,
+        keepEncryption: request.keepEncryption,
+      });
+    } catch (err) {
+      res.status(500).json({
+        error: err instanceof Error ? err.message : 'Failed to start compression',
+      });
+    }
+  } catch (err) {
+    next(err);
   }
 });
 
@@ -212,41 +503,86 @@ jobRouter.post('/:id/compress', async (req, res) => {
  * GET /api/job/:id/download
  * Download the compressed PDF
  */
-jobRouter.get('/:id/download', async (req, res) => {
-  const job = getJob(req.params.id);
+jobRouter.get('/:id/download', async (req, res, next) => {
+  try {
+    const job = await getJob(req.params.id);
 
-  if (!job) {
-    res.status(404).json({ error: 'Job not found' });
-    return;
-  }
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
 
-  if (job.status !== 'done' || !job.compressionResult) {
-    res.status(400).json({
-      error: 'Compression not complete',
-      status: job.status,
-    });
-    return;
-  }
+    if (job.status !== 'done' || !job.compressionResult) {
+      res.status(400).json({
+        error: 'Compression not complete',
+        status: job.status,
+      });
+      return;
+    }
+
+    const { outputPath, compressedSize, parts } = job.compressionResult;
+
+    try {
+      // Check file exists
+      await fs.access(outputPath);
+
+      // Generate download filename
+      const originalName = job.originalFilename.replace(/\.pdf$/i, '');
+
+      if (parts) {
+        // Split output is a ZIP of the parts; its size isn't the parts' total
+        const { size } = await fs.stat(outputPath);
+        res.setHeader('Content-Type', 'application/zip');
+        res.setHeader('Content-Disposition', `attachment; filename="${originalName}_parts.zip"`);
+        res.setHeader('Content-Length', size);
+      } else {
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="${originalName}_compressed.pdf"`);
+        res.setHeader('Content-Length', compressedSize);
+      }
 
-  const { outputPath, compressedSize } = job.compressionResult;
+      // Stream the file
+      const fileStream = require('fs').createReadStream(outputPath);
+      fileStream.pipe(res);
+    } catch (err) {
+      res.status(404).json({ error: 'Compressed file not found' });
+    }
+  } catch (err) {
+    next(err);
+  }
+});
 
+/**
+ * POST /api/job/:id/cancel
+ * Stop a job's estimation or compression and kill its Ghostscript processes
+ */
+jobRouter.post('/:id/cancel', async (req, res, next) => {
   try {
-    // Check file exists
-    await fs.access(outputPath);
+    const job = await getJob(req.params.id);
 
-    // Generate download filename
-    const originalName = job.originalFilename.replace(/\.pdf$/i, '');
-    const downloadName = `${originalName}_compressed.pdf`;
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
 
-    res.setHeader('Content-Type', 'application/pdf');
-    res.setHeader('Content-Disposition', `attachment; filename="${downloadName}"`);
-    res.setHeader('Content-Length', compressedSize);
+    if (job.status === 'done' || job.status === 'failed' || job.status === 'cancelled') {
+      res.status(409).json({ error: `Job has already finished (${job.status})` });
+      return;
+    }
 
-    // Stream the file
-    const fileStream = require('fs').createReadStream(outputPath);
-    fileStream.pipe(res);
+    try {
+      if (!(await cancelJob(job.id))) {
+        res.status(409).json({ error: 'Job has nothing running to cancel' });
+        return;
+      }
+      res.json({ message: 'Job cancelled', jobId: job.id, status: 'cancelled' });
+    } catch (err) {
+      res.status(500).json({
+        error: err instanceof Error ? err.message : 'Failed to cancel job',
+      });
+    }
   } catch (err) {
-    res.status(404).json({ error: 'Compressed file not found' });
+    next(err);
   }
 });
 
@@ -254,21 +590,25 @@ jobRouter.get('/:id/download', async (req, res) => {
  * DELETE /api/job/:id
  * Delete a job and clean up files
  */
-jobRouter.delete('/:id', async (req, res) => {
-  const job = getJob(req.params.id);
+jobRouter.delete('/:id', async (req, res, next) => {
+  try {
+    const job = await getJob(req.params.id);
 
-  if (!job) {
-    res.status(404).json({ error: 'Job not found' });
-    return;
-  }
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
 
-  try {
-    await deleteJob(req.params.id);
-    res.json({ message: 'Job deleted successfully' });
+    try {
+      await deleteJob(req.params.id);
+      res.json({ message: 'Job deleted successfully' });
+    } catch (err) {
+      res.status(500).json({
+        error: err instanceof Error ? err.message : 'Failed to delete job',
+      });
+    }
   } catch (err) {
-    res.status(500).json({
-      error: err instanceof Error ? err.message : 'Failed to delete job',
-    });
+    next(err);
   }
 });
 
@@ -276,19 +616,23 @@ jobRouter.delete('/:id', async (req, res) => {
  * GET /api/job/queue/stats
  * Get queue statistics (admin endpoint)
  */
-jobRouter.get('/queue/stats', async (req, res) => {
-  const stats = await getQueueStats();
+jobRouter.get('/queue/stats', async (req, res, next) => {
+  try {
+    const stats = await getQueueStats();
+
+    if (!stats) {
+      res.json({
+        message: 'Queue not available (running in direct mode)',
+        queueEnabled: false,
+      });
+      return;
+    }
 
-  if (!stats) {
     res.json({
-      message: 'Queue not available (running in direct mode)',
-      queueEnabled: false,
+      queueEnabled: true,
+      ...stats,
     });
-    return;
+  } catch (err) {
+    next(err);
   }
-
-  res.json({
-    queueEnabled: true,
-    ...stats,
-  });
 });
@@ -1,9 +1,12 @@
 import { Router } from 'express';
 import multer from 'multer';
 import path from 'path';
+import { promises as fs } from 'fs';
 import { createJob } from '../services/jobQueue.js';
 import { getTempDir, ensureTempDir } from '../utils/tempFiles.js';
 import { MB } from '../utils/sizeUtils.js';
+import { validatePdfUpload, UploadValidationError } from '../services/uploadValidator.js';
+import { PdfEncryption } from '../services/encryption.js';
 
 export const uploadRouter = Router();
 
@@ -20,19 +23,13 @@ const storage = multer.diskStorage({
   },
 });
 
-const upload = multer({
+// Shared with the batch upload route. The client's content type isn't
+// trusted; validatePdfUpload checks the stored file itself.
+export const upload = multer({
   storage,
   limits: {
     fileSize: 250 * MB, // 250MB max (decimal)
   },
-  fileFilter: (req, file, cb) => {
-    // Accept only PDF files
-    if (file.mimetype !== 'application/pdf') {
-      cb(new Error('Only PDF files are allowed'));
-      return;
-    }
-    cb(null, true);
-  },
 });
 
 /**
@@ -46,10 +43,27 @@ uploadRouter.post('/', upload.single('file'), async (req, res, next) => {
       return;
     }
 
+    // Optional form field for encrypted PDFs; it is never stored
+    const password = typeof req.body.password === 'string' ? req.body.password : undefined;
+
+    let encryption: PdfEncryption | undefined;
+    try {
+      encryption = await validatePdfUpload(req.file.path, password);
+    } catch (err) {
+      if (err instanceof UploadValidationError) {
+        await fs.unlink(req.file.path).catch(() => {});
+        res.status(422).json({ error: err.message, code: err.code });
+        return;
+      }
+      throw err;
+    }
+
     const job = await createJob(
       req.file.originalname,
       req.file.size,
-      req.file.path
+      req.file.path,
+      undefined,
+      encryption ? { encryption, password: password ?? '' } : undefined
     );
 
     res.status(201).json({
@@ -65,15 +79,14 @@ uploadRouter.post('/', upload.single('file'), async (req, res, next) => {
 });
 
 // Error handling for multer
-uploadRouter.use((err: Error, req: any, res: any, next: any) => {
+export function handleUploadError(err: Error, req: any, res: any, next: any) {
   if (err instanceof multer.MulterError) {
     if (err.code === 'LIMIT_FILE_SIZE') {
       return res.status(413).json({ error: 'File too large. Maximum size is 250MB.' });
     }
     return res.status(400).json({ error: err.message });
   }
-  if (err.message === 'Only PDF files are allowed') {
-    return res.status(400).json({ error: err.message });
-  }
   next(err);
-});
+}
+
+uploadRouter.use(handleUploadError);
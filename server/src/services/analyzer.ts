@@ -1,5 +1,7 @@
-import { PDFDocument, PDFName, PDFDict, PDFRef, PDFStream, PDFArray } from 'pdf-lib';
+import { PDFDocument, PDFName, PDFDict, PDFRef, PDFStream, PDFArray, PDFRawStream, PDFNumber, PDFObject, decodePDFRawStream } from 'pdf-lib';
 import { promises as fs } from 'fs';
+import jpeg from 'jpeg-js';
+import { countPages } from './ghostscript.js';
 
 export interface ImageInfo {
   index: number;
@@ -17,6 +19,37 @@ export interface FontInfo {
   embedded: boolean;
 }
 
+export type PageResourceKind = 'image' | 'font' | 'form';
+
+export interface PageResource {
+  name: string; // Resource name on the page, e.g. "Im1" or "F2"
+  kind: PageResourceKind;
+  bytes: number; // Stored size of the whole object
+  sharedBy: number; // Number of pages that use it
+}
+
+export interface PageSizeInfo {
+  pageNumber: number; // 1-based
+  contentBytes: number; // Page content streams and forms
+  // Fraction (0-1) of all pages' content bytes that are this page's
+  contentShare: number;
+  imageBytes: number;
+  fontBytes: number;
+  // Stored bytes attributable to the page. Resources shared by several
+  // pages are split evenly between them.
+  totalBytes: number;
+  resources: PageResource[];
+}
+
+/**
+ * Stored bytes each page depends on, keyed by object so that resources
+ * shared between pages can be counted once per group of pages
+ */
+export interface PageResourceUsage {
+  contentBytes: number;
+  resources: Map<string, { name: string; kind: PageResourceKind; bytes: number }>;
+}
+
 export interface PDFAnalysis {
   // Basic info
   pageCount: number;
@@ -40,7 +73,13 @@ export interface PDFAnalysis {
     hasBookmarks: boolean;
     hasAnnotations: boolean;
     hasForms: boolean;
+    hasSignatures: boolean; // Rewriting the file invalidates them
   };
+  color: {
+    grayscalePages: number[]; // 1-based numbers of pages with no visible colour
+    colorPageCount: number;
+  };
+  pages: PageSizeInfo[];
 
   // Compression analysis
   compressibleContent: number; // Bytes that can be compressed (mainly images)
@@ -61,6 +100,23 @@ export class CorruptPdfError extends Error {
   }
 }
 
+/**
+ * Get the page count of a PDF file from its page tree. Only files too
+ * damaged for pdf-lib to parse are counted by Ghostscript.
+ */
+export async function getPageCount(pdfPath: string): Promise<number> {
+  try {
+    const pdfDoc = await PDFDocument.load(await fs.readFile(pdfPath), {
+      ignoreEncryption: true,
+      updateMetadata: false,
+    });
+    // The page tree is only read here, so this is where it can fail too
+    return pdfDoc.getPageCount();
+  } catch {
+    return countPages(pdfPath);
+  }
+}
+
 /**
  * Analyze a PDF file to understand its structure and compression potential
  */
@@ -109,6 +165,12 @@ export async function analyzePdf(pdfPath: string): Promise<PDFAnalysis> {
   // Extract metadata
   const metadata = extractMetadata(pdfDoc);
 
+  // Find pages that are already effectively grayscale
+  const color = extractColorInfo(pdfDoc);
+
+  // Where the bytes are, page by page
+  const pages = extractPageSizes(getPageResourceUsage(pdfDoc));
+
   // Calculate compression potential
   const totalImageSize = images.reduce((sum, img) => sum + img.estimatedSize, 0);
 
@@ -144,6 +206,8 @@ export async function analyzePdf(pdfPath: string): Promise<PDFAnalysis> {
       items: fonts,
     },
     metadata,
+    color,
+    pages,
     compressibleContent,
     fixedOverhead,
     minimumAchievableSize,
@@ -332,6 +396,7 @@ function extractMetadata(pdfDoc: PDFDocument): PDFAnalysis['metadata'] {
   let hasBookmarks = false;
   let hasAnnotations = false;
   let hasForms = false;
+  let hasSignatures = false;
 
   try {
     const context = pdfDoc.context;
@@ -347,6 +412,8 @@ function extractMetadata(pdfDoc: PDFDocument): PDFAnalysis['metadata'] {
       hasForms = !!acroForm;
     }
 
+    hasSignatures = isDigitallySigned(pdfDoc);
+
     // Check for annotations by looking at pages
     const pages = pdfDoc.getPages();
     for (const page of pages) {
@@ -373,9 +440,424 @@ function extractMetadata(pdfDoc: PDFDocument): PDFAnalysis['metadata'] {
     hasBookmarks,
     hasAnnotations,
     hasForms,
+    hasSignatures,
   };
 }
 
+// AcroForm /SigFlags bit 1: the document has at least one signature field
+const SIG_FLAG_SIGNATURES_EXIST = 1;
+
+/**
+ * Whether the document carries a digital signature: the form says so with
+ * /SigFlags, or a signature field holds a value with a /ByteRange
+ */
+export function isDigitallySigned(pdfDoc: PDFDocument): boolean {
+  const acroForm = pdfDoc.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+  if (!acroForm) return false;
+
+  const sigFlags = acroForm.lookupMaybe(PDFName.of('SigFlags'), PDFNumber);
+  if (sigFlags && (sigFlags.asNumber() & SIG_FLAG_SIGNATURES_EXIST)) return true;
+
+  const seen = new Set<PDFDict>();
+  // Kids inherit the field type from their parent
+  const isSignedField = (field: PDFDict, parentType?: PDFObject): boolean => {
+    if (seen.has(field)) return false;
+    seen.add(field);
+
+    const type = field.get(PDFName.of('FT')) ?? parentType;
+    const value = field.lookup(PDFName.of('V'));
+    if (type === PDFName.of('Sig') && value instanceof PDFDict && value.has(PDFName.of('ByteRange'))) {
+      return true;
+    }
+    return anySignedField(field.lookupMaybe(PDFName.of('Kids'), PDFArray), type);
+  };
+  const anySignedField = (fields: PDFArray | undefined, parentType?: PDFObject): boolean =>
+    !!fields && fields.asArray().some((ref) => {
+      const field = pdfDoc.context.lookup(ref);
+      return field instanceof PDFDict && isSignedField(field, parentType);
+    });
+
+  return anySignedField(acroForm.lookupMaybe(PDFName.of('Fields'), PDFArray));
+}
+
+/**
+ * Collect the stored size of every content stream, image, form and
+ * embedded font file each page uses
+ */
+export function getPageResourceUsage(pdfDoc: PDFDocument): PageResourceUsage[] {
+  const context = pdfDoc.context;
+
+  return pdfDoc.getPages().map((page) => {
+    const usage: PageResourceUsage = { contentBytes: 0, resources: new Map() };
+
+    try {
+      const contents = page.node.Contents();
+      const streams = contents instanceof PDFArray
+        ? contents.asArray().map((ref) => context.lookup(ref))
+        : [contents];
+      for (const stream of streams) {
+        if (stream instanceof PDFStream) usage.contentBytes += stream.getContentsSize();
+      }
+
+      collectResourceUsage(pdfDoc, page.node.Resources(), usage, 0);
+    } catch {
+      // Count what we could read
+    }
+
+    return usage;
+  });
+}
+
+function collectResourceUsage(
+  pdfDoc: PDFDocument,
+  resources: PDFDict | undefined,
+  usage: PageResourceUsage,
+  depth: number
+): void {
+  if (!resources) return;
+  const context = pdfDoc.context;
+
+  const xObjects = resources.lookupMaybe(PDFName.of('XObject'), PDFDict);
+  for (const [name, value] of xObjects?.entries() ?? []) {
+    const xObject = value instanceof PDFRef ? context.lookup(value) : value;
+    if (!(xObject instanceof PDFStream)) continue;
+
+    const key = value instanceof PDFRef ? value.toString() : `inline:${usage.resources.size}`;
+    if (usage.resources.has(key)) continue;
+
+    const subtype = xObject.dict.get(PDFName.of('Subtype'))?.toString() === '/Image' ? 'image' : 'form';
+    usage.resources.set(key, { name: name.decodeText(), kind: subtype, bytes: xObject.getContentsSize() });
+
+    // Soft masks are separate image streams
+    const sMask = xObject.dict.get(PDFName.of('SMask'));
+    if (sMask instanceof PDFRef) {
+      const mask = context.lookup(sMask);
+      if (mask instanceof PDFStream) {
+        usage.resources.set(sMask.toString(), {
+          name: `${name.decodeText()} (mask)`,
+          kind: 'image',
+          bytes: mask.getContentsSize(),
+        });
+      }
+    }
+
+    if (subtype === 'form' && depth < MAX_FORM_DEPTH) {
+      collectResourceUsage(pdfDoc, xObject.dict.lookupMaybe(PDFName.of('Resources'), PDFDict), usage, depth + 1);
+    }
+  }
+
+  const fonts = resources.lookupMaybe(PDFName.of('Font'), PDFDict);
+  for (const [name, value] of fonts?.entries() ?? []) {
+    const font = value instanceof PDFRef ? context.lookup(value) : value;
+    if (!(font instanceof PDFDict)) continue;
+
+    // Composite fonts keep the font program on their descendant
+    const descendants = font.lookupMaybe(PDFName.of('DescendantFonts'), PDFArray);
+    const descendant = descendants ? context.lookup(descendants.get(0)) : undefined;
+    const fontDict = descendant instanceof PDFDict ? descendant : font;
+
+    const descriptor = fontDict.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict);
+    let embedded = false;
+    for (const fileKey of ['FontFile', 'FontFile2', 'FontFile3']) {
+      const fileRef = descriptor?.get(PDFName.of(fileKey));
+      if (!(fileRef instanceof PDFRef)) continue;
+      const file = context.lookup(fileRef);
+      if (file instanceof PDFStream) {
+        usage.resources.set(fileRef.toString(), {
+          name: name.decodeText(),
+          kind: 'font',
+          bytes: file.getContentsSize(),
+        });
+        embedded = true;
+      }
+    }
+
+    // Fonts without an embedded program still show up as referenced
+    if (!embedded) {
+      const key = value instanceof PDFRef ? value.toString() : `font:${name.decodeText()}`;
+      usage.resources.set(key, { name: name.decodeText(), kind: 'font', bytes: 0 });
+    }
+  }
+}
+
+/**
+ * Attribute stored bytes to pages, splitting shared resources evenly
+ */
+function extractPageSizes(usages: PageResourceUsage[]): PageSizeInfo[] {
+  const sharedBy = new Map<string, number>();
+  for (const usage of usages) {
+    for (const key of usage.resources.keys()) {
+      sharedBy.set(key, (sharedBy.get(key) ?? 0) + 1);
+    }
+  }
+
+  const pages = usages.map((usage, index) => {
+    const page: PageSizeInfo = {
+      pageNumber: index + 1,
+      contentBytes: usage.contentBytes,
+      contentShare: 0,
+      imageBytes: 0,
+      fontBytes: 0,
+      totalBytes: 0,
+      resources: [],
+    };
+
+    for (const [key, resource] of usage.resources) {
+      const pageCount = sharedBy.get(key) ?? 1;
+      const bytes = Math.round(resource.bytes / pageCount);
+      if (resource.kind === 'image') page.imageBytes += bytes;
+      else if (resource.kind === 'font') page.fontBytes += bytes;
+      else page.contentBytes += bytes;
+
+      page.resources.push({ ...resource, sharedBy: pageCount });
+    }
+
+    page.totalBytes = page.contentBytes + page.imageBytes + page.fontBytes;
+    return page;
+  });
+
+  const totalContentBytes = pages.reduce((sum, page) => sum + page.contentBytes, 0);
+  for (const page of pages) {
+    page.contentShare = totalContentBytes > 0 ? page.contentBytes / totalContentBytes : 0;
+  }
+
+  return pages;
+}
+
+// Colour components closer than this (0-1 scale) count as neutral gray
+const NEUTRAL_TOLERANCE = 0.02;
+// Max per-channel difference (0-255) for a decoded pixel to count as gray
+const NEUTRAL_PIXEL_TOLERANCE = 12;
+// Decoding images is slow; only this many RGB JPEGs are checked pixel by pixel
+const MAX_IMAGE_NEUTRAL_CHECKS = 20;
+const MAX_NEUTRAL_CHECK_PIXELS = 12_000_000;
+// Form XObjects can nest; don't follow them forever
+const MAX_FORM_DEPTH = 3;
+
+/**
+ * Classify pages as grayscale or colour.
+ *
+ * A page counts as grayscale when its content only sets neutral colours
+ * and every image it draws is gray, bilevel, or (for RGB JPEGs we can
+ * afford to decode) has no visibly coloured pixels. Anything we can't
+ * prove neutral - spot colours, patterns, undecodable images - counts as
+ * colour, so a "grayscale" verdict is safe to act on.
+ */
+function extractColorInfo(pdfDoc: PDFDocument): PDFAnalysis['color'] {
+  const grayscalePages: number[] = [];
+  let colorPageCount = 0;
+  const imageCache = new Map<PDFRef, boolean>();
+  const budget = { neutralChecks: MAX_IMAGE_NEUTRAL_CHECKS };
+
+  pdfDoc.getPages().forEach((page, index) => {
+    let isGray = false;
+    try {
+      const resources = page.node.Resources();
+      const contents = page.node.Contents();
+      const streams = contents instanceof PDFArray
+        ? contents.asArray().map((ref) => pdfDoc.context.lookup(ref))
+        : [contents];
+
+      isGray = isContentGray(pdfDoc, streams, resources, imageCache, budget, 0);
+    } catch {
+      // Unparseable pages count as colour
+    }
+
+    if (isGray) {
+      grayscalePages.push(index + 1);
+    } else {
+      colorPageCount++;
+    }
+  });
+
+  return { grayscalePages, colorPageCount };
+}
+
+function isContentGray(
+  pdfDoc: PDFDocument,
+  streams: (PDFObject | undefined)[],
+  resources: PDFDict | undefined,
+  imageCache: Map<PDFRef, boolean>,
+  budget: { neutralChecks: number },
+  depth: number
+): boolean {
+  const context = pdfDoc.context;
+
+  // Patterns and shadings carry their own colour spaces - assume colour
+  if (resources?.get(PDFName.of('Pattern')) || resources?.get(PDFName.of('Shading'))) {
+    return false;
+  }
+
+  let content = '';
+  for (const stream of streams) {
+    if (!(stream instanceof PDFRawStream)) continue;
+    content += Buffer.from(decodePDFRawStream(stream).decode()).toString('latin1');
+  }
+
+  if (!areColorOperatorsNeutral(pdfDoc, content, resources)) {
+    return false;
+  }
+
+  const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+  if (!xObjects) return true;
+
+  for (const [, value] of xObjects.entries()) {
+    const xObject = value instanceof PDFRef ? context.lookup(value) : value;
+    if (!(xObject instanceof PDFStream)) continue;
+
+    const subtype = xObject.dict.get(PDFName.of('Subtype'))?.toString();
+    if (subtype === '/Image') {
+      const cached = value instanceof PDFRef ? imageCache.get(value) : undefined;
+      const gray = cached ?? isImageGray(pdfDoc, xObject, budget);
+      if (value instanceof PDFRef) imageCache.set(value, gray);
+      if (!gray) return false;
+    } else if (subtype === '/Form') {
+      if (depth >= MAX_FORM_DEPTH) return false;
+      const formResources = xObject.dict.lookupMaybe(PDFName.of('Resources'), PDFDict);
+      if (!isContentGray(pdfDoc, [xObject], formResources, imageCache, budget, depth + 1)) {
+        return false;
+      }
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Check colour-setting operators in a content stream for non-neutral values
+ */
+function areColorOperatorsNeutral(pdfDoc: PDFDocument, content: string, resources: PDFDict | undefined): boolean {
+  const num = '(-?\\d*\\.?\\d+)';
+
+  // RGB: r g b rg / RG
+  for (const match of content.matchAll(new RegExp(`${num}\\s+${num}\\s+${num}\\s+(?:rg|RG)\\b`, 'g'))) {
+    if (!isNeutral(Number(match[1]), Number(match[2]), Number(match[3]))) return false;
+  }
+
+  // CMYK: c m y k k / K - neutral when cyan, magenta and yellow match
+  for (const match of content.matchAll(new RegExp(`${num}\\s+${num}\\s+${num}\\s+${num}\\s+(?:k|K)\\b`, 'g'))) {
+    if (!isNeutral(Number(match[1]), Number(match[2]), Number(match[3]))) return false;
+  }
+
+  // Generic sc/scn with three or four components
+  for (const match of content.matchAll(new RegExp(`${num}\\s+${num}\\s+${num}(?:\\s+${num})?\\s+(?:sc|scn|SC|SCN)\\b`, 'g'))) {
+    if (!isNeutral(Number(match[1]), Number(match[2]), Number(match[3]))) return false;
+  }
+
+  // Named colour spaces: spot colours, Lab, indexed palettes etc. count as colour
+  for (const match of content.matchAll(/\/([^\s/\[\]<>()]+)\s+(?:cs|CS)\b/g)) {
+    if (!isColorSpaceNeutralCapable(pdfDoc, match[1], resources)) return false;
+  }
+
+  return true;
+}
+
+function isNeutral(a: number, b: number, c: number): boolean {
+  return Math.abs(a - b) <= NEUTRAL_TOLERANCE && Math.abs(b - c) <= NEUTRAL_TOLERANCE;
+}
+
+/**
+ * Whether a colour space only ever produces neutral colours, or produces
+ * device colours whose values we already check through sc/scn
+ */
+function isColorSpaceNeutralCapable(pdfDoc: PDFDocument, name: string, resources: PDFDict | undefined): boolean {
+  if (['DeviceGray', 'CalGray', 'G', 'DeviceRGB', 'RGB', 'DeviceCMYK', 'CMYK'].includes(name)) {
+    return true;
+  }
+
+  const colorSpaces = resources?.lookupMaybe(PDFName.of('ColorSpace'), PDFDict);
+  const colorSpace = colorSpaces?.get(PDFName.of(name));
+  const resolved = colorSpace instanceof PDFRef ? pdfDoc.context.lookup(colorSpace) : colorSpace;
+  const channels = getColorSpaceChannels(pdfDoc, resolved);
+
+  return channels === 1 || channels === 3 || channels === 4;
+}
+
+/**
+ * Component count of a gray/RGB/CMYK-like colour space, or null for anything else
+ */
+function getColorSpaceChannels(pdfDoc: PDFDocument, colorSpace: PDFObject | undefined): number | null {
+  if (colorSpace instanceof PDFName) {
+    const name = colorSpace.decodeText();
+    if (name === 'DeviceGray' || name === 'CalGray') return 1;
+    if (name === 'DeviceRGB' || name === 'CalRGB') return 3;
+    if (name === 'DeviceCMYK') return 4;
+    return null;
+  }
+
+  if (colorSpace instanceof PDFArray && colorSpace.size() >= 1) {
+    const family = colorSpace.get(0)?.toString();
+    if (family === '/CalGray') return 1;
+    if (family === '/CalRGB') return 3;
+    if (family === '/ICCBased') {
+      const profile = pdfDoc.context.lookup(colorSpace.get(1));
+      if (profile instanceof PDFStream) {
+        const n = profile.dict.get(PDFName.of('N'));
+        return n instanceof PDFNumber ? n.asNumber() : null;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether an image has no visible colour
+ */
+function isImageGray(pdfDoc: PDFDocument, image: PDFStream, budget: { neutralChecks: number }): boolean {
+  const dict = image.dict;
+
+  // Stencil masks are painted in the current (already checked) fill colour
+  if (dict.get(PDFName.of('ImageMask'))?.toString() === 'true') return true;
+
+  const bitsPerComponent = dict.get(PDFName.of('BitsPerComponent'));
+  const colorSpace = dict.get(PDFName.of('ColorSpace'));
+  const resolved = colorSpace instanceof PDFRef ? pdfDoc.context.lookup(colorSpace) : colorSpace;
+  const channels = getColorSpaceChannels(pdfDoc, resolved);
+
+  if (channels === 1) return true;
+  if (bitsPerComponent instanceof PDFNumber && bitsPerComponent.asNumber() === 1 && channels === null) {
+    return false;
+  }
+
+  // RGB scans are often gray in disguise - decode JPEGs we can afford to check
+  const filter = dict.get(PDFName.of('Filter'))?.toString() ?? '';
+  if (channels !== 3 || !filter.includes('DCTDecode') || !(image instanceof PDFRawStream)) {
+    return false;
+  }
+
+  const width = dict.get(PDFName.of('Width'));
+  const height = dict.get(PDFName.of('Height'));
+  if (!(width instanceof PDFNumber) || !(height instanceof PDFNumber)) return false;
+  if (width.asNumber() * height.asNumber() > MAX_NEUTRAL_CHECK_PIXELS) return false;
+  if (budget.neutralChecks <= 0) return false;
+  budget.neutralChecks--;
+
+  try {
+    const decoded = jpeg.decode(image.contents, { useTArray: true, formatAsRGBA: false });
+    const pixelCount = decoded.width * decoded.height;
+    // Sample roughly 50k pixels spread over the image
+    const step = Math.max(1, Math.floor(pixelCount / 50_000));
+    let colored = 0;
+    let sampled = 0;
+
+    for (let i = 0; i < pixelCount; i += step) {
+      const r = decoded.data[i * 3];
+      const g = decoded.data[i * 3 + 1];
+      const b = decoded.data[i * 3 + 2];
+      if (Math.abs(r - g) > NEUTRAL_PIXEL_TOLERANCE || Math.abs(g - b) > NEUTRAL_PIXEL_TOLERANCE) {
+        colored++;
+      }
+      sampled++;
+    }
+
+    // Allow a sliver of JPEG colour noise
+    return colored / sampled < 0.005;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Helper to safely extract number values from PDF dictionaries
  */
@@ -0,0 +1,56 @@
+import { Writable } from 'stream';
+import archiver from 'archiver';
+
+export interface ArchiveEntry {
+  path: string; // File on disk
+  name: string; // Name inside the archive
+}
+
+// Names made up only of separators, dots or control characters
+const FALLBACK_NAME = 'document';
+
+/**
+ * Reduce an uploaded file's name to a plain file name that's safe inside an
+ * archive: no directories (either separator), no control characters and no
+ * leading dots, so entries can't escape the folder they're extracted to.
+ */
+export function safeFileName(name: string): string {
+  const base = name.split(/[/\\]/).pop() ?? '';
+  const cleaned = base.replace(/[\x00-\x1f\x7f]/g, '').replace(/^[\s.]+/, '').trim();
+  return cleaned || FALLBACK_NAME;
+}
+
+/**
+ * Stream files into a ZIP archive.
+ * Entry names are reduced with safeFileName, and entries with the same name
+ * get a numeric suffix so none are lost.
+ */
+export async function writeZip(entries: ArchiveEntry[], destination: Writable): Promise<void> {
+  // PDFs are already compressed; deflating them again only costs time
+  const archive = archiver('zip', { store: true });
+  const usedNames = new Set<string>();
+
+  const finished = new Promise<void>((resolve, reject) => {
+    destination.on('finish', resolve);
+    destination.on('error', reject);
+    archive.on('error', reject);
+  });
+
+  archive.pipe(destination);
+
+  for (const entry of entries) {
+    archive.file(entry.path, { name: uniqueName(safeFileName(entry.name), usedNames) });
+  }
+
+  await archive.finalize();
+  await finished;
+}
+
+function uniqueName(name: string, usedNames: Set<string>): string {
+  let candidate = name;
+  for (let n = 2; usedNames.has(candidate.toLowerCase()); n++) {
+    candidate = name.replace(/(\.[^.]+)?$/, `_${n}$1`);
+  }
+  usedNames.add(candidate.toLowerCase());
+  return candidate;
+}
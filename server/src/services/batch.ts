@@ -0,0 +1,386 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Writable } from 'stream';
+import { Job, CompressionRequest, createJob, getJob, deleteJob, queueCompression } from './jobQueue.js';
+import { createBatchStore, RecordStore } from './jobStore.js';
+import { estimateSizeAtQuality } from './sampler.js';
+import { writeZip, safeFileName } from './archive.js';
+import { PdfEncryption } from './encryption.js';
+
+/**
+ * A group of jobs uploaded together. Each file is an ordinary job
+ * (with `batchId` set); the batch only records which jobs belong to it.
+ */
+export interface Batch {
+  id: string;
+  jobIds: string[];
+  compression?: BatchCompression;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * State of the latest compress request for a batch
+ */
+export interface BatchCompression {
+  state: 'running' | 'finished';
+  // Set when one byte budget is shared by all files
+  budgetBytes?: number;
+  // Quality every file was aimed at when the budget was shared out
+  quality?: number;
+  totalSize?: number;
+  budgetMet?: boolean;
+  // Compression passes needed to fit the budget
+  rounds?: number;
+}
+
+export type BatchStatus = 'estimating' | 'ready' | 'compressing' | 'done' | 'failed';
+
+export interface BatchSummary {
+  status: BatchStatus;
+  // Average over all files, finished files count as 100
+  progress: number;
+  fileCount: number;
+  doneCount: number;
+  failedCount: number;
+  originalSize: number;
+  compressedSize: number;
+}
+
+export interface UploadedFile {
+  originalFilename: string;
+  size: number;
+  path: string;
+  // Set for files that are encrypted but open without a password
+  encryption?: PdfEncryption;
+}
+
+// Created on first use, so it sees the configuration loaded at startup
+let store: RecordStore<Batch> | null = null;
+
+function getStore(): RecordStore<Batch> {
+  store ??= createBatchStore<Batch>();
+  return store;
+}
+
+// Passes over the whole batch before a missed combined budget is reported
+const MAX_BUDGET_ROUNDS = Number(process.env.MAX_BUDGET_ROUNDS) || 3;
+// Give up waiting for queued jobs after this long
+const BATCH_WAIT_TIMEOUT_MS = 60 * 60 * 1000;
+const BATCH_POLL_INTERVAL_MS = 1000;
+
+/**
+ * Create a batch with one job per uploaded file
+ */
+export async function createBatch(files: UploadedFile[]): Promise<{ batch: Batch; jobs: Job[] }> {
+  const batchId = uuidv4();
+  const jobs: Job[] = [];
+
+  for (const file of files) {
+    const encrypted = file.encryption ? { encryption: file.encryption, password: '' } : undefined;
+    jobs.push(await createJob(file.originalFilename, file.size, file.path, batchId, encrypted));
+  }
+
+  const batch: Batch = {
+    id: batchId,
+    jobIds: jobs.map((job) => job.id),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+  await getStore().set(batch);
+
+  return { batch, jobs };
+}
+
+/**
+ * Get a batch by ID
+ */
+export async function getBatch(batchId: string): Promise<Batch | undefined> {
+  return getStore().get(batchId);
+}
+
+/**
+ * Load the batch's jobs in upload order, skipping any that were pruned
+ */
+export async function getBatchJobs(batch: Batch): Promise<Job[]> {
+  const jobs = await Promise.all(batch.jobIds.map((id) => getJob(id)));
+  return jobs.filter((job): job is Job => job !== undefined);
+}
+
+/**
+ * Roll the state of a batch's jobs up into one status.
+ *
+ * The batch is as far along as its slowest file: it is estimating while any
+ * file is, compressing while any file is, and ready while any file still
+ * waits for a compress request. Once every file has finished it is done,
+ * unless every single file failed.
+ */
+export function summarizeBatch(jobs: Job[], batch?: Batch): BatchSummary {
+  const count = (statuses: Job['status'][]) =>
+    jobs.filter((job) => statuses.includes(job.status)).length;
+
+  const doneCount = count(['done']);
+  const failedCount = count(['failed', 'cancelled']);
+
+  let status: BatchStatus;
+  if (count(['pending', 'estimating']) > 0) {
+    status = 'estimating';
+  } else if (count(['compressing']) > 0 || batch?.compression?.state === 'running') {
+    status = 'compressing';
+  } else if (count(['ready']) > 0) {
+    status = 'ready';
+  } else if (doneCount > 0) {
+    status = 'done';
+  } else {
+    status = 'failed';
+  }
+
+  const progress = jobs.length > 0
+    ? jobs.reduce((sum, job) => {
+        if (job.status === 'done' || job.status === 'failed' || job.status === 'cancelled') return sum + 100;
+        if (job.status === 'compressing') return sum + (job.progress ?? 0);
+        return sum;
+      }, 0) / jobs.length
+    : 0;
+
+  return {
+    status,
+    progress: Math.round(progress),
+    fileCount: jobs.length,
+    doneCount,
+    failedCount,
+    originalSize: jobs.reduce((sum, job) => sum + job.originalSize, 0),
+    compressedSize: jobs.reduce((sum, job) => sum + (job.compressionResult?.compressedSize ?? 0), 0),
+  };
+}
+
+/**
+ * Share one byte budget across files.
+ *
+ * Every file is aimed at the same quality - the highest one whose
+ * estimated sizes add up to no more than the budget - so no single file
+ * is degraded much more than the rest. Each file's target is then its
+ * estimated size at that quality, scaled so the targets sum to exactly
+ * the budget. Files that estimation failed for are counted at their
+ * original size.
+ */
+export function allocateCombinedBudget(
+  jobs: Job[],
+  budgetBytes: number
+): { quality: number; targets: Map<string, number> } {
+  const sizeAt = (job: Job, quality: number) =>
+    job.estimates && job.estimates.estimates.length > 0
+      ? Math.min(job.originalSize, estimateSizeAtQuality(job.estimates.estimates, quality))
+      : job.originalSize;
+  const totalAt = (quality: number) => jobs.reduce((sum, job) => sum + sizeAt(job, quality), 0);
+
+  // Estimated sizes grow with quality, so bisect for the highest fitting one
+  let low = 1;
+  let high = 100;
+  if (totalAt(high) <= budgetBytes) {
+    low = high;
+  }
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (totalAt(mid) <= budgetBytes) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  const quality = low;
+
+  // Hand out the leftover headroom (or the shortfall, when even the lowest
+  // quality doesn't fit) in proportion to each file's size
+  const total = totalAt(quality);
+  const scale = total > 0 ? budgetBytes / total : 1;
+  const targets = new Map<string, number>();
+  for (const job of jobs) {
+    targets.set(job.id, Math.max(1, Math.floor(sizeAt(job, quality) * scale)));
+  }
+
+  return { quality, targets };
+}
+
+/**
+ * Start compressing a batch in the background.
+ *
+ * With `budgetBytes` the files share one budget: once every file is done
+ * their combined size is checked, and files are compressed again with
+ * tighter targets until the total fits or MAX_BUDGET_ROUNDS is reached.
+ */
+export async function startBatchCompression(
+  batch: Batch,
+  requests: Map<string, CompressionRequest>,
+  budget?: { budgetBytes: number; quality: number }
+): Promise<void> {
+  await getStore().update(batch.id, {
+    compression: { state: 'running', budgetBytes: budget?.budgetBytes, quality: budget?.quality },
+  });
+
+  runBatchCompression(batch.id, requests, budget?.budgetBytes)
+    .catch((err) => console.error(`Batch ${batch.id} compression failed:`, err))
+    .finally(() => updateCompression(batch.id, { state: 'finished' }).catch(() => {}));
+}
+
+async function updateCompression(batchId: string, updates: Partial<BatchCompression>): Promise<void> {
+  const batch = await getStore().get(batchId);
+  if (!batch?.compression) return;
+  await getStore().update(batchId, { compression: { ...batch.compression, ...updates } });
+}
+
+async function runBatchCompression(
+  batchId: string,
+  requests: Map<string, CompressionRequest>,
+  budgetBytes?: number
+): Promise<void> {
+  let pending = requests;
+
+  for (let round = 1; ; round++) {
+    await queueAndWait(pending);
+
+    if (budgetBytes === undefined) return;
+
+    const jobs = (await Promise.all([...requests.keys()].map((id) => getJob(id))))
+      .filter((job): job is Job => job?.status === 'done' && !!job.compressionResult);
+    const totalSize = jobs.reduce((sum, job) => sum + job.compressionResult!.compressedSize, 0);
+    const budgetMet = totalSize <= budgetBytes;
+
+    await updateCompression(batchId, { totalSize, budgetMet, rounds: round });
+
+    if (budgetMet || round >= MAX_BUDGET_ROUNDS || jobs.length === 0) return;
+
+    pending = tightenTargets(jobs, requests, totalSize - budgetBytes);
+    console.log(`Batch ${batchId} is ${totalSize - budgetBytes} bytes over budget, recompressing ${pending.size} files`);
+  }
+}
+
+/**
+ * New targets that remove `overshoot` bytes: taken from the largest file
+ * when it can give that much up, otherwise from every file proportionally
+ */
+function tightenTargets(
+  jobs: Job[],
+  requests: Map<string, CompressionRequest>,
+  overshoot: number
+): Map<string, CompressionRequest> {
+  const tightened = new Map<string, CompressionRequest>();
+  const largest = jobs.reduce((a, b) =>
+    b.compressionResult!.compressedSize > a.compressionResult!.compressedSize ? b : a
+  );
+  const largestSize = largest.compressionResult!.compressedSize;
+
+  if (largestSize - overshoot >= largestSize / 2) {
+    tightened.set(largest.id, {
+      ...requests.get(largest.id),
+      targetSizeBytes: largestSize - overshoot,
+    });
+    return tightened;
+  }
+
+  const total = jobs.reduce((sum, job) => sum + job.compressionResult!.compressedSize, 0);
+  const scale = (total - overshoot) / total;
+  for (const job of jobs) {
+    tightened.set(job.id, {
+      ...requests.get(job.id),
+      targetSizeBytes: Math.max(1, Math.floor(job.compressionResult!.compressedSize * scale)),
+    });
+  }
+  return tightened;
+}
+
+/**
+ * Queue every request and wait until all of those jobs have finished
+ */
+async function queueAndWait(requests: Map<string, CompressionRequest>): Promise<void> {
+  const startedAt = Date.now();
+
+  // In direct mode every compression starts at once, sharing the Ghostscript
+  // pool; with Bull they're only enqueued
+  for (const [jobId, request] of requests) {
+    try {
+      await queueCompression(jobId, request);
+    } catch (err) {
+      console.error(`Failed to queue compression for job ${jobId}:`, err);
+    }
+  }
+
+  // A job counts as finished once it reached done/failed after we queued it
+  const isFinished = (job: Job | undefined) =>
+    !job ||
+    ((job.status === 'done' || job.status === 'failed' || job.status === 'cancelled') &&
+      job.updatedAt.getTime() >= startedAt);
+
+  while (Date.now() - startedAt < BATCH_WAIT_TIMEOUT_MS) {
+    const jobs = await Promise.all([...requests.keys()].map((id) => getJob(id)));
+    if (jobs.every(isFinished)) return;
+    await new Promise((resolve) => setTimeout(resolve, BATCH_POLL_INTERVAL_MS));
+  }
+
+  throw new Error('Timed out waiting for batch jobs');
+}
+
+/**
+ * Stream every finished job's output into a ZIP archive
+ */
+export async function writeBatchArchive(jobs: Job[], destination: Writable): Promise<void> {
+  const entries = jobs
+    .filter((job) => job.status === 'done' && job.compressionResult)
+    .map((job) => {
+      const baseName = safeFileName(job.originalFilename).replace(/\.pdf$/i, '');
+      return {
+        path: job.compressionResult!.outputPath,
+        // Split jobs produce a ZIP of parts, which is nested as is
+        name: job.compressionResult!.parts ? `${baseName}_parts.zip` : `${baseName}_compressed.pdf`,
+      };
+    });
+
+  await writeZip(entries, destination);
+}
+
+/**
+ * Delete a batch and all of its jobs
+ */
+export async function deleteBatch(batchId: string): Promise<void> {
+  const batch = await getStore().get(batchId);
+  if (!batch) return;
+
+  for (const jobId of batch.jobIds) {
+    await deleteJob(jobId);
+  }
+  await getStore().delete(batchId);
+}
+
+/**
+ * Batches whose compression was cut short by a restart would otherwise
+ * report 'compressing' forever. Their jobs are recovered on their own;
+ * only the combined budget check is lost.
+ */
+export async function recoverInterruptedBatches(): Promise<void> {
+  try {
+    const batches = await getStore().list();
+    for (const batch of batches) {
+      if (batch.compression?.state === 'running') {
+        await updateCompression(batch.id, { state: 'finished' });
+      }
+    }
+  } catch (err) {
+    console.error('Failed to recover interrupted batches:', err);
+  }
+}
+
+/**
+ * Drop batch records whose jobs have all been pruned
+ */
+export async function pruneBatches(): Promise<void> {
+  try {
+    const batches = await getStore().list();
+    for (const batch of batches) {
+      const jobs = await getBatchJobs(batch);
+      if (jobs.length === 0) {
+        await getStore().delete(batch.id);
+      }
+    }
+  } catch (err) {
+    console.error('Failed to prune old batches:', err);
+  }
+}
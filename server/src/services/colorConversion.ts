@@ -0,0 +1,137 @@
+import { promises as fs } from 'fs';
+import {
+  PDFDocument,
+  pushGraphicsState,
+  popGraphicsState,
+  concatTransformationMatrix,
+  drawObject,
+} from 'pdf-lib';
+import { renderMonoPages } from './ghostscript.js';
+
+// Scans are rendered at this resolution before the quality setting decides
+// how far the bilevel images get downsampled
+const MONO_RASTER_DPI = Number(process.env.MONO_RASTER_DPI) || 300;
+
+interface Bitmap {
+  width: number;
+  height: number;
+  data: Uint8Array; // Packed 1-bit rows, 1 = black
+}
+
+/**
+ * Turn every page into a black & white image.
+ *
+ * Meant for scanned documents, where it is usually the biggest size win:
+ * pages are rendered to bilevel bitmaps by Ghostscript and reassembled into
+ * a PDF with one 1-bit image per page. Text stops being selectable, so this
+ * is never applied unless explicitly requested. The result is normally fed
+ * through compressPdf, which re-encodes the bitmaps with CCITT G4.
+ */
+export async function rasterizeToMono(
+  inputPath: string,
+  outputPath: string,
+  dpi: number = MONO_RASTER_DPI
+): Promise<void> {
+  const pagePrefix = outputPath.replace(/\.pdf$/i, '');
+  const pattern = `${pagePrefix}_page%d.pbm`;
+
+  await renderMonoPages(inputPath, pattern, dpi);
+
+  const pdfDoc = await PDFDocument.create();
+  let pageNumber = 1;
+
+  try {
+    for (;;) {
+      const pagePath = pattern.replace('%d', String(pageNumber));
+      let bitmap: Bitmap;
+      try {
+        bitmap = parsePbm(await fs.readFile(pagePath));
+      } catch {
+        break; // No more pages
+      }
+      await fs.unlink(pagePath).catch(() => {});
+
+      // Render size in points at the raster resolution
+      const width = (bitmap.width * 72) / dpi;
+      const height = (bitmap.height * 72) / dpi;
+      const page = pdfDoc.addPage([width, height]);
+
+      const image = pdfDoc.context.flateStream(bitmap.data, {
+        Type: 'XObject',
+        Subtype: 'Image',
+        Width: bitmap.width,
+        Height: bitmap.height,
+        ColorSpace: 'DeviceGray',
+        BitsPerComponent: 1,
+        // PBM uses 1 for black, DeviceGray uses 0 for black
+        Decode: [1, 0],
+      });
+      const imageRef = pdfDoc.context.register(image);
+      const name = page.node.newXObject('Scan', imageRef);
+
+      page.pushOperators(
+        pushGraphicsState(),
+        concatTransformationMatrix(width, 0, 0, height, 0, 0),
+        drawObject(name),
+        popGraphicsState()
+      );
+
+      pageNumber++;
+    }
+  } finally {
+    // Leave no bitmaps behind if assembly failed part-way
+    for (let n = pageNumber; ; n++) {
+      try {
+        await fs.unlink(pattern.replace('%d', String(n)));
+      } catch {
+        break;
+      }
+    }
+  }
+
+  if (pdfDoc.getPageCount() === 0) {
+    throw new Error('Ghostscript produced no pages while converting to black & white');
+  }
+
+  await fs.writeFile(outputPath, await pdfDoc.save());
+}
+
+/**
+ * Parse a raw (P4) PBM file
+ */
+function parsePbm(buffer: Buffer): Bitmap {
+  let offset = 0;
+  const tokens: string[] = [];
+
+  // Header: magic, width, height - whitespace separated, '#' starts a comment
+  while (tokens.length < 3) {
+    while (offset < buffer.length && /\s/.test(String.fromCharCode(buffer[offset]))) offset++;
+    if (buffer[offset] === 0x23) {
+      while (offset < buffer.length && buffer[offset] !== 0x0a) offset++;
+      continue;
+    }
+
+    let token = '';
+    while (offset < buffer.length && !/\s/.test(String.fromCharCode(buffer[offset]))) {
+      token += String.fromCharCode(buffer[offset++]);
+    }
+    if (!token) throw new Error('Truncated PBM header');
+    tokens.push(token);
+  }
+  offset++; // Single whitespace byte before the raster
+
+  if (tokens[0] !== 'P4') {
+    throw new Error(`Unexpected bitmap format ${tokens[0]}`);
+  }
+
+  const width = parseInt(tokens[1], 10);
+  const height = parseInt(tokens[2], 10);
+  const expected = Math.ceil(width / 8) * height;
+  const data = buffer.subarray(offset, offset + expected);
+
+  if (data.length < expected) {
+    throw new Error('Truncated PBM raster');
+  }
+
+  return { width, height, data };
+}
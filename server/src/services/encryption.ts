@@ -0,0 +1,162 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import { PDFDocument, PDFDict, PDFName, PDFNumber } from 'pdf-lib';
+import { rewriteLossless, OutputEncryption } from './ghostscript.js';
+import { runGhostscript } from './ghostscriptRunner.js';
+import { getJobPath } from '../utils/tempFiles.js';
+
+// Passwords of encrypted uploads by job ID. They are only ever held here,
+// never in the job record, a log or a file, so a restart forgets them.
+const passwords = new Map<string, string>();
+
+// How an upload was encrypted, kept on its job so compression can re-apply it
+export interface PdfEncryption {
+  // Security handler revision (/R)
+  revision: number;
+  keyLength: number;
+  // The /P permission flags
+  permissions: number;
+}
+
+// An encrypted upload and the password that opens it (empty when the file
+// only restricts permissions)
+export interface EncryptedUpload {
+  encryption: PdfEncryption;
+  password: string;
+}
+
+/**
+ * Thrown when an encrypted job's password is needed but isn't held
+ */
+export class PasswordRequiredError extends Error {
+  constructor() {
+    super('The password for this PDF is no longer available. Enter it again to continue.');
+    this.name = 'PasswordRequiredError';
+  }
+}
+
+/**
+ * Read a document's encryption settings from its /Encrypt dictionary.
+ * Returns undefined for an unencrypted document.
+ */
+export function readEncryption(pdfDoc: PDFDocument): PdfEncryption | undefined {
+  if (!pdfDoc.isEncrypted) return undefined;
+
+  const encrypt = pdfDoc.context.lookup(pdfDoc.context.trailerInfo.Encrypt);
+  const getNumber = (key: string): number | undefined => {
+    const value = encrypt instanceof PDFDict ? encrypt.lookup(PDFName.of(key)) : undefined;
+    return value instanceof PDFNumber ? value.asNumber() : undefined;
+  };
+
+  const revision = getNumber('R') ?? 2;
+  return {
+    revision,
+    // Revision 2 is always 40-bit; AES handlers (4+) don't need /Length
+    keyLength: revision === 2 ? 40 : (getNumber('Length') ?? 128),
+    // All permissions apart from the reserved bits
+    permissions: getNumber('P') ?? -4,
+  };
+}
+
+/**
+ * Whether Ghostscript can open a PDF with this password (empty for none)
+ */
+export async function opensWithPassword(pdfPath: string, password: string): Promise<boolean> {
+  try {
+    await runGhostscript(
+      [
+        '-sDEVICE=nullpage',
+        '-dNOPAUSE',
+        '-dBATCH',
+        '-dQUIET',
+        '-dFirstPage=1',
+        '-dLastPage=1',
+        // The PDF interpreter reports a wrong password on stdout
+        '-sstdout=%stderr',
+        pdfPath,
+      ],
+      'open the PDF',
+      { inputPath: pdfPath, password: password || undefined }
+    );
+    return true;
+  } catch (err) {
+    if (err instanceof Error && /password/i.test(err.message)) {
+      return false;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Hold the password for a job's encrypted upload
+ */
+export function setJobPassword(jobId: string, password: string): void {
+  passwords.set(jobId, password);
+}
+
+/**
+ * Whether a job's password is held
+ */
+export function hasJobPassword(jobId: string): boolean {
+  return passwords.has(jobId);
+}
+
+/**
+ * Drop a job's password
+ */
+export function forgetJobPassword(jobId: string): void {
+  passwords.delete(jobId);
+}
+
+/**
+ * Write a decrypted working copy of a job's encrypted upload and return its
+ * path. Estimation, compression and previews can overlap, so each run gets
+ * its own copy; the caller deletes it once the run is over.
+ */
+export async function decryptUpload(
+  jobId: string,
+  uploadPath: string,
+  run: 'estimation' | 'compression' | `preview_p${number}`
+): Promise<string> {
+  const password = passwords.get(jobId);
+  if (password === undefined) {
+    throw new PasswordRequiredError();
+  }
+
+  const decryptedPath = getJobPath(jobId, `${run}_decrypted.pdf`);
+  await rewriteLossless(uploadPath, decryptedPath, { password });
+  return decryptedPath;
+}
+
+/**
+ * Encrypt a job's output in place the way its upload was, so it opens with
+ * the same password and keeps the same permissions.
+ *
+ * The original owner password isn't known, so a random one is set: the
+ * permissions can't be lifted on the compressed copy. pdfwrite only writes
+ * RC4 encryption, so AES-encrypted uploads come back as 128-bit RC4.
+ * Returns the new file size.
+ */
+export async function reapplyEncryption(
+  jobId: string,
+  pdfPath: string,
+  encryption: PdfEncryption
+): Promise<number> {
+  const password = passwords.get(jobId);
+  if (password === undefined) {
+    throw new PasswordRequiredError();
+  }
+
+  const settings: OutputEncryption = {
+    userPassword: password,
+    ownerPassword: crypto.randomBytes(16).toString('hex'),
+    permissions: encryption.permissions,
+    revision: encryption.revision === 2 ? 2 : 3,
+    keyLength: encryption.revision === 2 ? 40 : Math.min(128, encryption.keyLength),
+  };
+
+  const encryptedPath = getJobPath(jobId, 'encrypted.pdf');
+  const result = await rewriteLossless(pdfPath, encryptedPath, { encryption: settings });
+  await fs.rename(encryptedPath, pdfPath);
+  return result.compressedSize;
+}
@@ -0,0 +1,341 @@
+import { promises as fs } from 'fs';
+import {
+  PDFDocument,
+  PDFDict,
+  PDFArray,
+  PDFName,
+  PDFRef,
+  PDFRawStream,
+  PDFObject,
+} from 'pdf-lib';
+
+// Document structures Ghostscript's pdfwrite can drop or thin out
+export type DocumentFeature =
+  | 'outlines'
+  | 'links'
+  | 'forms'
+  | 'namedDestinations'
+  | 'metadata'
+  | 'pageLabels';
+
+export interface FidelityReport {
+  // Missing from the compressed output and copied back from the input
+  regrafted: DocumentFeature[];
+  // Missing from the compressed output and not restored
+  lost: DocumentFeature[];
+  // Restoring them would have taken the output over maxSize
+  droppedForSize?: boolean;
+}
+
+export interface PreserveFeaturesOptions {
+  // Size the restored output may not exceed
+  maxSize?: number;
+  // Whether each output page is the input page with the same index. Only
+  // metadata is copied back when it isn't: everything else points at pages.
+  pagesUnchanged: boolean;
+}
+
+type FeatureCounts = Record<DocumentFeature, number>;
+
+const FEATURES: DocumentFeature[] = ['outlines', 'links', 'forms', 'namedDestinations', 'metadata', 'pageLabels'];
+// Info entries that describe the document; Producer and the dates are
+// rewritten by every tool that saves the file
+const INFO_KEYS = ['Title', 'Author', 'Subject', 'Keywords', 'Creator'];
+// Guards against cyclic or absurdly deep trees in damaged files
+const MAX_TREE_DEPTH = 64;
+
+function lookupDict(dict: PDFDict | undefined, key: string): PDFDict | undefined {
+  const value = dict?.lookup(PDFName.of(key));
+  return value instanceof PDFDict ? value : undefined;
+}
+
+function lookupArray(dict: PDFDict | undefined, key: string): PDFArray | undefined {
+  const value = dict?.lookup(PDFName.of(key));
+  return value instanceof PDFArray ? value : undefined;
+}
+
+async function loadDocument(filePath: string): Promise<PDFDocument> {
+  return PDFDocument.load(await fs.readFile(filePath), { ignoreEncryption: true, updateMetadata: false });
+}
+
+function getInfoDict(pdfDoc: PDFDocument): PDFDict | undefined {
+  const info = pdfDoc.context.lookup(pdfDoc.context.trailerInfo.Info);
+  return info instanceof PDFDict ? info : undefined;
+}
+
+/**
+ * Count outline items, following /First and /Next
+ */
+function countOutlineItems(item: PDFDict | undefined, seen = new Set<PDFDict>()): number {
+  let count = 0;
+  while (item && !seen.has(item)) {
+    seen.add(item);
+    count += 1 + countOutlineItems(lookupDict(item, 'First'), seen);
+    item = lookupDict(item, 'Next');
+  }
+  return count;
+}
+
+/**
+ * Count the entries of a name tree (/Names) or number tree (/Nums)
+ */
+function countTreeEntries(node: PDFDict | undefined, key: 'Names' | 'Nums', depth = 0): number {
+  if (!node || depth > MAX_TREE_DEPTH) return 0;
+
+  let count = Math.floor((lookupArray(node, key)?.size() ?? 0) / 2);
+  const kids = lookupArray(node, 'Kids');
+  for (let i = 0; kids && i < kids.size(); i++) {
+    const kid = kids.lookup(i);
+    count += countTreeEntries(kid instanceof PDFDict ? kid : undefined, key, depth + 1);
+  }
+  return count;
+}
+
+/**
+ * Count form fields, including the children of non-terminal fields
+ */
+function countFields(fields: PDFArray | undefined, depth = 0): number {
+  if (!fields || depth > MAX_TREE_DEPTH) return 0;
+
+  let count = 0;
+  for (let i = 0; i < fields.size(); i++) {
+    const field = fields.lookup(i);
+    if (field instanceof PDFDict) {
+      count += 1 + countFields(lookupArray(field, 'Kids'), depth + 1);
+    }
+  }
+  return count;
+}
+
+/**
+ * A page's annotations of one subtype (Link or Widget)
+ */
+function getAnnotations(page: PDFDict, subtype: 'Link' | 'Widget'): PDFObject[] {
+  const annots = lookupArray(page, 'Annots');
+  if (!annots) return [];
+
+  const matching: PDFObject[] = [];
+  for (let i = 0; i < annots.size(); i++) {
+    const annot = annots.lookup(i);
+    if (annot instanceof PDFDict && annot.lookup(PDFName.of('Subtype')) === PDFName.of(subtype)) {
+      matching.push(annots.get(i));
+    }
+  }
+  return matching;
+}
+
+/**
+ * How much of each feature a document has
+ */
+function countFeatures(pdfDoc: PDFDocument): FeatureCounts {
+  const catalog = pdfDoc.catalog;
+  const info = getInfoDict(pdfDoc);
+  const pages = pdfDoc.getPages();
+
+  return {
+    outlines: countOutlineItems(lookupDict(lookupDict(catalog, 'Outlines'), 'First')),
+    links: pages.reduce((sum, page) => sum + getAnnotations(page.node, 'Link').length, 0),
+    forms: countFields(lookupArray(lookupDict(catalog, 'AcroForm'), 'Fields')),
+    namedDestinations:
+      (lookupDict(catalog, 'Dests')?.keys().length ?? 0) +
+      countTreeEntries(lookupDict(lookupDict(catalog, 'Names'), 'Dests'), 'Names'),
+    metadata:
+      INFO_KEYS.filter((key) => info?.has(PDFName.of(key))).length +
+      (catalog.has(PDFName.of('Metadata')) ? 1 : 0),
+    pageLabels: countTreeEntries(lookupDict(catalog, 'PageLabels'), 'Nums'),
+  };
+}
+
+/**
+ * Copies objects from the input into the output, pointing references to
+ * input pages at the output page with the same index
+ */
+class Grafter {
+  private copies = new Map<string, PDFRef>();
+
+  constructor(private source: PDFDocument, private target: PDFDocument) {
+    const targetPages = target.getPages();
+    source.getPages().forEach((page, i) => {
+      if (targetPages[i]) this.copies.set(page.ref.tag, targetPages[i].ref);
+    });
+  }
+
+  copy(obj: PDFObject): PDFObject {
+    if (obj instanceof PDFRef) {
+      const existing = this.copies.get(obj.tag);
+      if (existing) return existing;
+
+      const ref = this.target.context.nextRef();
+      this.copies.set(obj.tag, ref);
+      const resolved = this.source.context.lookup(obj);
+      if (resolved) this.target.context.assign(ref, this.copy(resolved));
+      return ref;
+    }
+
+    if (obj instanceof PDFDict) {
+      const dict = PDFDict.withContext(this.target.context);
+      for (const [key, value] of obj.entries()) dict.set(key, this.copy(value));
+      return dict;
+    }
+
+    if (obj instanceof PDFArray) {
+      const array = PDFArray.withContext(this.target.context);
+      for (const value of obj.asArray()) array.push(this.copy(value));
+      return array;
+    }
+
+    if (obj instanceof PDFRawStream) {
+      return PDFRawStream.of(this.copy(obj.dict) as PDFDict, obj.contents);
+    }
+
+    // Names, numbers, strings and the like are immutable
+    return obj;
+  }
+}
+
+/**
+ * Replace a page's annotations of one subtype with the input page's
+ */
+function regraftAnnotations(
+  grafter: Grafter,
+  sourcePage: PDFDict,
+  targetPage: PDFDict,
+  subtype: 'Link' | 'Widget'
+): void {
+  const kept = lookupArray(targetPage, 'Annots')?.asArray().filter((annot) => {
+    const resolved = targetPage.context.lookup(annot);
+    return !(resolved instanceof PDFDict && resolved.lookup(PDFName.of('Subtype')) === PDFName.of(subtype));
+  }) ?? [];
+
+  const annots = PDFArray.withContext(targetPage.context);
+  for (const annot of kept) annots.push(annot);
+  for (const annot of getAnnotations(sourcePage, subtype)) annots.push(grafter.copy(annot));
+  if (annots.size() > 0) {
+    targetPage.set(PDFName.of('Annots'), annots);
+  }
+}
+
+/**
+ * Copy one feature from the input to the output
+ */
+function regraft(feature: DocumentFeature, source: PDFDocument, target: PDFDocument, grafter: Grafter): void {
+  const copyCatalogEntry = (key: string) => {
+    const value = source.catalog.get(PDFName.of(key));
+    if (value) target.catalog.set(PDFName.of(key), grafter.copy(value));
+  };
+
+  switch (feature) {
+    case 'outlines':
+      copyCatalogEntry('Outlines');
+      if (!target.catalog.has(PDFName.of('PageMode'))) copyCatalogEntry('PageMode');
+      break;
+
+    case 'namedDestinations': {
+      copyCatalogEntry('Dests');
+      const dests = lookupDict(source.catalog, 'Names')?.get(PDFName.of('Dests'));
+      if (dests) {
+        let names = lookupDict(target.catalog, 'Names');
+        if (!names) {
+          names = target.context.obj({});
+          target.catalog.set(PDFName.of('Names'), target.context.register(names));
+        }
+        names.set(PDFName.of('Dests'), grafter.copy(dests));
+      }
+      break;
+    }
+
+    case 'pageLabels':
+      copyCatalogEntry('PageLabels');
+      break;
+
+    case 'links':
+    case 'forms': {
+      const subtype = feature === 'links' ? 'Link' : 'Widget';
+      const targetPages = target.getPages();
+      source.getPages().forEach((page, i) => {
+        regraftAnnotations(grafter, page.node, targetPages[i].node, subtype);
+      });
+      // Widgets and fields are often the same objects, so this reuses the copies
+      if (feature === 'forms') copyCatalogEntry('AcroForm');
+      break;
+    }
+
+    case 'metadata': {
+      const sourceInfo = getInfoDict(source);
+      let targetInfo = getInfoDict(target);
+      if (sourceInfo && !targetInfo) {
+        targetInfo = target.context.obj({});
+        target.context.trailerInfo.Info = target.context.register(targetInfo);
+      }
+      for (const key of INFO_KEYS) {
+        const value = sourceInfo?.get(PDFName.of(key));
+        if (value && targetInfo && !targetInfo.has(PDFName.of(key))) {
+          targetInfo.set(PDFName.of(key), grafter.copy(value));
+        }
+      }
+      if (!target.catalog.has(PDFName.of('Metadata'))) copyCatalogEntry('Metadata');
+      break;
+    }
+  }
+}
+
+/**
+ * Features the output has less of than the input
+ */
+function findMissing(sourceCounts: FeatureCounts, targetCounts: FeatureCounts): DocumentFeature[] {
+  return FEATURES.filter((feature) => targetCounts[feature] < sourceCounts[feature]);
+}
+
+/**
+ * Check that a compressed PDF kept the input's outlines, links, form fields,
+ * named destinations, metadata and page labels, and copy back whatever
+ * pdfwrite dropped.
+ *
+ * Features tied to pages are only copied when the output's pages are the
+ * input's. The output is rewritten only if something was restored, and left
+ * alone if the restored file would be larger than `maxSize`.
+ */
+export async function preserveDocumentFeatures(
+  inputPath: string,
+  outputPath: string,
+  options: PreserveFeaturesOptions
+): Promise<FidelityReport> {
+  const [source, target] = await Promise.all([loadDocument(inputPath), loadDocument(outputPath)]);
+
+  const sourceCounts = countFeatures(source);
+  const missing = findMissing(sourceCounts, countFeatures(target));
+  if (missing.length === 0) {
+    return { regrafted: [], lost: [] };
+  }
+
+  const samePages = options.pagesUnchanged && source.getPageCount() === target.getPageCount();
+  const grafter = new Grafter(source, target);
+  for (const feature of missing) {
+    if (samePages || feature === 'metadata') {
+      regraft(feature, source, target, grafter);
+    }
+  }
+
+  const lost = findMissing(sourceCounts, countFeatures(target));
+  const regrafted = missing.filter((feature) => !lost.includes(feature));
+  if (regrafted.length === 0) {
+    return { regrafted: [], lost };
+  }
+
+  const bytes = await target.save();
+  if (options.maxSize !== undefined && bytes.length > options.maxSize) {
+    return { regrafted: [], lost: missing, droppedForSize: true };
+  }
+
+  await fs.writeFile(outputPath, bytes);
+  return { regrafted, lost };
+}
+
+/**
+ * Features the output has less of than the input, without changing anything.
+ * Works on encrypted output too: only strings and streams are encrypted.
+ */
+export async function findLostFeatures(inputPath: string, outputPath: string): Promise<DocumentFeature[]> {
+  const [source, target] = await Promise.all([loadDocument(inputPath), loadDocument(outputPath)]);
+  return findMissing(countFeatures(source), countFeatures(target));
+}
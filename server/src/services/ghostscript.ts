@@ -1,16 +1,76 @@
-import { spawn } from 'child_process';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { MB } from '../utils/sizeUtils.js';
+import { runGhostscript } from './ghostscriptRunner.js';
+
+// Ends of the continuous quality scale. Quality 1 maps to the MIN_* values,
+// quality 100 to the MAX_* values, and everything in between is interpolated
+// so that each integer quality yields distinct distiller parameters.
+const MIN_IMAGE_DPI = 36;
+const MAX_IMAGE_DPI = 300;
+const MIN_MONO_DPI = 150;
+const MAX_MONO_DPI = 600;
+// Ghostscript/Distiller QFactor: 0.15 ~ Acrobat "maximum", 2.4 ~ "minimum"
+const MAX_QFACTOR = 2.4;
+const MIN_QFACTOR = 0.15;
+const MIN_DOWNSAMPLE_THRESHOLD = 1.0;
+const MAX_DOWNSAMPLE_THRESHOLD = 1.5;
+// At and above this quality JPEG chroma is kept at full resolution
+const FULL_CHROMA_QUALITY = 80;
+
+export interface DistillerParams {
+  colorImageResolution: number;
+  grayImageResolution: number;
+  monoImageResolution: number;
+  // DCT quantisation factor for the image dictionaries; pdfwrite ignores
+  // -dJPEGQ, so this is what sets JPEG quality
+  qFactor: number;
+  chromaSubsampling: boolean;
+  downsampleThreshold: number;
+  monoImageFilter: '/CCITTFaxEncode' | '/FlateEncode';
+}
+
+/**
+ * Map quality (1-100) to explicit Ghostscript distiller parameters.
+ *
+ * Every parameter moves monotonically with quality, so a higher quality
+ * never produces a smaller file than a lower one (for the same input).
+ */
+export function getDistillerParams(quality: number): DistillerParams {
+  const q = Math.max(1, Math.min(100, Math.round(quality)));
+  const t = (q - 1) / 99; // 0 at quality 1, 1 at quality 100
 
-// Quality presets map to Ghostscript PDFSETTINGS
-// We use custom dPDFSETTINGS with image quality controls for finer control
-const QUALITY_PRESETS = {
-  screen: { dpi: 72, imageQuality: 25 },    // ~25% quality
-  ebook: { dpi: 150, imageQuality: 50 },    // ~50% quality
-  printer: { dpi: 200, imageQuality: 75 },  // ~75% quality
-  prepress: { dpi: 300, imageQuality: 100 }, // ~100% quality
-};
+  const imageDpi = Math.round(MIN_IMAGE_DPI + (MAX_IMAGE_DPI - MIN_IMAGE_DPI) * t);
+
+  return {
+    colorImageResolution: imageDpi,
+    grayImageResolution: imageDpi,
+    monoImageResolution: Math.round(MIN_MONO_DPI + (MAX_MONO_DPI - MIN_MONO_DPI) * t),
+    // Geometric interpolation: QFactor's effect on size is roughly logarithmic
+    qFactor: Number((MAX_QFACTOR * Math.pow(MIN_QFACTOR / MAX_QFACTOR, t)).toFixed(3)),
+    chromaSubsampling: q < FULL_CHROMA_QUALITY,
+    downsampleThreshold: Number(
+      (MIN_DOWNSAMPLE_THRESHOLD + (MAX_DOWNSAMPLE_THRESHOLD - MIN_DOWNSAMPLE_THRESHOLD) * t).toFixed(3)
+    ),
+    // CCITT G4 is lossless for bilevel images and almost always the smallest choice
+    monoImageFilter: '/CCITTFaxEncode',
+  };
+}
+
+/**
+ * Build the PostScript fragment that sets the DCT dictionaries.
+ * These can't be passed as -d switches, so they go through setdistillerparams.
+ */
+function buildImageDictPostScript(params: DistillerParams): string {
+  const samples = params.chromaSubsampling ? '[2 1 1 2]' : '[1 1 1 1]';
+  const dict = `<< /QFactor ${params.qFactor} /Blend 1 /HSamples ${samples} /VSamples ${samples} >>`;
+  const grayDict = `<< /QFactor ${params.qFactor} /Blend 1 /HSamples [1 1 1 1] /VSamples [1 1 1 1] >>`;
+
+  return (
+    `<< /ColorACSImageDict ${dict} /ColorImageDict ${dict} ` +
+    `/GrayACSImageDict ${grayDict} /GrayImageDict ${grayDict} >> setdistillerparams`
+  );
+}
 
 export interface CompressionResult {
   outputPath: string;
@@ -23,48 +83,53 @@ export interface PageInfo {
   pageCount: number;
 }
 
-/**
- * Get the page count of a PDF file
- */
-export async function getPageCount(pdfPath: string): Promise<number> {
-  return new Promise((resolve, reject) => {
-    const args = [
-      '-q',
-      '-dNODISPLAY',
-      '-dNOSAFER',
-      '-c',
-      `(${pdfPath}) (r) file runpdfbegin pdfpagecount = quit`,
-    ];
-
-    const gs = spawn('gs', args);
-    let output = '';
-    let errorOutput = '';
-
-    gs.stdout.on('data', (data) => {
-      output += data.toString();
-    });
+// 'keep' leaves colour spaces alone, 'grayscale' converts everything to
+// DeviceGray, 'mono' turns pages into black & white scans (see colorConversion.ts)
+export type ColorConversion = 'keep' | 'grayscale' | 'mono';
 
-    gs.stderr.on('data', (data) => {
-      errorOutput += data.toString();
-    });
+// Page a Ghostscript run has reached. Ghostscript announces a page when it
+// starts on it, so `page - 1` pages are finished.
+export interface PageProgress {
+  page: number;
+  pageCount: number;
+}
 
-    gs.on('close', (code) => {
-      if (code !== 0) {
-        reject(new Error(`Ghostscript failed to get page count: ${errorOutput}`));
-        return;
-      }
-      const pageCount = parseInt(output.trim(), 10);
-      if (isNaN(pageCount)) {
-        reject(new Error('Failed to parse page count'));
-        return;
+export interface CompressPdfOptions {
+  colorConversion?: ColorConversion;
+  onProgress?: (progress: PageProgress) => void;
+}
+
+// Report at most this often; a fast run can print hundreds of pages a second
+const PAGE_PROGRESS_INTERVAL_MS = 250;
+
+/**
+ * Build a stdout handler that follows Ghostscript's "Processing pages 1
+ * through N." and "Page N" lines
+ */
+function createPageProgressParser(onProgress?: (progress: PageProgress) => void): (data: Buffer) => void {
+  let pending = '';
+  let pageCount = 0;
+  let lastReport = 0;
+
+  return (data) => {
+    pending += data.toString();
+    const lines = pending.split('\n');
+    pending = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const range = line.trim().match(/^Processing pages (\d+) through (\d+)\.$/);
+      if (range) {
+        pageCount = Number(range[2]) - Number(range[1]) + 1;
+        continue;
       }
-      resolve(pageCount);
-    });
 
-    gs.on('error', (err) => {
-      reject(new Error(`Failed to spawn Ghostscript: ${err.message}`));
-    });
-  });
+      const page = line.trim().match(/^Page (\d+)$/);
+      if (page && pageCount > 0 && Date.now() - lastReport >= PAGE_PROGRESS_INTERVAL_MS) {
+        lastReport = Date.now();
+        onProgress?.({ page: Math.min(Number(page[1]), pageCount), pageCount });
+      }
+    }
+  };
 }
 
 /**
@@ -78,36 +143,158 @@ export async function extractPages(
   // Ghostscript uses 1-based page numbers
   const pageRanges = pageNumbers.map(p => p + 1).join(',');
 
-  return new Promise((resolve, reject) => {
-    const args = [
-      '-sDEVICE=pdfwrite',
-      '-dNOPAUSE',
-      '-dBATCH',
-      '-dQUIET',
-      `-sPageList=${pageRanges}`,
-      `-sOutputFile=${outputPath}`,
-      inputPath,
-    ];
-
-    const gs = spawn('gs', args);
-    let errorOutput = '';
-
-    gs.stderr.on('data', (data) => {
-      errorOutput += data.toString();
-    });
+  const args = [
+    '-sDEVICE=pdfwrite',
+    '-dNOPAUSE',
+    '-dBATCH',
+    '-dQUIET',
+    `-sPageList=${pageRanges}`,
+    `-sOutputFile=${outputPath}`,
+    inputPath,
+  ];
+
+  await runGhostscript(args, 'extract pages', { inputPath, outputPath });
+}
 
-    gs.on('close', (code) => {
-      if (code !== 0) {
-        reject(new Error(`Ghostscript failed to extract pages: ${errorOutput}`));
-        return;
-      }
-      resolve();
-    });
+/**
+ * Count a PDF's pages with Ghostscript, which repairs damaged files as it
+ * reads them. For files whose page tree can't be parsed: the file is run
+ * through the null device like any other input, sandboxed, and the count
+ * read from Ghostscript's own report. Encrypted files need their `password`.
+ */
+export async function countPages(inputPath: string, password?: string): Promise<number> {
+  // Not quiet: the count is in the "Processing pages 1 through N." line
+  const output = await runGhostscript(
+    ['-sDEVICE=nullpage', '-dNOPAUSE', '-dBATCH', inputPath],
+    'count pages',
+    { inputPath, password: password || undefined }
+  );
 
-    gs.on('error', (err) => {
-      reject(new Error(`Failed to spawn Ghostscript: ${err.message}`));
-    });
-  });
+  const match = output.match(/^Processing pages \d+ through (\d+)\./m);
+  if (!match) {
+    throw new Error(`Ghostscript failed to count pages: ${output.trim()}`);
+  }
+  return Number(match[1]);
+}
+
+/**
+ * Ghostscript switches for a colour conversion. Mono documents have already
+ * been rasterized to bilevel images by the time they get here, so they only
+ * need the gray colour model for whatever is left (e.g. annotations).
+ */
+function getColorConversionArgs(colorConversion: ColorConversion = 'keep'): string[] {
+  if (colorConversion === 'keep') {
+    return [];
+  }
+
+  return [
+    '-sColorConversionStrategy=Gray',
+    '-dProcessColorModel=/DeviceGray',
+  ];
+}
+
+/**
+ * Render pages to raw PBM (bilevel) bitmaps, one file per page.
+ * @param outputPattern Output path containing %d, replaced with the 1-based page number
+ */
+export async function renderMonoPages(
+  inputPath: string,
+  outputPattern: string,
+  dpi: number
+): Promise<void> {
+  const args = [
+    '-sDEVICE=pbmraw',
+    '-dNOPAUSE',
+    '-dBATCH',
+    '-dQUIET',
+    '-dUseCropBox',
+    `-r${dpi}`,
+    `-sOutputFile=${outputPattern}`,
+    inputPath,
+  ];
+
+  await runGhostscript(args, 'render pages', { inputPath, outputPath: outputPattern });
+}
+
+/**
+ * Render pages to anti-aliased 8-bit grayscale PGM bitmaps, one file per
+ * page, as a viewer would show them.
+ * @param outputPattern Output path containing %d, replaced with the 1-based page number
+ * @param page Render only this 1-based page, to `outputPattern` as it is
+ */
+export async function renderGrayPages(
+  inputPath: string,
+  outputPattern: string,
+  dpi: number,
+  page?: number
+): Promise<void> {
+  const args = [
+    '-sDEVICE=pgmraw',
+    '-dNOPAUSE',
+    '-dBATCH',
+    '-dQUIET',
+    '-dUseCropBox',
+    ...(page !== undefined ? [`-dFirstPage=${page}`, `-dLastPage=${page}`] : []),
+    '-dTextAlphaBits=4',
+    '-dGraphicsAlphaBits=4',
+    `-r${dpi}`,
+    `-sOutputFile=${outputPattern}`,
+    inputPath,
+  ];
+
+  await runGhostscript(args, 'render pages', { inputPath, outputPath: outputPattern });
+}
+
+/**
+ * Render the first page of a PDF to an anti-aliased 24-bit PNG, as a
+ * viewer would show it
+ */
+export async function renderPagePng(
+  inputPath: string,
+  outputPath: string,
+  dpi: number
+): Promise<void> {
+  const args = [
+    '-sDEVICE=png16m',
+    '-dNOPAUSE',
+    '-dBATCH',
+    '-dQUIET',
+    '-dUseCropBox',
+    '-dFirstPage=1',
+    '-dLastPage=1',
+    '-dTextAlphaBits=4',
+    '-dGraphicsAlphaBits=4',
+    `-r${dpi}`,
+    `-sOutputFile=${outputPath}`,
+    inputPath,
+  ];
+
+  await runGhostscript(args, 'render preview', { inputPath, outputPath });
+}
+
+/**
+ * Render every page to a single JPEG image in a new PDF.
+ * Pages keep their size; only the resolution of what's on them drops.
+ */
+export async function renderImagePages(
+  inputPath: string,
+  outputPath: string,
+  dpi: number,
+  jpegQuality: number
+): Promise<void> {
+  const args = [
+    '-sDEVICE=pdfimage24',
+    '-dNOPAUSE',
+    '-dBATCH',
+    '-dQUIET',
+    '-dUseCropBox',
+    `-r${dpi}`,
+    `-dJPEGQ=${jpegQuality}`,
+    `-sOutputFile=${outputPath}`,
+    inputPath,
+  ];
+
+  await runGhostscript(args, 'render pages', { inputPath, outputPath });
 }
 
 /**
@@ -115,102 +302,179 @@ export async function extractPages(
  * @param inputPath Path to input PDF
  * @param outputPath Path for output PDF
  * @param quality Quality level 1-100 (higher = better quality, larger file)
- * @param onProgress Optional progress callback
+ * @param options Colour conversion and optional page progress callback
  */
 export async function compressPdf(
   inputPath: string,
   outputPath: string,
   quality: number,
-  onProgress?: (percent: number) => void
+  options: CompressPdfOptions = {}
 ): Promise<CompressionResult> {
   const originalStats = await fs.stat(inputPath);
   const originalSize = originalStats.size;
 
-  // Map quality (1-100) to Ghostscript PDFSETTINGS presets
-  // Lower quality = more compression = smaller file
-  let pdfSettings: string;
-  let dpi: number;
-
-  if (quality <= 25) {
-    pdfSettings = '/screen';  // Aggressive compression (72 DPI)
-    dpi = 72;
-  } else if (quality <= 50) {
-    pdfSettings = '/ebook';   // Moderate compression (150 DPI)
-    dpi = 100;
-  } else if (quality <= 75) {
-    pdfSettings = '/ebook';   // Light compression
-    dpi = 150;
-  } else {
-    pdfSettings = '/printer'; // Minimal compression (300 DPI)
-    dpi = 200;
-  }
+  // Map quality (1-100) to explicit image parameters
+  // Lower quality = lower resolution and coarser JPEG = smaller file
+  const params = getDistillerParams(quality);
+
+  const args = [
+    '-sDEVICE=pdfwrite',
+    '-dCompatibilityLevel=1.4',
+    '-dNOPAUSE',
+    '-dBATCH',
+    `-dColorImageResolution=${params.colorImageResolution}`,
+    `-dGrayImageResolution=${params.grayImageResolution}`,
+    `-dMonoImageResolution=${params.monoImageResolution}`,
+    '-dDownsampleColorImages=true',
+    '-dDownsampleGrayImages=true',
+    '-dDownsampleMonoImages=true',
+    `-dColorImageDownsampleThreshold=${params.downsampleThreshold}`,
+    `-dGrayImageDownsampleThreshold=${params.downsampleThreshold}`,
+    `-dMonoImageDownsampleThreshold=${params.downsampleThreshold}`,
+    '-dColorImageDownsampleType=/Bicubic',
+    '-dGrayImageDownsampleType=/Bicubic',
+    '-dMonoImageDownsampleType=/Subsample',
+    // Let Ghostscript choose JPEG vs lossless per image (photos vs line art),
+    // the ACS dictionaries below control how hard the JPEG path compresses
+    '-dAutoFilterColorImages=true',
+    '-dAutoFilterGrayImages=true',
+    '-dEncodeMonoImages=true',
+    `-dMonoImageFilter=${params.monoImageFilter}`,
+    '-dAutoRotatePages=/None',
+    '-dEmbedAllFonts=true',
+    '-dSubsetFonts=true',
+    '-dCompressFonts=true',
+    ...getColorConversionArgs(options.colorConversion),
+    `-sOutputFile=${outputPath}`,
+    '-c',
+    buildImageDictPostScript(params),
+    '-f',
+    inputPath,
+  ];
+
+  // Without -dQUIET Ghostscript reports each page it starts on stdout
+  await runGhostscript(args, 'compress', {
+    inputPath,
+    outputPath,
+    onStdout: createPageProgressParser(options.onProgress),
+  });
 
-  return new Promise((resolve, reject) => {
-    const args = [
-      '-sDEVICE=pdfwrite',
-      '-dCompatibilityLevel=1.4',
-      '-dNOPAUSE',
-      '-dBATCH',
-      `-dPDFSETTINGS=${pdfSettings}`,
-      `-dColorImageResolution=${dpi}`,
-      `-dGrayImageResolution=${dpi}`,
-      `-dMonoImageResolution=${dpi}`,
-      '-dDownsampleColorImages=true',
-      '-dDownsampleGrayImages=true',
-      '-dDownsampleMonoImages=true',
-      `-dColorImageDownsampleThreshold=1.0`,
-      `-dGrayImageDownsampleThreshold=1.0`,
-      '-dColorImageDownsampleType=/Bicubic',
-      '-dGrayImageDownsampleType=/Bicubic',
-      '-dMonoImageDownsampleType=/Subsample',
-      '-dAutoRotatePages=/None',
-      '-dEmbedAllFonts=true',
-      '-dSubsetFonts=true',
-      '-dCompressFonts=true',
-      `-sOutputFile=${outputPath}`,
-      inputPath,
-    ];
-
-    const gs = spawn('gs', args);
-    let errorOutput = '';
-
-    gs.stderr.on('data', (data) => {
-      errorOutput += data.toString();
-      // Try to parse progress from Ghostscript output
-      // Note: GS doesn't provide great progress info, this is best effort
-    });
+  const compressedStats = await fs.stat(outputPath);
+  const compressedSize = compressedStats.size;
 
-    gs.on('close', async (code) => {
-      if (code !== 0) {
-        reject(new Error(`Ghostscript compression failed: ${errorOutput}`));
-        return;
-      }
+  return {
+    outputPath,
+    originalSize,
+    compressedSize,
+    compressionRatio: originalSize > 0 ? compressedSize / originalSize : 1,
+  };
+}
 
-      try {
-        const compressedStats = await fs.stat(outputPath);
-        const compressedSize = compressedStats.size;
-
-        resolve({
-          outputPath,
-          originalSize,
-          compressedSize,
-          compressionRatio: originalSize > 0 ? compressedSize / originalSize : 1,
-        });
-      } catch (err) {
-        reject(new Error(`Failed to stat compressed file: ${err}`));
-      }
-    });
+// Standard security handler settings for pdfwrite's output
+export interface OutputEncryption {
+  userPassword: string;
+  ownerPassword: string;
+  // The /P permission flags
+  permissions: number;
+  // Security handler revision; pdfwrite writes 2 (40-bit RC4) or 3 (RC4 up to 128-bit)
+  revision: 2 | 3;
+  keyLength: number;
+}
 
-    gs.on('error', (err) => {
-      reject(new Error(`Failed to spawn Ghostscript: ${err.message}`));
-    });
+export interface LosslessRewriteOptions {
+  // Opens an encrypted input
+  password?: string;
+  // Encrypts the output; otherwise it is written unencrypted
+  encryption?: OutputEncryption;
+}
+
+/**
+ * -d switches that make pdfwrite encrypt its output. The passwords go
+ * separately, in getEncryptionSecrets.
+ */
+function getEncryptionArgs(encryption?: OutputEncryption): string[] {
+  if (!encryption) return [];
+  return [
+    `-dPermissions=${encryption.permissions}`,
+    `-dEncryptionR=${encryption.revision}`,
+    `-dKeyLength=${encryption.keyLength}`,
+  ];
+}
+
+/**
+ * -s switches with the output's passwords
+ */
+function getEncryptionSecrets(encryption?: OutputEncryption): string[] {
+  if (!encryption) return [];
+  return [`-sOwnerPassword=${encryption.ownerPassword}`, `-sUserPassword=${encryption.userPassword}`];
+}
+
+/**
+ * Rewrite a PDF through Ghostscript without touching image data.
+ *
+ * JPEG/JPEG2000 images are passed through as-is and other images are only
+ * re-encoded with Flate, so pixels are never resampled or requantised.
+ * pdfwrite still drops unused resources, subsets fonts, merges duplicate
+ * images and writes object/xref streams.
+ */
+export async function rewriteLossless(
+  inputPath: string,
+  outputPath: string,
+  options: LosslessRewriteOptions = {}
+): Promise<CompressionResult> {
+  const originalStats = await fs.stat(inputPath);
+  const originalSize = originalStats.size;
+
+  const args = [
+    '-sDEVICE=pdfwrite',
+    '-dCompatibilityLevel=1.5', // Object streams need PDF 1.5
+    '-dNOPAUSE',
+    '-dBATCH',
+    '-dQUIET',
+    '-dDownsampleColorImages=false',
+    '-dDownsampleGrayImages=false',
+    '-dDownsampleMonoImages=false',
+    '-dAutoFilterColorImages=false',
+    '-dAutoFilterGrayImages=false',
+    '-dColorImageFilter=/FlateEncode',
+    '-dGrayImageFilter=/FlateEncode',
+    '-dPassThroughJPEGImages=true',
+    '-dPassThroughJPXImages=true',
+    '-sColorConversionStrategy=LeaveColorUnchanged',
+    '-dDetectDuplicateImages=true',
+    '-dCompressStreams=true',
+    '-dCompressFonts=true',
+    '-dEmbedAllFonts=true',
+    '-dSubsetFonts=true',
+    '-dWriteObjStms=true',
+    '-dWriteXRefStm=true',
+    '-dAutoRotatePages=/None',
+    ...getEncryptionArgs(options.encryption),
+    `-sOutputFile=${outputPath}`,
+    inputPath,
+  ];
+
+  await runGhostscript(args, 'rewrite losslessly', {
+    inputPath,
+    outputPath,
+    password: options.password || undefined,
+    secretArgs: getEncryptionSecrets(options.encryption),
   });
+
+  const rewrittenStats = await fs.stat(outputPath);
+  return {
+    outputPath,
+    originalSize,
+    compressedSize: rewrittenStats.size,
+    compressionRatio: originalSize > 0 ? rewrittenStats.size / originalSize : 1,
+  };
 }
 
 // Size verification gate configuration
-const MAX_RECOMPRESSION_ATTEMPTS = 3;
-const QUALITY_REDUCTION_PER_ATTEMPT = 5; // Reduce quality by 5% each attempt
+const MAX_RECOMPRESSION_ATTEMPTS = Number(process.env.MAX_COMPRESSION_ATTEMPTS) || 7; // ~log2(100)
+const TARGET_SIZE_TOLERANCE = Number(process.env.TARGET_SIZE_TOLERANCE) || 0.05; // Stop within 5% under target
 const MIN_QUALITY = 1; // Absolute minimum quality
+const MAX_QUALITY = 100;
 
 export interface VerifiedCompressionResult extends CompressionResult {
   quality: number;
@@ -218,98 +482,189 @@ export interface VerifiedCompressionResult extends CompressionResult {
   verificationPassed: boolean;
 }
 
+export interface TargetSearchOptions {
+  // First quality to try (usually the sampler's recommendation)
+  initialQuality?: number;
+  // Quality range the sampler expects the answer in. Only a hint: the
+  // search widens to 1-100 if the bracket turns out to be wrong.
+  bracket?: { low: number; high: number };
+  // Accept a passing result once it is within this fraction under target
+  tolerance?: number;
+  maxAttempts?: number;
+  colorConversion?: ColorConversion;
+  onProgress?: (percent: number, message: string, pages?: PageProgress) => void;
+}
+
 /**
  * Compress a PDF to target size with verification gate.
  *
- * This function guarantees the output file will be ≤ targetSizeBytes.
- * If the initial compression exceeds target, it automatically recompresses
- * with progressively tighter settings until target is achieved or max
- * attempts are reached.
+ * This function guarantees the output file will be ≤ targetSizeBytes
+ * whenever any quality can achieve it. It bisects the quality space,
+ * keeping the best passing output, until a result lands within the
+ * tolerance under target, the search interval is exhausted, or the
+ * attempt budget runs out - so the user gets the highest quality that
+ * fits rather than the first file that fits.
  *
- * THE USER NEVER SEES A FILE THAT EXCEEDS THEIR TARGET.
+ * THE USER NEVER SEES A FILE THAT EXCEEDS THEIR TARGET (unless even
+ * quality 1 is too big, in which case verificationPassed is false).
  */
 export async function compressToTargetSize(
   inputPath: string,
   outputPath: string,
   targetSizeBytes: number,
-  quality: number = 50,
-  onProgress?: (percent: number, message: string) => void
+  options: TargetSearchOptions = {}
 ): Promise<VerifiedCompressionResult> {
-  let currentQuality = quality;
+  const {
+    initialQuality = 50,
+    bracket,
+    tolerance = TARGET_SIZE_TOLERANCE,
+    maxAttempts = MAX_RECOMPRESSION_ATTEMPTS,
+    colorConversion,
+    onProgress,
+  } = options;
+
+  // Invariant: the answer lies strictly between highestPass and lowestFail
+  let highestPass = MIN_QUALITY - 1;
+  let lowestFail = MAX_QUALITY + 1;
+  let best: { quality: number; result: CompressionResult } | null = null;
+  let smallestFail: { quality: number; result: CompressionResult } | null = null;
+  const tried = new Set<number>();
+
+  let quality = clampQuality(initialQuality);
   let attempts = 0;
-  let result: CompressionResult | null = null;
 
   // Calculate progress segments: each attempt gets equal share of 10-90%
-  const progressPerAttempt = 80 / MAX_RECOMPRESSION_ATTEMPTS;
+  const progressPerAttempt = 80 / maxAttempts;
 
-  while (attempts < MAX_RECOMPRESSION_ATTEMPTS) {
+  while (attempts < maxAttempts) {
     attempts++;
+    tried.add(quality);
 
     const attemptStartProgress = 10 + (attempts - 1) * progressPerAttempt;
     const attemptEndProgress = 10 + attempts * progressPerAttempt;
 
-    onProgress?.(
-      attemptStartProgress,
-      attempts === 1
-        ? `Compressing at quality ${currentQuality}%...`
-        : `Recompressing at quality ${currentQuality}% (attempt ${attempts}/${MAX_RECOMPRESSION_ATTEMPTS})...`
-    );
-
-    // Compress the PDF
-    result = await compressPdf(inputPath, outputPath, currentQuality);
+    const attemptMessage = attempts === 1
+      ? `Compressing at quality ${quality}%`
+      : `Refining at quality ${quality}% (attempt ${attempts}/${maxAttempts})`;
+    onProgress?.(attemptStartProgress, `${attemptMessage}...`);
+
+    const attemptPath = outputPath.replace(/\.pdf$/i, '') + `_q${quality}.pdf`;
+    const result = await compressPdf(inputPath, attemptPath, quality, {
+      colorConversion,
+      // Pages move progress through this attempt's share
+      onProgress: (pages) => onProgress?.(
+        Math.round(attemptStartProgress +
+          (attemptEndProgress - 5 - attemptStartProgress) * ((pages.page - 1) / pages.pageCount)),
+        `${attemptMessage} - page ${pages.page} of ${pages.pageCount}...`,
+        pages
+      ),
+    });
 
     onProgress?.(attemptEndProgress - 5, 'Verifying file size...');
 
     // VERIFICATION GATE: Check if we hit the target
     if (result.compressedSize <= targetSizeBytes) {
-      // Success! File is under target
       console.log(
         `✓ Verification passed: ${(result.compressedSize / MB).toFixed(2)}MB ` +
         `≤ target ${(targetSizeBytes / MB).toFixed(2)}MB ` +
-        `(attempt ${attempts}, quality ${currentQuality}%)`
+        `(attempt ${attempts}, quality ${quality}%)`
       );
 
-      onProgress?.(100, 'Compression complete');
+      highestPass = quality;
+      if (best) await removeQuietly(best.result.outputPath);
+      best = { quality, result };
+      if (smallestFail) {
+        await removeQuietly(smallestFail.result.outputPath);
+        smallestFail = null;
+      }
+
+      // Close enough to target - more attempts would gain little quality
+      if (result.compressedSize >= targetSizeBytes * (1 - tolerance)) break;
+    } else {
+      console.log(
+        `✗ Verification failed: ${(result.compressedSize / MB).toFixed(2)}MB ` +
+        `> target ${(targetSizeBytes / MB).toFixed(2)}MB ` +
+        `(attempt ${attempts}, quality ${quality}%)`
+      );
 
-      return {
-        ...result,
-        quality: currentQuality,
-        attempts,
-        verificationPassed: true,
-      };
+      lowestFail = quality;
+      if (!best && (!smallestFail || result.compressedSize < smallestFail.result.compressedSize)) {
+        if (smallestFail) await removeQuietly(smallestFail.result.outputPath);
+        smallestFail = { quality, result };
+      } else {
+        await removeQuietly(result.outputPath);
+      }
     }
 
-    // File exceeds target - need to recompress
-    console.log(
-      `✗ Verification failed: ${(result.compressedSize / MB).toFixed(2)}MB ` +
-      `> target ${(targetSizeBytes / MB).toFixed(2)}MB ` +
-      `(attempt ${attempts}, quality ${currentQuality}%)`
-    );
+    // Interval exhausted: highestPass is the best achievable quality
+    if (lowestFail - highestPass <= 1) break;
 
-    // Reduce quality for next attempt
-    currentQuality = Math.max(MIN_QUALITY, currentQuality - QUALITY_REDUCTION_PER_ATTEMPT);
+    quality = nextProbe(highestPass, lowestFail, bracket, tried);
+  }
 
-    // If we're already at minimum quality and still over target, no point continuing
-    if (currentQuality === MIN_QUALITY && attempts > 1) {
-      console.log('Already at minimum quality, cannot compress further');
-      break;
-    }
+  if (best) {
+    await fs.rename(best.result.outputPath, outputPath);
+    onProgress?.(100, 'Compression complete');
+
+    return {
+      ...best.result,
+      outputPath,
+      quality: best.quality,
+      attempts,
+      verificationPassed: true,
+    };
   }
 
-  // If we get here, we've exhausted all attempts
-  // Return the best result we have, but mark verification as failed
+  // Nothing fit. Return the smallest result we have, but mark verification as failed
+  const fallback = smallestFail!;
+  await fs.rename(fallback.result.outputPath, outputPath);
+
   console.error(
     `⚠ Verification gate exhausted after ${attempts} attempts. ` +
-    `Best result: ${(result!.compressedSize / MB).toFixed(2)}MB ` +
+    `Best result: ${(fallback.result.compressedSize / MB).toFixed(2)}MB ` +
     `(target was ${(targetSizeBytes / MB).toFixed(2)}MB)`
   );
 
   onProgress?.(100, 'Compression complete (target may not be achievable)');
 
   return {
-    ...result!,
-    quality: currentQuality,
+    ...fallback.result,
+    outputPath,
+    quality: fallback.quality,
     attempts,
     verificationPassed: false,
   };
 }
+
+/**
+ * Pick the next quality to try. Untested bracket ends are probed first,
+ * since the sampler's estimates usually put the answer between them;
+ * after that it's plain bisection of the open interval.
+ */
+function nextProbe(
+  highestPass: number,
+  lowestFail: number,
+  bracket: TargetSearchOptions['bracket'],
+  tried: Set<number>
+): number {
+  if (bracket) {
+    const low = clampQuality(bracket.low);
+    const high = clampQuality(bracket.high);
+    // Nothing fits yet - try the low end of the bracket before bisecting down
+    if (highestPass < MIN_QUALITY && low < lowestFail && !tried.has(low)) return low;
+    // Everything fits so far - try the high end before bisecting up
+    if (lowestFail > MAX_QUALITY && high > highestPass && !tried.has(high)) return high;
+  }
+
+  return clampQuality(Math.floor((highestPass + lowestFail) / 2));
+}
+
+function clampQuality(quality: number): number {
+  return Math.max(MIN_QUALITY, Math.min(MAX_QUALITY, Math.round(quality)));
+}
+
+async function removeQuietly(filePath: string): Promise<void> {
+  try {
+    await fs.unlink(filePath);
+  } catch {}
+}
@@ -0,0 +1,362 @@
+import { spawn } from 'child_process';
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { MB } from '../utils/sizeUtils.js';
+import { getTempDir, ensureTempDir } from '../utils/tempFiles.js';
+import { trackProcess, cancellationCheck } from './jobProcesses.js';
+
+// Ghostscript runs allowed at once across the server; further runs wait
+const GS_CONCURRENCY = Number(process.env.GS_CONCURRENCY) || os.availableParallelism();
+// Wall-clock limit for one Ghostscript run
+const GS_TIMEOUT_MS = Number(process.env.GS_TIMEOUT_MS) || 10 * 60 * 1000;
+// Address space a run may use, enforced with `ulimit -v`; 0 disables the cap
+const GS_MAX_MEMORY_MB = Number(process.env.GS_MAX_MEMORY_MB ?? 2048);
+// Largest file a run may write
+const GS_MAX_OUTPUT_MB = Number(process.env.GS_MAX_OUTPUT_MB) || 1000;
+// Rendering devices band pages larger than this instead of holding the bitmap
+const GS_MAX_BITMAP_BYTES = 64 * MB;
+// How often the output file is measured against GS_MAX_OUTPUT_MB
+const OUTPUT_CHECK_INTERVAL_MS = 1000;
+// Exit status of `sh` when it can't find the command
+const COMMAND_NOT_FOUND = 127;
+
+export type ResourceLimit = 'memory' | 'output';
+
+/**
+ * Thrown when Ghostscript runs past GS_TIMEOUT_MS and is stopped
+ */
+export class GhostscriptTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(
+      `Processing this PDF took longer than ${Math.round(timeoutMs / 1000)} seconds and was stopped. ` +
+      'The file may be damaged or unusually complex.'
+    );
+    this.name = 'GhostscriptTimeoutError';
+  }
+}
+
+/**
+ * Thrown when Ghostscript runs out of memory or writes too much
+ */
+export class ResourceLimitError extends Error {
+  constructor(public readonly limit: ResourceLimit) {
+    super(
+      limit === 'memory'
+        ? 'Processing this PDF needed more memory than the server allows. The file may be damaged or unusually complex.'
+        : `The output grew past ${GS_MAX_OUTPUT_MB}MB and processing was stopped.`
+    );
+    this.name = 'ResourceLimitError';
+  }
+}
+
+export interface GhostscriptRunOptions {
+  // The only file the run may read, besides Ghostscript's own resources
+  inputPath?: string;
+  // The only file the run may write. A %d page number pattern permits every
+  // page's file; a plain path is also checked against GS_MAX_OUTPUT_MB.
+  outputPath?: string;
+  // Receives stdout as it arrives; otherwise stdout is collected and returned
+  onStdout?: (data: Buffer) => void;
+  timeoutMs?: number;
+  // Opens an encrypted input
+  password?: string;
+  // Switches holding secrets, such as -sUserPassword=...
+  secretArgs?: string[];
+}
+
+/**
+ * Thrown when a secret can't be handed to Ghostscript without putting it
+ * on the command line
+ */
+export class UnsupportedSecretError extends Error {
+  constructor() {
+    super('Ghostscript cannot be given a password with a double quote followed by a space.');
+    this.name = 'UnsupportedSecretError';
+  }
+}
+
+// printf-style page number in an output file name, e.g. %d or %03d
+const PAGE_NUMBER_PATTERN = /%0?\d*d/;
+
+/**
+ * SAFER mode with file access limited to the run's own input and output.
+ * Uploads are untrusted: PostScript inside them must not reach other files.
+ */
+function getSandboxArgs(inputPath?: string, outputPath?: string): string[] {
+  const args = ['-dSAFER'];
+  if (inputPath) {
+    args.push(`--permit-file-read=${inputPath}`);
+  }
+  if (outputPath) {
+    args.push(`--permit-file-write=${outputPath.replace(PAGE_NUMBER_PATTERN, '*')}`);
+  }
+  return args;
+}
+
+/**
+ * A PostScript string literal holding `text`'s UTF-8 bytes, as a -s switch
+ * would pass them. Anything but printable ASCII is written as an octal
+ * escape.
+ */
+export function toPostScriptString(text: string): string {
+  let literal = '';
+  for (const byte of Buffer.from(text, 'utf8')) {
+    const char = String.fromCharCode(byte);
+    if (byte < 0x20 || byte > 0x7e) {
+      literal += `\\${byte.toString(8).padStart(3, '0')}`;
+    } else {
+      literal += char === '\\' || char === '(' || char === ')' ? `\\${char}` : char;
+    }
+  }
+  return `(${literal})`;
+}
+
+/**
+ * Passwords go in files only this user can read, never on the command line,
+ * where every user on the machine can see them. A PostScript file defines
+ * the input's password, which takes any bytes; other secret switches go in
+ * an @file. Its lines are quoted, and a quote followed by whitespace would
+ * end one early, so such values are refused.
+ *
+ * Resolves with the arguments that load them and the files to delete.
+ */
+async function writeSecrets(
+  password: string | undefined,
+  secretArgs: string[]
+): Promise<{ switches: string[]; operands: string[]; files: string[] }> {
+  const secrets = { switches: [] as string[], operands: [] as string[], files: [] as string[] };
+  if (password === undefined && secretArgs.length === 0) return secrets;
+
+  if (secretArgs.some((arg) => /"\s|[\r\n]/.test(arg))) {
+    throw new UnsupportedSecretError();
+  }
+
+  await ensureTempDir();
+  const write = async (suffix: string, content: string) => {
+    const filePath = path.join(getTempDir(), `gs_${crypto.randomUUID()}_${suffix}`);
+    await fs.writeFile(filePath, content, { mode: 0o600, flag: 'wx' });
+    secrets.files.push(filePath);
+    return filePath;
+  };
+
+  try {
+    if (secretArgs.length > 0) {
+      const argsPath = await write('args', secretArgs.map((arg) => `"${arg}"\n`).join(''));
+      secrets.switches.push(`@${argsPath}`);
+    }
+    if (password !== undefined) {
+      const passwordPath = await write('password.ps', `/PDFPassword ${toPostScriptString(password)} def\n`);
+      secrets.switches.push(`--permit-file-read=${passwordPath}`);
+      secrets.operands.push(passwordPath);
+    }
+  } catch (err) {
+    await Promise.all(secrets.files.map((file) => fs.unlink(file).catch(() => {})));
+    throw err;
+  }
+  return secrets;
+}
+
+/**
+ * Replace every secret in Ghostscript's output, so none ends up in an error
+ */
+function redactSecrets(text: string, secrets: string[]): string {
+  return secrets.reduce((redacted, secret) => (secret ? redacted.split(secret).join('***') : redacted), text);
+}
+
+/**
+ * Ghostscript's messages for running out of memory
+ */
+function isOutOfMemory(errorOutput: string): boolean {
+  return /VMerror|out of memory|Cannot allocate memory/i.test(errorOutput);
+}
+
+// Runs holding a slot, and runs waiting for one in arrival order
+let activeRuns = 0;
+const waitingRuns: (() => void)[] = [];
+
+/**
+ * Wait for one of the GS_CONCURRENCY slots
+ */
+async function acquireSlot(): Promise<void> {
+  if (activeRuns < GS_CONCURRENCY) {
+    activeRuns++;
+    return;
+  }
+  await new Promise<void>((resolve) => waitingRuns.push(resolve));
+}
+
+/**
+ * Hand the slot to the next waiting run, or free it
+ */
+function releaseSlot(): void {
+  const next = waitingRuns.shift();
+  if (next) {
+    next();
+  } else {
+    activeRuns--;
+  }
+}
+
+/**
+ * Run work that needs about as much memory as a Ghostscript run, such as
+ * comparing page bitmaps, in one of the pool's slots. `work` must not run
+ * Ghostscript itself: it would wait for a slot while holding one.
+ */
+export async function withGhostscriptSlot<T>(work: () => Promise<T>): Promise<T> {
+  await acquireSlot();
+  try {
+    return await work();
+  } finally {
+    releaseSlot();
+  }
+}
+
+/**
+ * How many Ghostscript runs can go at once, for callers sizing their batches
+ */
+export function getGhostscriptConcurrency(): number {
+  return GS_CONCURRENCY;
+}
+
+/**
+ * Run Ghostscript with the server's time, memory and output limits.
+ * Runs share a pool of GS_CONCURRENCY slots, so estimation and compression
+ * together never start more processes than that; the rest queue.
+ *
+ * `action` completes "Ghostscript failed to ..." in the error for a
+ * non-zero exit. Resolves with stdout unless `onStdout` consumes it.
+ */
+export async function runGhostscript(
+  args: string[],
+  action: string,
+  options: GhostscriptRunOptions = {}
+): Promise<string> {
+  const { inputPath, outputPath, onStdout, timeoutMs = GS_TIMEOUT_MS, password, secretArgs = [] } = options;
+  const secrets = await writeSecrets(password, secretArgs);
+  // The password file has to run after every switch, right before the input
+  const firstOperand = args.findIndex((arg) => !arg.startsWith('-') || arg === '-c' || arg === '-f');
+  const operandsAt = firstOperand < 0 ? args.length : firstOperand;
+  const gsArgs = [
+    ...getSandboxArgs(inputPath, outputPath),
+    `-dMaxBitmap=${GS_MAX_BITMAP_BYTES}`,
+    ...secrets.switches,
+    ...args.slice(0, operandsAt),
+    ...secrets.operands,
+    ...args.slice(operandsAt),
+  ];
+  // Values of secret switches, and the password, are never echoed
+  const redacted = [
+    ...(password ? [password] : []),
+    ...secretArgs.map((arg) => arg.slice(arg.indexOf('=') + 1)),
+  ];
+  // Files named by a page pattern can't be measured as one
+  const measuredPath = outputPath && !PAGE_NUMBER_PATTERN.test(outputPath) ? outputPath : undefined;
+
+  try {
+    // The timeout starts once the run has a slot, not while it waits
+    await acquireSlot();
+    try {
+      return await spawnGhostscript(gsArgs, action, measuredPath, onStdout, timeoutMs, redacted);
+    } finally {
+      releaseSlot();
+    }
+  } finally {
+    await Promise.all(secrets.files.map((file) => fs.unlink(file).catch(() => {})));
+  }
+}
+
+/**
+ * One Ghostscript process, stopped at the time and output limits
+ */
+function spawnGhostscript(
+  gsArgs: string[],
+  action: string,
+  measuredPath: string | undefined,
+  onStdout: ((data: Buffer) => void) | undefined,
+  timeoutMs: number,
+  secrets: string[]
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    // `ulimit` only exists in the shell, which then replaces itself with gs
+    const gs = GS_MAX_MEMORY_MB > 0
+      ? spawn('sh', ['-c', 'ulimit -v "$1" && shift && exec gs "$@"', 'sh', String(GS_MAX_MEMORY_MB * 1024), ...gsArgs])
+      : spawn('gs', gsArgs);
+    trackProcess(gs);
+    const isCancelled = cancellationCheck();
+
+    let output = '';
+    let errorOutput = '';
+    let limitHit: GhostscriptTimeoutError | ResourceLimitError | null = null;
+
+    const stop = (err: GhostscriptTimeoutError | ResourceLimitError) => {
+      if (limitHit) return;
+      limitHit = err;
+      gs.kill('SIGKILL');
+    };
+
+    const timer = setTimeout(() => stop(new GhostscriptTimeoutError(timeoutMs)), timeoutMs);
+    const outputCheck = measuredPath
+      ? setInterval(() => {
+          fs.stat(measuredPath)
+            .then((stats) => {
+              if (stats.size > GS_MAX_OUTPUT_MB * MB) stop(new ResourceLimitError('output'));
+            })
+            .catch(() => {
+              // Not written yet
+            });
+        }, OUTPUT_CHECK_INTERVAL_MS)
+      : null;
+
+    gs.stdout.on('data', (data: Buffer) => {
+      if (onStdout) {
+        onStdout(data);
+      } else {
+        output += data.toString();
+      }
+    });
+
+    gs.stderr.on('data', (data) => {
+      errorOutput += data.toString();
+    });
+
+    gs.on('close', (code, signal) => {
+      clearTimeout(timer);
+      if (outputCheck) clearInterval(outputCheck);
+      errorOutput = redactSecrets(errorOutput, secrets);
+
+      if (limitHit) {
+        // What was written before the kill is unusable
+        if (measuredPath) fs.unlink(measuredPath).catch(() => {});
+        reject(limitHit);
+        return;
+      }
+      if (code === 0) {
+        resolve(output);
+        return;
+      }
+      // Killed because its job was cancelled; runForJob reports that
+      if (signal && isCancelled()) {
+        reject(new Error('Ghostscript was stopped'));
+        return;
+      }
+      // Under the `ulimit -v` cap, allocations fail and Ghostscript says so
+      if (GS_MAX_MEMORY_MB > 0 && isOutOfMemory(errorOutput)) {
+        reject(new ResourceLimitError('memory'));
+        return;
+      }
+      if (code === COMMAND_NOT_FOUND && GS_MAX_MEMORY_MB > 0) {
+        reject(new Error(`Failed to spawn Ghostscript: ${errorOutput.trim()}`));
+        return;
+      }
+      reject(new Error(`Ghostscript failed to ${action}: ${signal ? `killed by ${signal}. ` : ''}${errorOutput}`));
+    });
+
+    gs.on('error', (err) => {
+      clearTimeout(timer);
+      if (outputCheck) clearInterval(outputCheck);
+      reject(new Error(`Failed to spawn Ghostscript: ${err.message}`));
+    });
+  });
+}
@@ -0,0 +1,238 @@
+// Baseline JPEG encoder for single-component (grayscale) images. jpeg-js
+// only writes three components, which would turn DeviceGray images into
+// DeviceRGB and triple what the decoder has to expand.
+
+// Luminance quantization table at quality 50 (JPEG spec, Annex K), row by row
+const BASE_QUANT_TABLE = [
+  16, 11, 10, 16, 24, 40, 51, 61,
+  12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56,
+  14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77,
+  24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101,
+  72, 92, 95, 98, 112, 100, 103, 99,
+];
+
+// Row-major index of each coefficient in zigzag order
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+];
+
+// Standard luminance Huffman tables: code counts per length 1-16, then symbols
+const DC_BITS = [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0];
+const DC_VALUES = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+const AC_BITS = [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d];
+const AC_VALUES = [
+  0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07,
+  0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0,
+  0x24, 0x33, 0x62, 0x72, 0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28,
+  0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49,
+  0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69,
+  0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
+  0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7,
+  0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5,
+  0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2,
+  0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+  0xf9, 0xfa,
+];
+
+interface HuffmanCode {
+  code: number;
+  length: number;
+}
+
+/**
+ * Canonical Huffman codes for a table, indexed by symbol
+ */
+function buildCodes(bits: number[], values: number[]): HuffmanCode[] {
+  const codes: HuffmanCode[] = [];
+  let code = 0;
+  let index = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < bits[length - 1]; i++) {
+      codes[values[index++]] = { code, length };
+      code++;
+    }
+    code <<= 1;
+  }
+  return codes;
+}
+
+const DC_CODES = buildCodes(DC_BITS, DC_VALUES);
+const AC_CODES = buildCodes(AC_BITS, AC_VALUES);
+
+// cos((2x + 1) * u * pi / 16), scaled by C(u) / 2, indexed [u * 8 + x]
+const DCT_BASIS = Array.from({ length: 64 }, (_, i) => {
+  const u = Math.floor(i / 8);
+  const x = i % 8;
+  const scale = u === 0 ? Math.SQRT1_2 / 2 : 0.5;
+  return scale * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+});
+
+/**
+ * The quantization table for an IJG quality (1-100), row by row
+ */
+function scaleQuantTable(quality: number): number[] {
+  const q = Math.max(1, Math.min(100, Math.round(quality)));
+  const scale = q < 50 ? 5000 / q : 200 - q * 2;
+  return BASE_QUANT_TABLE.map((value) => Math.max(1, Math.min(255, Math.floor((value * scale + 50) / 100))));
+}
+
+/**
+ * Collects entropy-coded bits, stuffing a zero byte after each 0xFF
+ */
+class BitWriter {
+  private bytes = new Uint8Array(64 * 1024);
+  private length = 0;
+  private buffer = 0;
+  private count = 0;
+
+  write(value: number, length: number): void {
+    for (let i = length - 1; i >= 0; i--) {
+      this.buffer = (this.buffer << 1) | ((value >> i) & 1);
+      this.count++;
+      if (this.count === 8) {
+        this.push(this.buffer);
+        if (this.buffer === 0xff) this.push(0);
+        this.buffer = 0;
+        this.count = 0;
+      }
+    }
+  }
+
+  /**
+   * Pad the last byte with ones and return everything written
+   */
+  finish(): Uint8Array {
+    if (this.count > 0) this.write(0xff, 8 - this.count);
+    return this.bytes.subarray(0, this.length);
+  }
+
+  private push(byte: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = byte;
+  }
+}
+
+/**
+ * Bits needed for a coefficient's magnitude (its JPEG "category")
+ */
+function category(value: number): number {
+  let magnitude = Math.abs(value);
+  let bits = 0;
+  while (magnitude > 0) {
+    bits++;
+    magnitude >>= 1;
+  }
+  return bits;
+}
+
+/**
+ * A coefficient's extra bits: negative values are stored one's-complement
+ */
+function extraBits(value: number, bits: number): number {
+  return value < 0 ? value + (1 << bits) - 1 : value;
+}
+
+/**
+ * Forward DCT and quantization of one 8x8 block, in zigzag order
+ */
+function transformBlock(block: Float64Array, quant: number[]): Int32Array {
+  const rows = new Float64Array(64);
+  for (let y = 0; y < 8; y++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let x = 0; x < 8; x++) sum += DCT_BASIS[u * 8 + x] * block[y * 8 + x];
+      rows[y * 8 + u] = sum;
+    }
+  }
+
+  const out = new Int32Array(64);
+  for (let k = 0; k < 64; k++) {
+    const index = ZIGZAG[k];
+    const v = Math.floor(index / 8);
+    const u = index % 8;
+    let sum = 0;
+    for (let y = 0; y < 8; y++) sum += DCT_BASIS[v * 8 + y] * rows[y * 8 + u];
+    out[k] = Math.round(sum / quant[index]);
+  }
+  return out;
+}
+
+function segment(marker: number, payload: number[]): number[] {
+  const length = payload.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...payload];
+}
+
+/**
+ * Encode 8-bit gray pixels (one byte per pixel, row by row) as a baseline JPEG
+ */
+export function encodeGrayJpeg(pixels: Uint8Array, width: number, height: number, quality: number): Uint8Array {
+  const quant = scaleQuantTable(quality);
+  const writer = new BitWriter();
+  const block = new Float64Array(64);
+  let previousDc = 0;
+
+  for (let top = 0; top < height; top += 8) {
+    for (let left = 0; left < width; left += 8) {
+      // Blocks past the edge repeat the last row and column
+      for (let y = 0; y < 8; y++) {
+        const row = Math.min(top + y, height - 1) * width;
+        for (let x = 0; x < 8; x++) {
+          block[y * 8 + x] = pixels[row + Math.min(left + x, width - 1)] - 128;
+        }
+      }
+      const coefficients = transformBlock(block, quant);
+
+      const dcDiff = coefficients[0] - previousDc;
+      previousDc = coefficients[0];
+      const dcBits = category(dcDiff);
+      writer.write(DC_CODES[dcBits].code, DC_CODES[dcBits].length);
+      writer.write(extraBits(dcDiff, dcBits), dcBits);
+
+      let run = 0;
+      for (let k = 1; k < 64; k++) {
+        const value = coefficients[k];
+        if (value === 0) {
+          run++;
+          continue;
+        }
+        while (run > 15) {
+          writer.write(AC_CODES[0xf0].code, AC_CODES[0xf0].length);
+          run -= 16;
+        }
+        const bits = category(value);
+        const symbol = (run << 4) | bits;
+        writer.write(AC_CODES[symbol].code, AC_CODES[symbol].length);
+        writer.write(extraBits(value, bits), bits);
+        run = 0;
+      }
+      if (run > 0) {
+        writer.write(AC_CODES[0x00].code, AC_CODES[0x00].length);
+      }
+    }
+  }
+
+  const bytes = [
+    0xff, 0xd8,
+    ...segment(0xdb, [0x00, ...ZIGZAG.map((index) => quant[index])]),
+    ...segment(0xc0, [8, height >> 8, height & 0xff, width >> 8, width & 0xff, 1, 1, 0x11, 0]),
+    ...segment(0xc4, [0x00, ...DC_BITS, ...DC_VALUES]),
+    ...segment(0xc4, [0x10, ...AC_BITS, ...AC_VALUES]),
+    ...segment(0xda, [1, 1, 0x00, 0, 63, 0]),
+  ];
+  const scan = writer.finish();
+  const out = new Uint8Array(bytes.length + scan.length + 2);
+  out.set(bytes);
+  out.set(scan, bytes.length);
+  out.set([0xff, 0xd9], bytes.length + scan.length);
+  return out;
+}
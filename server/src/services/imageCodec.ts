@@ -0,0 +1,200 @@
+import jpeg from 'jpeg-js';
+import pako from 'pako';
+import { encodeGrayJpeg } from './grayJpeg.js';
+
+// Pixel work for the images mode: decoding, downsampling and JPEG encoding.
+// It runs on a worker thread (imageCodecWorker.ts), so nothing here may
+// touch the PDF document.
+
+// Re-encoding steps, tried from mildest to most aggressive for each image
+const REENCODE_LEVELS = [
+  { scale: 1, quality: 80 },
+  { scale: 0.75, quality: 70 },
+  { scale: 0.5, quality: 60 },
+  { scale: 0.35, quality: 50 },
+  { scale: 0.25, quality: 40 },
+];
+
+export interface ReencodeRequest {
+  // The image stream as stored in the PDF
+  contents: Uint8Array;
+  filter: 'DCTDecode' | 'FlateDecode';
+  width: number;
+  height: number;
+  channels: 1 | 3;
+  // PNG/TIFF predictor from DecodeParms (1 = none)
+  predictor: number;
+  // Bytes the re-encoded image should fit in
+  budget: number;
+}
+
+export interface ReencodedImage {
+  // JPEG with as many components as the source
+  data: Uint8Array;
+  width: number;
+  height: number;
+  quality: number;
+}
+
+interface DecodedImage {
+  width: number;
+  height: number;
+  channels: 1 | 3;
+  data: Uint8Array;
+}
+
+/**
+ * Re-encode an image at the mildest level that fits its budget (or the most
+ * aggressive level if none does). Gray images stay gray. Returns null if the
+ * image can't be decoded.
+ */
+export function reencodeImage(request: ReencodeRequest): ReencodedImage | null {
+  const decoded = decodeImage(request);
+  if (!decoded) return null;
+
+  let encoded: ReencodedImage | null = null;
+
+  for (const level of REENCODE_LEVELS) {
+    const width = Math.max(1, Math.round(decoded.width * level.scale));
+    const height = Math.max(1, Math.round(decoded.height * level.scale));
+    const pixels = level.scale < 1 ? downsample(decoded, width, height) : decoded.data;
+
+    const data = decoded.channels === 1
+      ? encodeGrayJpeg(pixels, width, height, level.quality)
+      : jpeg.encode({ data: toRgba(pixels, width, height), width, height }, level.quality).data;
+
+    encoded = { data, width, height, quality: level.quality };
+    if (data.length <= request.budget) break;
+  }
+
+  return encoded;
+}
+
+/**
+ * Decode an image stream to 8-bit pixels with the image's channel count
+ */
+function decodeImage(request: ReencodeRequest): DecodedImage | null {
+  const { contents, width, height, channels } = request;
+
+  if (request.filter === 'DCTDecode') {
+    const image = jpeg.decode(contents, {
+      useTArray: true,
+      formatAsRGBA: false,
+      maxResolutionInMP: 200,
+      maxMemoryUsageInMB: 1024,
+    });
+    // jpeg-js always expands to RGB; gray images have equal channels
+    const data = channels === 1 ? image.data.filter((_, i) => i % 3 === 0) : image.data;
+    return { width: image.width, height: image.height, channels, data };
+  }
+
+  const raw = pako.inflate(contents);
+
+  if (request.predictor === 1) {
+    if (raw.length < width * height * channels) return null;
+    return { width, height, channels, data: raw };
+  }
+
+  // TIFF predictor (2) is rare enough that we just leave those images alone
+  if (request.predictor < 10) return null;
+
+  const data = removePngPredictor(raw, width, height, channels);
+  return data ? { width, height, channels, data } : null;
+}
+
+/**
+ * Undo PNG row filters (Predictor >= 10) for 8-bit samples
+ */
+function removePngPredictor(
+  raw: Uint8Array,
+  width: number,
+  height: number,
+  channels: number
+): Uint8Array | null {
+  const rowLength = width * channels;
+  if (raw.length < height * (rowLength + 1)) return null;
+
+  const out = new Uint8Array(rowLength * height);
+
+  for (let y = 0; y < height; y++) {
+    const filterType = raw[y * (rowLength + 1)];
+    const src = y * (rowLength + 1) + 1;
+    const dst = y * rowLength;
+
+    for (let x = 0; x < rowLength; x++) {
+      const left = x >= channels ? out[dst + x - channels] : 0;
+      const up = y > 0 ? out[dst - rowLength + x] : 0;
+      const upLeft = y > 0 && x >= channels ? out[dst - rowLength + x - channels] : 0;
+      const value = raw[src + x];
+
+      switch (filterType) {
+        case 0: out[dst + x] = value; break;
+        case 1: out[dst + x] = (value + left) & 0xff; break;
+        case 2: out[dst + x] = (value + up) & 0xff; break;
+        case 3: out[dst + x] = (value + ((left + up) >> 1)) & 0xff; break;
+        case 4: {
+          const p = left + up - upLeft;
+          const pa = Math.abs(p - left);
+          const pb = Math.abs(p - up);
+          const pc = Math.abs(p - upLeft);
+          const predicted = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+          out[dst + x] = (value + predicted) & 0xff;
+          break;
+        }
+        default:
+          return null;
+      }
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Box-filter downsample: each output pixel averages the source pixels it covers
+ */
+function downsample(image: DecodedImage, width: number, height: number): Uint8Array {
+  const { channels, data } = image;
+  const out = new Uint8Array(width * height * channels);
+  const xRatio = image.width / width;
+  const yRatio = image.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * yRatio);
+    const y1 = Math.max(y0 + 1, Math.min(image.height, Math.floor((y + 1) * yRatio)));
+
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * xRatio);
+      const x1 = Math.max(x0 + 1, Math.min(image.width, Math.floor((x + 1) * xRatio)));
+      const count = (y1 - y0) * (x1 - x0);
+
+      for (let c = 0; c < channels; c++) {
+        let sum = 0;
+        for (let sy = y0; sy < y1; sy++) {
+          for (let sx = x0; sx < x1; sx++) {
+            sum += data[(sy * image.width + sx) * channels + c];
+          }
+        }
+        out[(y * width + x) * channels + c] = Math.round(sum / count);
+      }
+    }
+  }
+
+  return out;
+}
+
+/**
+ * RGB pixels with an opaque alpha channel added, as jpeg-js expects
+ */
+function toRgba(pixels: Uint8Array, width: number, height: number): Uint8Array {
+  const rgba = new Uint8Array(width * height * 4);
+
+  for (let i = 0; i < width * height; i++) {
+    rgba[i * 4] = pixels[i * 3];
+    rgba[i * 4 + 1] = pixels[i * 3 + 1];
+    rgba[i * 4 + 2] = pixels[i * 3 + 2];
+    rgba[i * 4 + 3] = 255;
+  }
+
+  return rgba;
+}
@@ -0,0 +1,25 @@
+import { parentPort } from 'worker_threads';
+import { reencodeImage, ReencodeRequest, ReencodedImage } from './imageCodec.js';
+
+// Worker thread for the images mode; see ImageCodec in imageRecompressor.ts
+
+export interface CodecMessage {
+  id: number;
+  request: ReencodeRequest;
+}
+
+export interface CodecReply {
+  id: number;
+  result?: ReencodedImage | null;
+  error?: string;
+}
+
+parentPort?.on('message', ({ id, request }: CodecMessage) => {
+  let reply: CodecReply;
+  try {
+    reply = { id, result: reencodeImage(request) };
+  } catch (err) {
+    reply = { id, error: err instanceof Error ? err.message : String(err) };
+  }
+  parentPort!.postMessage(reply);
+});
@@ -0,0 +1,302 @@
+import { promises as fs } from 'fs';
+import { PDFDocument, PDFName, PDFDict, PDFArray, PDFNumber, PDFRawStream, PDFRef, PDFStream } from 'pdf-lib';
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { VerifiedCompressionResult } from './ghostscript.js';
+import { KB, MB } from '../utils/sizeUtils.js';
+import { ReencodeRequest, ReencodedImage } from './imageCodec.js';
+import { CodecMessage, CodecReply } from './imageCodecWorker.js';
+
+// Images smaller than this are left alone (logos, icons, small diagrams)
+const MIN_IMAGE_BYTES = 50 * KB;
+// Aim this far under target to leave room for xref/object overhead changes
+const BUDGET_MARGIN = 0.02;
+const MAX_PASSES = 3;
+
+interface CandidateImage {
+  ref: PDFRef;
+  stream: PDFRawStream;
+  size: number;
+  width: number;
+  height: number;
+  channels: 1 | 3;
+  filter: 'DCTDecode' | 'FlateDecode';
+}
+
+export interface ImageRecompressionResult extends VerifiedCompressionResult {
+  imagesRecompressed: number;
+}
+
+/**
+ * Decodes and re-encodes images on a worker thread, so a large scan doesn't
+ * block the event loop - and every request and event stream with it - for
+ * seconds at a time
+ */
+class ImageCodec {
+  private worker: Worker;
+  private nextId = 0;
+  private waiting = new Map<number, { resolve: (image: ReencodedImage | null) => void; reject: (err: Error) => void }>();
+
+  constructor() {
+    // Under tsx (development) the worker is TypeScript and needs its loader
+    const workerPath = path.join(__dirname, `imageCodecWorker${path.extname(__filename)}`);
+    this.worker = workerPath.endsWith('.ts')
+      ? new Worker(`require('tsx/cjs'); require(${JSON.stringify(workerPath)});`, { eval: true })
+      : new Worker(workerPath);
+
+    this.worker.on('message', ({ id, result, error }: CodecReply) => {
+      const request = this.waiting.get(id);
+      if (!request) return;
+      this.waiting.delete(id);
+      if (error !== undefined) {
+        request.reject(new Error(error));
+      } else {
+        request.resolve(result ?? null);
+      }
+    });
+    this.worker.on('error', (err) => this.failAll(err));
+    this.worker.on('exit', (code) => this.failAll(new Error(`Image codec thread exited with code ${code}`)));
+  }
+
+  reencode(request: ReencodeRequest): Promise<ReencodedImage | null> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.waiting.set(id, { resolve, reject });
+      const message: CodecMessage = { id, request };
+      this.worker.postMessage(message);
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.worker.terminate();
+  }
+
+  private failAll(err: Error): void {
+    for (const request of this.waiting.values()) request.reject(err);
+    this.waiting.clear();
+  }
+}
+
+/**
+ * Shrink a PDF to a byte budget by re-encoding only its largest images.
+ *
+ * Unlike Ghostscript, which treats the whole document uniformly, this
+ * rewrites individual image XObjects with pdf-lib: the biggest images are
+ * downsampled and re-encoded as JPEG until the savings cover the budget,
+ * while small images, bilevel line art, masks and all text and vector
+ * content are left byte-for-byte untouched.
+ */
+export async function recompressImages(
+  inputPath: string,
+  outputPath: string,
+  targetSizeBytes: number,
+  onProgress?: (percent: number, message: string) => void
+): Promise<ImageRecompressionResult> {
+  const inputBytes = await fs.readFile(inputPath);
+  const originalSize = inputBytes.length;
+
+  let requiredSavings = originalSize - targetSizeBytes * (1 - BUDGET_MARGIN);
+  let passes = 0;
+  let outputBytes: Uint8Array = inputBytes;
+  let imagesRecompressed = 0;
+  let lowestQuality = 100;
+
+  const codec = new ImageCodec();
+  try {
+    while (passes < MAX_PASSES && requiredSavings > 0) {
+      passes++;
+      onProgress?.(10 + (passes - 1) * 25, `Re-encoding largest images (pass ${passes}/${MAX_PASSES})...`);
+
+      // Always start from the original so images are never re-encoded twice
+      const pdfDoc = await PDFDocument.load(inputBytes, { ignoreEncryption: true, updateMetadata: false });
+      const candidates = findCandidateImages(pdfDoc).sort((a, b) => b.size - a.size);
+
+      let remaining = requiredSavings;
+      imagesRecompressed = 0;
+      lowestQuality = 100;
+
+      for (const candidate of candidates) {
+        if (remaining <= 0) break;
+
+        // The biggest images absorb as much of the budget as they can
+        const allowance = Math.min(candidate.size, remaining);
+        const budget = candidate.size - allowance;
+
+        const replaced = await replaceImage(pdfDoc, codec, candidate, budget);
+        if (!replaced) continue;
+
+        remaining -= candidate.size - replaced.size;
+        imagesRecompressed++;
+        lowestQuality = Math.min(lowestQuality, replaced.quality);
+      }
+
+      onProgress?.(10 + passes * 25, 'Verifying file size...');
+      outputBytes = await pdfDoc.save();
+
+      const overshoot = outputBytes.length - targetSizeBytes;
+      if (overshoot <= 0) break;
+
+      // Estimated savings didn't translate 1:1 into file size - ask for more next pass
+      console.log(
+        `✗ Image recompression pass ${passes}: ${(outputBytes.length / MB).toFixed(2)}MB ` +
+        `> target ${(targetSizeBytes / MB).toFixed(2)}MB`
+      );
+      requiredSavings += overshoot * 1.1;
+    }
+  } finally {
+    await codec.close();
+  }
+
+  await fs.writeFile(outputPath, outputBytes);
+  const compressedSize = outputBytes.length;
+  const verificationPassed = compressedSize <= targetSizeBytes;
+
+  onProgress?.(
+    100,
+    verificationPassed ? 'Compression complete' : 'Compression complete (target may not be achievable)'
+  );
+
+  return {
+    outputPath,
+    originalSize,
+    compressedSize,
+    compressionRatio: originalSize > 0 ? compressedSize / originalSize : 1,
+    quality: lowestQuality,
+    attempts: passes,
+    verificationPassed,
+    imagesRecompressed,
+  };
+}
+
+/**
+ * Find images we know how to decode and that are worth re-encoding
+ */
+function findCandidateImages(pdfDoc: PDFDocument): CandidateImage[] {
+  const context = pdfDoc.context;
+  const candidates: CandidateImage[] = [];
+
+  context.enumerateIndirectObjects().forEach(([ref, obj]) => {
+    if (!(obj instanceof PDFRawStream)) return;
+
+    const dict = obj.dict;
+    if (dict.get(PDFName.of('Subtype'))?.toString() !== '/Image') return;
+
+    const size = obj.contents.length;
+    if (size < MIN_IMAGE_BYTES) return;
+
+    // Stencil masks, colour-key masks and decode arrays don't survive lossy re-encoding
+    if (dict.get(PDFName.of('ImageMask'))?.toString() === 'true') return;
+    if (dict.get(PDFName.of('Mask')) || dict.get(PDFName.of('Decode'))) return;
+
+    // Bilevel line art stays as-is
+    const bitsPerComponent = dict.get(PDFName.of('BitsPerComponent'));
+    if (bitsPerComponent instanceof PDFNumber && bitsPerComponent.asNumber() !== 8) return;
+
+    const filter = getSingleFilter(dict);
+    if (filter !== 'DCTDecode' && filter !== 'FlateDecode') return;
+
+    const channels = getChannelCount(pdfDoc, dict.get(PDFName.of('ColorSpace')));
+    if (channels !== 1 && channels !== 3) return;
+
+    const width = dict.get(PDFName.of('Width'));
+    const height = dict.get(PDFName.of('Height'));
+    if (!(width instanceof PDFNumber) || !(height instanceof PDFNumber)) return;
+
+    candidates.push({
+      ref,
+      stream: obj,
+      size,
+      width: width.asNumber(),
+      height: height.asNumber(),
+      channels,
+      filter,
+    });
+  });
+
+  return candidates;
+}
+
+/**
+ * Re-encode one image on the codec thread and swap it into the document.
+ * Returns null if the image couldn't be decoded or wouldn't get smaller.
+ */
+async function replaceImage(
+  pdfDoc: PDFDocument,
+  codec: ImageCodec,
+  candidate: CandidateImage,
+  budget: number
+): Promise<{ size: number; quality: number } | null> {
+  let encoded: ReencodedImage | null;
+  try {
+    encoded = await codec.reencode({
+      contents: candidate.stream.contents,
+      filter: candidate.filter,
+      width: candidate.width,
+      height: candidate.height,
+      channels: candidate.channels,
+      predictor: getDecodeParm(candidate.stream.dict, 'Predictor') ?? 1,
+      budget,
+    });
+  } catch (err) {
+    console.error(`Skipping image ${candidate.ref.toString()}: failed to decode`, err);
+    return null;
+  }
+
+  if (!encoded || encoded.data.length >= candidate.size) return null;
+
+  // The colour space stays: the JPEG has as many components as the image had
+  const dict = candidate.stream.dict.clone(pdfDoc.context);
+  dict.delete(PDFName.of('DecodeParms'));
+  dict.set(PDFName.of('Filter'), PDFName.of('DCTDecode'));
+  dict.set(PDFName.of('Width'), PDFNumber.of(encoded.width));
+  dict.set(PDFName.of('Height'), PDFNumber.of(encoded.height));
+  dict.set(PDFName.of('BitsPerComponent'), PDFNumber.of(8));
+
+  pdfDoc.context.assign(candidate.ref, PDFRawStream.of(dict, encoded.data));
+
+  return { size: encoded.data.length, quality: encoded.quality };
+}
+
+function getSingleFilter(dict: PDFDict): string | null {
+  let filter = dict.get(PDFName.of('Filter'));
+  if (filter instanceof PDFArray) {
+    if (filter.size() !== 1) return null;
+    filter = filter.get(0);
+  }
+  return filter instanceof PDFName ? filter.decodeText() : null;
+}
+
+function getDecodeParm(dict: PDFDict, key: string): number | undefined {
+  let parms = dict.get(PDFName.of('DecodeParms'));
+  if (parms instanceof PDFArray) parms = parms.get(0);
+  if (!(parms instanceof PDFDict)) return undefined;
+
+  const value = parms.get(PDFName.of(key));
+  return value instanceof PDFNumber ? value.asNumber() : undefined;
+}
+
+/**
+ * Number of colour components for a colour space, or null if unsupported
+ */
+function getChannelCount(pdfDoc: PDFDocument, colorSpace: unknown): number | null {
+  const resolved = colorSpace instanceof PDFRef ? pdfDoc.context.lookup(colorSpace) : colorSpace;
+
+  if (resolved instanceof PDFName) {
+    const name = resolved.decodeText();
+    if (name === 'DeviceGray') return 1;
+    if (name === 'DeviceRGB') return 3;
+    return null;
+  }
+
+  // [/ICCBased <stream>] carries its component count in /N
+  if (resolved instanceof PDFArray && resolved.size() === 2) {
+    if (resolved.get(0)?.toString() !== '/ICCBased') return null;
+    const profile = pdfDoc.context.lookup(resolved.get(1));
+    if (profile instanceof PDFStream) {
+      const n = profile.dict.get(PDFName.of('N'));
+      return n instanceof PDFNumber ? n.asNumber() : null;
+    }
+  }
+
+  return null;
+}
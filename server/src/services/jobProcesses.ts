@@ -0,0 +1,116 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { ChildProcess } from 'child_process';
+
+// Job whose work is running in the current async context
+const currentJob = new AsyncLocalStorage<string>();
+// Child processes spawned for each job that are still running
+const processes = new Map<string, Set<ChildProcess>>();
+// Number of runs (estimation, compression) in progress per job
+const runningJobs = new Map<string, number>();
+// Jobs that were cancelled while work was still running
+const cancelledJobs = new Set<string>();
+
+/**
+ * Thrown when work finishes after its job was cancelled
+ */
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job was cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+/**
+ * Run `work` on behalf of a job, so processes it spawns can be killed
+ * when the job is cancelled. Rejects with JobCancelledError if the job was
+ * cancelled meanwhile, however the work itself ended.
+ */
+export async function runForJob<T>(jobId: string, work: () => Promise<T>): Promise<T> {
+  runningJobs.set(jobId, (runningJobs.get(jobId) ?? 0) + 1);
+
+  try {
+    const result = await currentJob.run(jobId, work);
+    if (cancelledJobs.has(jobId)) {
+      throw new JobCancelledError();
+    }
+    return result;
+  } catch (err) {
+    // Killed processes surface as ordinary Ghostscript failures
+    throw cancelledJobs.has(jobId) ? new JobCancelledError() : err;
+  } finally {
+    const remaining = (runningJobs.get(jobId) ?? 1) - 1;
+    if (remaining > 0) {
+      runningJobs.set(jobId, remaining);
+    } else {
+      runningJobs.delete(jobId);
+      cancelledJobs.delete(jobId);
+    }
+  }
+}
+
+/**
+ * Register a child process with the job running in the current context.
+ * A process started after its job was cancelled is killed straight away.
+ */
+export function trackProcess(child: ChildProcess): void {
+  const jobId = currentJob.getStore();
+  if (!jobId) return;
+
+  if (cancelledJobs.has(jobId)) {
+    child.kill('SIGKILL');
+    return;
+  }
+
+  let children = processes.get(jobId);
+  if (!children) {
+    children = new Set();
+    processes.set(jobId, children);
+  }
+  children.add(child);
+
+  child.once('close', () => {
+    children.delete(child);
+    if (children.size === 0 && processes.get(jobId) === children) {
+      processes.delete(jobId);
+    }
+  });
+}
+
+/**
+ * Mark a job cancelled and kill its running processes.
+ * Returns whether any of the job's work was still running.
+ */
+export function cancelJobWork(jobId: string): boolean {
+  if (!runningJobs.has(jobId)) {
+    return false;
+  }
+
+  cancelledJobs.add(jobId);
+  for (const child of processes.get(jobId) ?? []) {
+    child.kill('SIGKILL');
+  }
+  return true;
+}
+
+/**
+ * A check for whether the job running in the current context has been
+ * cancelled, for callbacks that may run outside that context
+ */
+export function cancellationCheck(): () => boolean {
+  const jobId = currentJob.getStore();
+  return () => jobId !== undefined && cancelledJobs.has(jobId);
+}
+
+/**
+ * Whether a job was cancelled while its work was running
+ */
+export function isJobCancelled(jobId: string): boolean {
+  return cancelledJobs.has(jobId);
+}
+
+/**
+ * Jobs with estimation or compression running in this process
+ */
+export function getRunningJobIds(): string[] {
+  return [...runningJobs.keys()];
+}
@@ -1,17 +1,65 @@
 import Bull from 'bull';
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import os from 'os';
 import { v4 as uuidv4 } from 'uuid';
-import { compressPdf, compressToTargetSize } from './ghostscript.js';
-import { estimateSizes, EstimationResult, findBestQuality, CorruptPdfError } from './sampler.js';
-import { getJobPath, cleanupJob, ensureTempDir } from '../utils/tempFiles.js';
+import { compressPdf, compressToTargetSize, ColorConversion, PageProgress } from './ghostscript.js';
+import { estimateSizes, EstimationResult, findBestQuality, findQualityBracket, CorruptPdfError } from './sampler.js';
+import { getJobPath, cleanupJob, ensureTempDir, getFileSize } from '../utils/tempFiles.js';
 import { PDFAnalysis } from './analyzer.js';
 import { MB } from '../utils/sizeUtils.js';
+import { createJobStore, JobStore } from './jobStore.js';
+import { recompressImages } from './imageRecompressor.js';
+import { compressLossless } from './lossless.js';
+import { rasterizeToMono } from './colorConversion.js';
+import { splitToTargetSize, SplitResult } from './splitter.js';
+import { compressWithPageReduction, PageReduction, PageAction } from './pageReducer.js';
+import { runForJob, cancelJobWork, isJobCancelled, JobCancelledError, getRunningJobIds } from './jobProcesses.js';
+import { GhostscriptTimeoutError, ResourceLimitError } from './ghostscriptRunner.js';
+import {
+  PdfEncryption,
+  EncryptedUpload,
+  PasswordRequiredError,
+  setJobPassword,
+  forgetJobPassword,
+  decryptUpload,
+  reapplyEncryption,
+} from './encryption.js';
+import { repairPdf, RepairReport } from './repair.js';
+import { preserveDocumentFeatures, findLostFeatures, FidelityReport } from './fidelity.js';
+
+// 'standard' runs the whole document through Ghostscript,
+// 'images' re-encodes only the largest images to meet a byte budget,
+// 'lossless' optimizes structure and streams without touching images,
+// 'split' cuts the document into parts that each fit the target
+export type CompressionMode = 'standard' | 'images' | 'lossless' | 'split';
+
+export interface CompressionRequest {
+  quality?: number;
+  targetSizeBytes?: number;
+  mode?: CompressionMode;
+  colorConversion?: ColorConversion;
+  // Pages to remove or turn into low-resolution placeholders first
+  pageReduction?: PageReduction;
+  // Encrypt the output like the upload (encrypted uploads only)
+  keepEncryption?: boolean;
+}
+
+// Failures caused by the Ghostscript limits, so clients can explain them
+export type JobErrorCode = 'GHOSTSCRIPT_TIMEOUT' | 'MEMORY_LIMIT' | 'OUTPUT_LIMIT';
 
 export interface Job {
   id: string;
-  status: 'pending' | 'estimating' | 'ready' | 'compressing' | 'done' | 'failed';
+  status: 'pending' | 'estimating' | 'ready' | 'compressing' | 'done' | 'failed' | 'cancelled';
   originalFilename: string;
   originalSize: number;
   uploadPath: string;
+  // Set when the job is one file of a batch upload
+  batchId?: string;
+  // Set for encrypted uploads; the password itself is only held in memory
+  encryption?: PdfEncryption;
+  // Set when the upload was damaged and has been repaired in place
+  repair?: RepairReport;
   estimates?: EstimationResult;
   compressionResult?: {
     outputPath: string;
@@ -21,20 +69,71 @@ export interface Job {
     verificationPassed: boolean;
     attempts: number;
     targetSizeBytes?: number;
+    mode?: CompressionMode;
+    colorConversion?: ColorConversion;
+    imagesRecompressed?: number;
+    // Pages that were removed or replaced with placeholders
+    reducedPages?: number[];
+    pageAction?: PageAction;
+    // The output was encrypted like the upload
+    encrypted?: boolean;
+    // Document features pdfwrite dropped: restored from the input, or lost
+    fidelity?: FidelityReport;
+    // Split mode: the output is a ZIP of these parts
+    parts?: {
+      filename: string;
+      firstPage: number;
+      lastPage: number;
+      compressedSize: number;
+      verificationPassed: boolean;
+    }[];
   };
+  // Kept so an interrupted compression can be resumed after a restart
+  compressionRequest?: CompressionRequest;
   error?: string;
+  errorCode?: JobErrorCode;
   progress?: number;
   progressMessage?: string;
+  // Page the current Ghostscript pass is on, while one is running
+  pageProgress?: PageProgress;
+  // Process working on the job (see PROCESS_ID), and when it last said so
+  // in milliseconds since the epoch
+  owner?: string;
+  heartbeatAt?: number;
   createdAt: Date;
   updatedAt: Date;
 }
 
-// In-memory job storage (for MVP - consider Redis for production persistence)
-const jobs = new Map<string, Job>();
+// Persistent job storage (file-backed by default, see jobStore.ts). Created
+// on first use, so it sees the configuration loaded at startup.
+let store: JobStore | null = null;
+
+function getStore(): JobStore {
+  store ??= createJobStore();
+  return store;
+}
+
+// Progress is written to the store at most this often per job
+const PROGRESS_WRITE_INTERVAL_MS = 500;
+// Progress updates waiting to be written, merged, keyed by job ID
+const pendingProgress = new Map<string, { updates: Partial<Job>; timer: NodeJS.Timeout }>();
+
+// Updates made by this process, keyed by job ID (see onJobUpdate)
+const jobEvents = new EventEmitter();
+// Every open event stream listens on its job
+jobEvents.setMaxListeners(0);
 
 // Bull queue for compression jobs
 let compressionQueue: Bull.Queue | null = null;
 
+// Processes sharing the job store tell their jobs apart by this
+const PROCESS_ID = `${os.hostname()}:${process.pid}:${uuidv4().slice(0, 8)}`;
+// How often running jobs are marked as alive
+const JOB_HEARTBEAT_MS = (Number(process.env.JOB_HEARTBEAT_SECONDS) || 30) * 1000;
+// A job unmarked for this long was left behind by a process that stopped
+const JOB_STALE_MS = JOB_HEARTBEAT_MS * 3;
+let heartbeat: NodeJS.Timeout | null = null;
+
 /**
  * Initialize the job queue
  */
@@ -61,74 +160,18 @@ export function initJobQueue(): void {
     });
 
     compressionQueue.process(1, async (bullJob) => {
-      const { jobId, quality, targetSizeBytes } = bullJob.data;
-      const job = jobs.get(jobId);
-
-      if (!job) {
-        throw new Error(`Job ${jobId} not found`);
-      }
-
-      updateJob(jobId, { status: 'compressing', progress: 0 });
-
-      const outputPath = getJobPath(jobId, 'compressed.pdf');
-
-      try {
-        let result;
-        let finalQuality = quality || 75;
-
-        if (targetSizeBytes) {
-          // Calculate optimal quality from estimates
-          if (job.estimates?.estimates) {
-            const bestQuality = findBestQuality(job.estimates.estimates, targetSizeBytes);
-            finalQuality = bestQuality.quality;
-            console.log(`Target: ${(targetSizeBytes / MB).toFixed(2)}MB, using quality ${finalQuality}%`);
-          }
-
-          // Single-pass compression at calculated quality
-          result = await compressToTargetSize(
-            job.uploadPath,
-            outputPath,
-            targetSizeBytes,
-            finalQuality,
-            (progress, message) => {
-              updateJob(jobId, { progress, progressMessage: message });
-              bullJob.progress(progress);
-            }
-          );
-        } else {
-          // Compress at specific quality
-          result = await compressPdf(job.uploadPath, outputPath, finalQuality);
-        }
-
-        // Check verification result for target-based compression
-        const verificationPassed = 'verificationPassed' in result
-          ? (result as { verificationPassed: boolean }).verificationPassed
-          : true;
-        const attempts = 'attempts' in result
-          ? (result as { attempts: number }).attempts
-          : 1;
-
-        updateJob(jobId, {
-          status: 'done',
-          progress: 100,
-          compressionResult: {
-            outputPath: result.outputPath,
-            compressedSize: result.compressedSize,
-            quality: 'quality' in result ? (result as { quality: number }).quality : finalQuality,
-            verificationPassed,
-            attempts,
-            targetSizeBytes,
-          },
-        });
-
-        return result;
-      } catch (err) {
-        updateJob(jobId, {
-          status: 'failed',
-          error: err instanceof Error ? err.message : 'Compression failed',
-        });
+      const { jobId, quality, targetSizeBytes, mode, colorConversion, pageReduction, keepEncryption } = bullJob.data;
+      const request = { quality, targetSizeBytes, mode, colorConversion, pageReduction, keepEncryption };
+
+      return runCompression(jobId, request, (progress) => {
+        bullJob.progress(progress);
+      }).catch(async (err) => {
+        // A cancelled job is finished, not failed; Bull would retry it
+        if (err instanceof JobCancelledError) return null;
+        // Hitting a limit again would only waste another attempt
+        if (getErrorCode(err)) await bullJob.discard();
         throw err;
-      }
+      });
     });
 
     compressionQueue.on('error', (err) => {
@@ -147,12 +190,281 @@ export function initJobQueue(): void {
 }
 
 /**
- * Create a new job
+ * Run compression for a job and record the result.
+ * Shared by the Bull worker and the direct (no Redis) path.
+ */
+async function runCompression(
+  jobId: string,
+  options: CompressionRequest,
+  onProgress?: (progress: number) => void
+) {
+  try {
+    return await runForJob(jobId, () => compressJob(jobId, options, onProgress));
+  } catch (err) {
+    // Ghostscript was killed mid-write; drop whatever it left behind
+    if (err instanceof JobCancelledError) {
+      await cleanupJob(jobId);
+    }
+    throw err;
+  }
+}
+
+/**
+ * Compress a job's upload with the requested options
+ */
+async function compressJob(
+  jobId: string,
+  options: CompressionRequest,
+  onProgress?: (progress: number) => void
+) {
+  const job = await getStore().get(jobId);
+
+  if (!job) {
+    throw new Error(`Job ${jobId} not found`);
+  }
+
+  await updateJob(jobId, {
+    status: 'compressing',
+    progress: 0,
+    pageProgress: undefined,
+    errorCode: undefined,
+    compressionRequest: options,
+    ...claimUpdates(),
+  });
+
+  const outputPath = getJobPath(jobId, 'compressed.pdf');
+  let decryptedPath: string | undefined;
+
+  try {
+    let result;
+    let finalQuality = options.quality || 75;
+    let inputPath = job.uploadPath;
+    let colorConversion = options.colorConversion || 'keep';
+
+    // Every stage below reads the document unencrypted
+    if (job.encryption) {
+      reportProgress(jobId, { progress: 2, progressMessage: 'Decrypting...' });
+      decryptedPath = await decryptUpload(jobId, job.uploadPath, 'compression');
+      inputPath = decryptedPath;
+    }
+    // The document as uploaded, before any colour conversion
+    const sourcePath = inputPath;
+
+    // Black & white: rasterize once, then compress the bilevel pages as grayscale
+    if (colorConversion === 'mono') {
+      reportProgress(jobId, { progress: 5, progressMessage: 'Converting pages to black & white...' });
+      const monoPath = getJobPath(jobId, 'mono.pdf');
+      await rasterizeToMono(inputPath, monoPath);
+      inputPath = monoPath;
+      colorConversion = 'grayscale';
+    }
+
+    if (options.mode === 'lossless') {
+      const lossless = await compressLossless(
+        inputPath,
+        outputPath,
+        (progress, message) => {
+          reportProgress(jobId, { progress, progressMessage: message });
+          onProgress?.(progress);
+        }
+      );
+      // Image quality is untouched; the target (if any) is checked but not enforced
+      finalQuality = 100;
+      result = {
+        ...lossless,
+        verificationPassed: options.targetSizeBytes
+          ? lossless.compressedSize <= options.targetSizeBytes
+          : true,
+      };
+    } else if (options.mode === 'split' && options.targetSizeBytes) {
+      // Parts of the document, each verified against the target
+      result = await splitToTargetSize(
+        inputPath,
+        getJobPath(jobId, 'parts.zip'),
+        options.targetSizeBytes,
+        {
+          originalFilename: job.originalFilename,
+          estimates: job.estimates?.estimates,
+          onProgress: (progress, message) => {
+            reportProgress(jobId, { progress, progressMessage: message });
+            onProgress?.(progress);
+          },
+        }
+      );
+    } else if (options.mode === 'images' && options.targetSizeBytes) {
+      // Per-image recompression: only the largest images are touched
+      result = await recompressImages(
+        inputPath,
+        outputPath,
+        options.targetSizeBytes,
+        (progress, message) => {
+          reportProgress(jobId, { progress, progressMessage: message });
+          onProgress?.(progress);
+        }
+      );
+    } else if (options.pageReduction) {
+      // Heavy pages go first, then the rest is compressed as usual
+      result = await compressWithPageReduction(inputPath, outputPath, options.pageReduction, {
+        quality: finalQuality,
+        targetSizeBytes: options.targetSizeBytes,
+        originalSize: job.originalSize,
+        pages: job.estimates?.analysis?.pages,
+        estimates: job.estimates?.estimates,
+        colorConversion,
+        onProgress: (progress, message, pages) => {
+          reportProgress(jobId, { progress, progressMessage: message, pageProgress: pages });
+          onProgress?.(progress);
+        },
+      });
+    } else if (options.targetSizeBytes) {
+      // Start the search from the estimates' recommendation and bracket
+      let bracket: { low: number; high: number } | undefined;
+      if (job.estimates?.estimates) {
+        const bestQuality = findBestQuality(job.estimates.estimates, options.targetSizeBytes);
+        finalQuality = bestQuality.quality;
+        bracket = findQualityBracket(job.estimates.estimates, options.targetSizeBytes);
+        console.log(`Target: ${(options.targetSizeBytes / MB).toFixed(2)}MB, starting at quality ${finalQuality}%`);
+      }
+
+      // Bisection search for the highest quality that fits
+      result = await compressToTargetSize(
+        inputPath,
+        outputPath,
+        options.targetSizeBytes,
+        {
+          initialQuality: finalQuality,
+          bracket,
+          colorConversion,
+          onProgress: (progress, message, pages) => {
+            reportProgress(jobId, { progress, progressMessage: message, pageProgress: pages });
+            onProgress?.(progress);
+          },
+        }
+      );
+    } else {
+      // Compress at specific quality
+      result = await compressPdf(inputPath, outputPath, finalQuality, {
+        colorConversion,
+        onProgress: (pages) => {
+          const progress = 5 + Math.round(((pages.page - 1) / pages.pageCount) * 90);
+          reportProgress(jobId, {
+            progress,
+            progressMessage: `Compressing page ${pages.page} of ${pages.pageCount}...`,
+            pageProgress: pages,
+          });
+          onProgress?.(progress);
+        },
+      });
+    }
+
+    // Check verification result for target-based compression
+    let verificationPassed = 'verificationPassed' in result
+      ? (result as { verificationPassed: boolean }).verificationPassed
+      : true;
+    const attempts = 'attempts' in result
+      ? (result as { attempts: number }).attempts
+      : 1;
+
+    // Outlines, links, forms and the like that pdfwrite dropped are copied
+    // back, as long as the file still fits a target it met
+    let fidelity: FidelityReport | undefined;
+    if (options.mode !== 'split') {
+      reportProgress(jobId, { progress: 96, progressMessage: 'Checking document features...', pageProgress: undefined });
+      try {
+        fidelity = await preserveDocumentFeatures(sourcePath, result.outputPath, {
+          maxSize: verificationPassed ? options.targetSizeBytes : undefined,
+          // Reduced and black & white pages no longer line up with the upload's
+          pagesUnchanged: !options.pageReduction && options.colorConversion !== 'mono',
+        });
+        if (fidelity.regrafted.length > 0) {
+          result = { ...result, compressedSize: (await fs.stat(result.outputPath)).size };
+        }
+      } catch (err) {
+        console.error(`Fidelity check failed for job ${jobId}:`, err);
+      }
+    }
+
+    // Encryption changes the size a little, so the target is checked again
+    const keptEncryption = options.keepEncryption ? job.encryption : undefined;
+    if (keptEncryption) {
+      reportProgress(jobId, { progress: 98, progressMessage: 'Re-applying encryption...', pageProgress: undefined });
+      const compressedSize = await reapplyEncryption(jobId, result.outputPath, keptEncryption);
+      result = { ...result, compressedSize };
+      if (options.targetSizeBytes && compressedSize > options.targetSizeBytes) {
+        verificationPassed = false;
+      }
+      // Encrypting is another pdfwrite pass
+      if (fidelity) {
+        const lost = await findLostFeatures(sourcePath, result.outputPath);
+        fidelity = { ...fidelity, regrafted: fidelity.regrafted.filter((feature) => !lost.includes(feature)), lost };
+      }
+    }
+
+    // Finished just as it was cancelled: the cancellation stands
+    if (isJobCancelled(jobId)) {
+      throw new JobCancelledError();
+    }
+
+    await updateJob(jobId, {
+      status: 'done',
+      progress: 100,
+      pageProgress: undefined,
+      compressionResult: {
+        outputPath: result.outputPath,
+        compressedSize: result.compressedSize,
+        quality: 'quality' in result ? (result as { quality: number }).quality : finalQuality,
+        verificationPassed,
+        attempts,
+        targetSizeBytes: options.targetSizeBytes,
+        mode: options.mode || 'standard',
+        colorConversion: options.colorConversion || 'keep',
+        imagesRecompressed: 'imagesRecompressed' in result
+          ? (result as { imagesRecompressed: number }).imagesRecompressed
+          : undefined,
+        reducedPages: 'reducedPages' in result
+          ? (result as { reducedPages: number[] }).reducedPages
+          : undefined,
+        pageAction: options.pageReduction?.action,
+        encrypted: keptEncryption ? true : undefined,
+        fidelity,
+        parts: 'parts' in result
+          ? (result as SplitResult).parts.map((part) => ({
+              filename: part.filename,
+              firstPage: part.firstPage,
+              lastPage: part.lastPage,
+              compressedSize: part.compressedSize,
+              verificationPassed: part.verificationPassed,
+            }))
+          : undefined,
+      },
+    });
+
+    return result;
+  } catch (err) {
+    // The cancel request has already recorded the job's status
+    if (!isJobCancelled(jobId)) {
+      await updateJob(jobId, {
+        status: 'failed',
+        pageProgress: undefined,
+        error: err instanceof Error ? err.message : 'Compression failed',
+        errorCode: getErrorCode(err),
+      });
+    }
+    throw err;
+  } finally {
+    if (decryptedPath) await fs.unlink(decryptedPath).catch(() => {});
+  }
+}
+
+/**
+ * Create a new job. An encrypted upload's password is held in memory only.
  */
 export async function createJob(
   originalFilename: string,
   originalSize: number,
-  uploadPath: string
+  uploadPath: string,
+  batchId?: string,
+  encrypted?: EncryptedUpload
 ): Promise<Job> {
   await ensureTempDir();
 
@@ -162,14 +474,22 @@ export async function createJob(
     originalFilename,
     originalSize,
     uploadPath,
+    batchId,
+    encryption: encrypted?.encryption,
+    ...claimUpdates(),
     createdAt: new Date(),
     updatedAt: new Date(),
   };
 
-  jobs.set(job.id, job);
+  if (encrypted) {
+    setJobPassword(job.id, encrypted.password);
+  }
+  await getStore().set(job);
 
   // Start estimation in background
-  startEstimation(job.id);
+  startEstimation(job.id).catch((err) => {
+    console.error(`Failed to record estimation of job ${job.id}:`, err);
+  });
 
   return job;
 }
@@ -177,63 +497,187 @@ export async function createJob(
 /**
  * Get a job by ID
  */
-export function getJob(jobId: string): Job | undefined {
-  return jobs.get(jobId);
+export async function getJob(jobId: string): Promise<Job | undefined> {
+  return getStore().get(jobId);
 }
 
 /**
  * Update a job
  */
-export function updateJob(jobId: string, updates: Partial<Job>): Job | undefined {
-  const job = jobs.get(jobId);
-  if (!job) return undefined;
+export async function updateJob(jobId: string, updates: Partial<Job>): Promise<Job | undefined> {
+  discardProgress(jobId);
+  const job = await getStore().update(jobId, updates);
+  if (job) {
+    jobEvents.emit(jobId, job);
+  }
+  return job;
+}
 
-  const updated = {
-    ...job,
-    ...updates,
-    updatedAt: new Date(),
+/**
+ * Call `listener` with the updated job whenever this process updates it.
+ * Updates made by a Bull worker in another process are not seen here.
+ * Returns a function that stops listening.
+ */
+export function onJobUpdate(jobId: string, listener: (job: Job) => void): () => void {
+  jobEvents.on(jobId, listener);
+  return () => {
+    jobEvents.off(jobId, listener);
   };
-  jobs.set(jobId, updated);
-  return updated;
+}
+
+/**
+ * Error code for failures caused by the Ghostscript limits
+ */
+function getErrorCode(err: unknown): JobErrorCode | undefined {
+  if (err instanceof GhostscriptTimeoutError) return 'GHOSTSCRIPT_TIMEOUT';
+  if (err instanceof ResourceLimitError) {
+    return err.limit === 'memory' ? 'MEMORY_LIMIT' : 'OUTPUT_LIMIT';
+  }
+  return undefined;
+}
+
+/**
+ * Fire-and-forget update for progress callbacks, which can't await.
+ * Ghostscript reports every page, so updates are merged and written at most
+ * every PROGRESS_WRITE_INTERVAL_MS rather than rewriting the record each time.
+ */
+function reportProgress(jobId: string, updates: Partial<Job>): void {
+  // Work that is winding down after a cancel still reports progress
+  if (isJobCancelled(jobId)) return;
+
+  const pending = pendingProgress.get(jobId);
+  if (pending) {
+    Object.assign(pending.updates, updates);
+    return;
+  }
+  pendingProgress.set(jobId, {
+    updates: { ...updates },
+    timer: setTimeout(() => flushProgress(jobId), PROGRESS_WRITE_INTERVAL_MS),
+  });
+}
+
+/**
+ * Write a job's merged progress updates
+ */
+function flushProgress(jobId: string): void {
+  const pending = pendingProgress.get(jobId);
+  if (!pending) return;
+  pendingProgress.delete(jobId);
+  if (isJobCancelled(jobId)) return;
+
+  updateJob(jobId, pending.updates).catch((err) => {
+    console.error(`Failed to record progress for job ${jobId}:`, err);
+  });
+}
+
+/**
+ * Drop progress not yet written; a later update (done, failed, cancelled)
+ * supersedes it and must not be overwritten by it
+ */
+function discardProgress(jobId: string): void {
+  const pending = pendingProgress.get(jobId);
+  if (!pending) return;
+  clearTimeout(pending.timer);
+  pendingProgress.delete(jobId);
+}
+
+/**
+ * Take a job on in this process, and keep marking the jobs this process
+ * runs as alive, so recovery elsewhere leaves them alone
+ */
+function claimUpdates(): Pick<Job, 'owner' | 'heartbeatAt'> {
+  heartbeat ??= setInterval(() => {
+    for (const jobId of getRunningJobIds()) {
+      getStore().update(jobId, { heartbeatAt: Date.now() }).catch((err) => {
+        console.error(`Failed to mark job ${jobId} as alive:`, err);
+      });
+    }
+  }, JOB_HEARTBEAT_MS);
+  heartbeat.unref();
+  return { owner: PROCESS_ID, heartbeatAt: Date.now() };
+}
+
+/**
+ * Whether the process working on a job has stopped marking it as alive
+ */
+function isAbandoned(job: Job): boolean {
+  const lastSeen = Math.max(job.heartbeatAt ?? 0, job.updatedAt.getTime());
+  return Date.now() - lastSeen > JOB_STALE_MS;
 }
 
 /**
  * Start size estimation for a job
  */
 async function startEstimation(jobId: string): Promise<void> {
-  const job = jobs.get(jobId);
+  const job = await getStore().get(jobId);
   if (!job) return;
 
-  updateJob(jobId, { status: 'estimating', progress: 0 });
-
+  let decryptedPath: string | undefined;
   try {
-    const estimates = await estimateSizes(job.uploadPath, jobId, (message) => {
-      // Update progress message during estimation
-      updateJob(jobId, { progressMessage: message });
+    await updateJob(jobId, { status: 'estimating', progress: 0, ...claimUpdates() });
+    const estimates = await runForJob(jobId, async () => {
+      if (job.encryption) {
+        reportProgress(jobId, { progressMessage: 'Decrypting...' });
+        decryptedPath = await decryptUpload(jobId, job.uploadPath, 'estimation');
+      } else {
+        // Decrypting already rewrites an encrypted upload through Ghostscript,
+        // which repairs what it can
+        const repair = await repairPdf(job.uploadPath, jobId, (message) => {
+          reportProgress(jobId, { progressMessage: message });
+        });
+        if (repair) {
+          await updateJob(jobId, { repair });
+        }
+      }
+      return estimateSizes(decryptedPath ?? job.uploadPath, jobId, (message) => {
+        // Update progress message during estimation
+        reportProgress(jobId, { progressMessage: message });
+      });
     });
-    updateJob(jobId, {
+    await updateJob(jobId, {
       status: 'ready',
       estimates,
       progress: 100,
       progressMessage: 'Analysis complete',
     });
   } catch (err) {
+    // Status was recorded by the cancel request; only the samples are left
+    if (err instanceof JobCancelledError) {
+      await cleanupJob(jobId);
+      return;
+    }
+
     console.error(`Estimation failed for job ${jobId}:`, err);
 
     // Handle corrupt PDF errors with user-friendly message
     if (err instanceof CorruptPdfError) {
-      updateJob(jobId, {
+      await updateJob(jobId, {
         status: 'failed',
         error: err.message,
       });
       return;
     }
 
+    // Compression would run into the same limit
+    const errorCode = getErrorCode(err);
+    if (errorCode) {
+      await updateJob(jobId, {
+        status: 'failed',
+        error: (err as Error).message,
+        errorCode,
+      });
+      return;
+    }
+
     // For other errors, still allow compression attempt
-    updateJob(jobId, {
+    await updateJob(jobId, {
       status: 'ready',
-      error: 'Estimation failed, but you can still compress',
+      error: err instanceof PasswordRequiredError
+        ? err.message
+        : 'Estimation failed, but you can still compress',
     });
+  } finally {
+    if (decryptedPath) await fs.unlink(decryptedPath).catch(() => {});
   }
 }
 
@@ -242,9 +686,9 @@ async function startEstimation(jobId: string): Promise<void> {
  */
 export async function queueCompression(
   jobId: string,
-  options: { quality?: number; targetSizeBytes?: number }
+  options: CompressionRequest
 ): Promise<void> {
-  const job = jobs.get(jobId);
+  const job = await getStore().get(jobId);
   if (!job) {
     throw new Error('Job not found');
   }
@@ -259,61 +703,137 @@ export async function queueCompression(
       jobId,
       quality: options.quality || 75,
       targetSizeBytes: options.targetSizeBytes,
+      mode: options.mode,
+      colorConversion: options.colorConversion,
+      pageReduction: options.pageReduction,
+      keepEncryption: options.keepEncryption,
     });
   } else {
-    // Fallback: run compression directly (no Redis)
-    updateJob(jobId, { status: 'compressing', progress: 0 });
+    // Fallback: run compression directly (no Redis), without holding the
+    // request open until it's done. Failure is recorded on the job.
+    void runCompression(jobId, options).catch(() => {});
+  }
+}
 
-    const outputPath = getJobPath(jobId, 'compressed.pdf');
+/**
+ * Cancel a job's estimation or compression.
+ *
+ * Compressions still waiting in the Bull queue are removed and running
+ * Ghostscript processes are killed; partial output is deleted once the
+ * killed work has wound down. Returns false when there was nothing to stop.
+ */
+export async function cancelJob(jobId: string): Promise<boolean> {
+  let removed = 0;
+  if (compressionQueue) {
+    const queued = await compressionQueue.getJobs(['waiting', 'delayed']);
+    const mine = queued.filter((bullJob) => bullJob.data.jobId === jobId);
+    await Promise.all(mine.map((bullJob) => bullJob.remove()));
+    removed = mine.length;
+  }
 
-    try {
-      let result;
-      let finalQuality = options.quality || 75;
-
-      if (options.targetSizeBytes) {
-        // Calculate optimal quality from estimates
-        if (job.estimates?.estimates) {
-          const bestQuality = findBestQuality(job.estimates.estimates, options.targetSizeBytes);
-          finalQuality = bestQuality.quality;
-          console.log(`Target: ${(options.targetSizeBytes / MB).toFixed(2)}MB, using quality ${finalQuality}%`);
-        }
+  const stopped = cancelJobWork(jobId);
+  if (!stopped && removed === 0) {
+    return false;
+  }
 
-        // Single-pass compression at calculated quality
-        result = await compressToTargetSize(
-          job.uploadPath,
-          outputPath,
-          options.targetSizeBytes,
-          finalQuality,
-          (progress, message) => {
-            updateJob(jobId, { progress, progressMessage: message });
-          }
-        );
-      } else {
-        result = await compressPdf(job.uploadPath, outputPath, finalQuality);
-      }
+  await updateJob(jobId, {
+    status: 'cancelled',
+    progressMessage: 'Cancelled',
+    pageProgress: undefined,
+    error: undefined,
+  });
+  return true;
+}
 
-      // Check verification result for target-based compression
-      const verificationPassed = 'verificationPassed' in result ? (result as { verificationPassed: boolean }).verificationPassed : true;
-      const attempts = 'attempts' in result ? (result as { attempts: number }).attempts : 1;
-
-      updateJob(jobId, {
-        status: 'done',
-        progress: 100,
-        compressionResult: {
-          outputPath: result.outputPath,
-          compressedSize: result.compressedSize,
-          quality: 'quality' in result ? (result as { quality: number }).quality : finalQuality,
-          verificationPassed,
-          attempts,
-          targetSizeBytes: options.targetSizeBytes,
-        },
-      });
+/**
+ * Pick up jobs that were interrupted by a restart.
+ *
+ * Only jobs whose process stopped marking them as alive are taken, so
+ * processes sharing the store never run the same job twice; a job is
+ * claimed in the store before it is resumed. Run periodically, this also
+ * takes over the jobs of a process that died.
+ *
+ * Estimation is simply started again from the uploaded file. Compression is
+ * re-run in direct mode; with Bull the queued job lives in Redis and is
+ * retried by the queue itself. Jobs whose upload is gone are marked failed.
+ */
+export async function recoverInterruptedJobs(): Promise<void> {
+  let jobs: Job[];
+  try {
+    jobs = await getStore().list();
+  } catch (err) {
+    console.error('Failed to list stored jobs for recovery:', err);
+    return;
+  }
+
+  for (const job of jobs) {
+    try {
+      await recoverJob(job);
     } catch (err) {
-      updateJob(jobId, {
+      console.error(`Failed to recover job ${job.id}:`, err);
+    }
+  }
+}
+
+/**
+ * Resume one job, if it was interrupted and no other process has taken it
+ */
+async function recoverJob(job: Job): Promise<void> {
+  if (job.status !== 'pending' && job.status !== 'estimating' && job.status !== 'compressing') {
+    return;
+  }
+  if (job.status === 'compressing' && compressionQueue) return;
+
+  const claimed = await getStore().update(job.id, (current) =>
+    current.status === job.status && isAbandoned(current) ? claimUpdates() : undefined
+  );
+  if (!claimed) return;
+
+  if ((await getFileSize(job.uploadPath)) === null) {
+    await updateJob(job.id, {
+      status: 'failed',
+      error: 'The server restarted and the uploaded file is no longer available. Please upload it again.',
+    });
+    return;
+  }
+
+  if (job.status === 'compressing') {
+    if (!job.compressionRequest) {
+      await updateJob(job.id, {
         status: 'failed',
-        error: err instanceof Error ? err.message : 'Compression failed',
+        error: 'Compression was interrupted by a server restart. Please start it again.',
       });
+      return;
     }
+
+    console.log(`Resuming interrupted compression for job ${job.id}`);
+    runCompression(job.id, job.compressionRequest).catch(() => {
+      // Failure is recorded on the job
+    });
+    return;
+  }
+
+  console.log(`Resuming interrupted estimation for job ${job.id}`);
+  startEstimation(job.id).catch((err) => {
+    console.error(`Failed to record estimation of job ${job.id}:`, err);
+  });
+}
+
+/**
+ * Delete jobs (and their files) that haven't been touched for a while
+ */
+export async function pruneJobs(maxAgeMinutes: number): Promise<void> {
+  const cutoff = Date.now() - maxAgeMinutes * 60 * 1000;
+
+  try {
+    const jobs = await getStore().list();
+    for (const job of jobs) {
+      if (job.updatedAt.getTime() < cutoff) {
+        await deleteJob(job.id);
+      }
+    }
+  } catch (err) {
+    console.error('Failed to prune old jobs:', err);
   }
 }
 
@@ -321,8 +841,9 @@ export async function queueCompression(
  * Delete a job and clean up its files
  */
 export async function deleteJob(jobId: string): Promise<void> {
+  forgetJobPassword(jobId);
   await cleanupJob(jobId);
-  jobs.delete(jobId);
+  await getStore().delete(jobId);
 }
 
 /**
@@ -0,0 +1,259 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Job } from './jobQueue.js';
+import { getTempDir } from '../utils/tempFiles.js';
+
+/**
+ * Anything the stores can hold: jobs, batches
+ */
+export interface StoredRecord {
+  id: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Storage backend for jobs and batches.
+ *
+ * Implementations must be safe to call concurrently for the same record:
+ * `update` is a read-modify-write and must not lose fields written by
+ * an overlapping call.
+ *
+ * `updates` can be a function of the current record, returning undefined
+ * to leave it as it is; `update` then resolves with undefined. No other
+ * update to the record comes between the two.
+ */
+export interface RecordStore<T extends StoredRecord> {
+  get(id: string): Promise<T | undefined>;
+  set(record: T): Promise<void>;
+  update(id: string, updates: RecordUpdates<T>): Promise<T | undefined>;
+  delete(id: string): Promise<void>;
+  list(): Promise<T[]>;
+}
+
+export type RecordUpdates<T> = Partial<T> | ((record: T) => Partial<T> | undefined);
+
+export type JobStore = RecordStore<Job>;
+
+/**
+ * Process-local store. Records are lost on restart - useful for development
+ * and for running without a writable data directory.
+ */
+export class MemoryStore<T extends StoredRecord> implements RecordStore<T> {
+  private records = new Map<string, T>();
+
+  async get(id: string): Promise<T | undefined> {
+    return this.records.get(id);
+  }
+
+  async set(record: T): Promise<void> {
+    this.records.set(record.id, record);
+  }
+
+  async update(id: string, updates: RecordUpdates<T>): Promise<T | undefined> {
+    const record = this.records.get(id);
+    const changes = record && (typeof updates === 'function' ? updates(record) : updates);
+    if (!record || !changes) return undefined;
+
+    const updated = {
+      ...record,
+      ...changes,
+      updatedAt: new Date(),
+    };
+    this.records.set(id, updated);
+    return updated;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+
+  async list(): Promise<T[]> {
+    return [...this.records.values()];
+  }
+}
+
+// How often a writer retries a record locked by another process
+const LOCK_RETRY_MS = 20;
+// Locks older than this were left behind by a process that died holding them
+const LOCK_STALE_MS = 10 * 1000;
+
+/**
+ * File-backed store: one JSON document per record.
+ *
+ * Writes go to a temp file and are renamed into place, so a reader in
+ * another process (e.g. a separate Bull worker sharing the volume) never
+ * sees a half-written record. Writers take a lock file next to the record,
+ * so an update in one process can't overwrite fields another process wrote
+ * between its read and its write.
+ */
+export class FileStore<T extends StoredRecord> implements RecordStore<T> {
+  // Per-record write chains so overlapping updates are applied in order
+  private pending = new Map<string, Promise<unknown>>();
+  private ready: Promise<void>;
+
+  constructor(private dir: string) {
+    this.ready = fs.mkdir(dir, { recursive: true }).then(() => undefined);
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    await this.ready;
+    return this.read(id);
+  }
+
+  async set(record: T): Promise<void> {
+    await this.serialize(record.id, () => this.write(record));
+  }
+
+  async update(id: string, updates: RecordUpdates<T>): Promise<T | undefined> {
+    return this.serialize(id, async () => {
+      const record = await this.read(id);
+      const changes = record && (typeof updates === 'function' ? updates(record) : updates);
+      if (!record || !changes) return undefined;
+
+      const updated = {
+        ...record,
+        ...changes,
+        updatedAt: new Date(),
+      };
+      await this.write(updated);
+      return updated;
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.serialize(id, async () => {
+      try {
+        await fs.unlink(this.filePath(id));
+      } catch {
+        // Already gone
+      }
+    });
+  }
+
+  async list(): Promise<T[]> {
+    await this.ready;
+    const files = await fs.readdir(this.dir);
+    const records: T[] = [];
+
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue;
+      const record = await this.read(path.basename(file, '.json'));
+      if (record) records.push(record);
+    }
+
+    return records;
+  }
+
+  private filePath(id: string): string {
+    // IDs are UUIDs; strip anything else so a crafted ID can't escape the directory
+    return path.join(this.dir, `${id.replace(/[^a-zA-Z0-9-]/g, '')}.json`);
+  }
+
+  private async read(id: string): Promise<T | undefined> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath(id), 'utf-8');
+    } catch {
+      return undefined;
+    }
+
+    try {
+      const parsed = JSON.parse(raw);
+      return {
+        ...parsed,
+        createdAt: new Date(parsed.createdAt),
+        updatedAt: new Date(parsed.updatedAt),
+      };
+    } catch (err) {
+      console.error(`Corrupt record ${id} in ${this.dir}:`, err);
+      return undefined;
+    }
+  }
+
+  private async write(record: T): Promise<void> {
+    await this.ready;
+    const target = this.filePath(record.id);
+    const tmp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(record));
+    await fs.rename(tmp, target);
+  }
+
+  /**
+   * Take the record's lock file, waiting while another process holds it.
+   * Resolves with a function that releases it.
+   */
+  private async lock(id: string): Promise<() => Promise<void>> {
+    await this.ready;
+    const lockPath = `${this.filePath(id)}.lock`;
+
+    for (;;) {
+      try {
+        const handle = await fs.open(lockPath, 'wx');
+        await handle.close();
+        return () => fs.unlink(lockPath).catch(() => {});
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+      }
+
+      const stats = await fs.stat(lockPath).catch(() => null);
+      if (stats && Date.now() - stats.mtimeMs > LOCK_STALE_MS) {
+        await fs.unlink(lockPath).catch(() => {});
+        continue;
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  /**
+   * Run `task` after this process's earlier tasks on the record, holding
+   * the record's lock file
+   */
+  private serialize<R>(id: string, task: () => Promise<R>): Promise<R> {
+    const previous = this.pending.get(id) ?? Promise.resolve();
+    const next = previous.catch(() => {}).then(async () => {
+      const unlock = await this.lock(id);
+      try {
+        return await task();
+      } finally {
+        await unlock();
+      }
+    });
+    this.pending.set(id, next);
+    next.finally(() => {
+      if (this.pending.get(id) === next) {
+        this.pending.delete(id);
+      }
+    }).catch(() => {});
+    return next;
+  }
+}
+
+/**
+ * Create the store selected by JOB_STORE ('file' by default, or 'memory').
+ * File records live in JOB_STORE_DIR, defaulting to a `jobs` folder in TEMP_DIR.
+ */
+export function createJobStore(): JobStore {
+  return createStore<Job>(getStoreDir());
+}
+
+/**
+ * Batches use the same backend as jobs, in a `batches` subfolder
+ */
+export function createBatchStore<T extends StoredRecord>(): RecordStore<T> {
+  return createStore<T>(path.join(getStoreDir(), 'batches'));
+}
+
+function getStoreDir(): string {
+  return process.env.JOB_STORE_DIR || path.join(getTempDir(), 'jobs');
+}
+
+function createStore<T extends StoredRecord>(dir: string): RecordStore<T> {
+  const kind = process.env.JOB_STORE || 'file';
+
+  if (kind === 'memory') {
+    return new MemoryStore<T>();
+  }
+
+  return new FileStore<T>(dir);
+}
@@ -0,0 +1,158 @@
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import { PDFDocument, PDFName, PDFDict, PDFArray, PDFRawStream, PDFRef, PDFObject } from 'pdf-lib';
+import pako from 'pako';
+import { rewriteLossless, CompressionResult } from './ghostscript.js';
+
+/**
+ * Shrink a PDF without changing how anything looks.
+ *
+ * Two candidates are built - the original and a Ghostscript lossless
+ * rewrite (unused resources dropped, fonts subset, duplicate images
+ * merged), each then run through pdf-lib to merge duplicate streams,
+ * recompress every stream with maximum Flate and write object and xref
+ * streams. The smallest of the two (or the original, if neither helps)
+ * is kept.
+ */
+export async function compressLossless(
+  inputPath: string,
+  outputPath: string,
+  onProgress?: (percent: number, message: string) => void
+): Promise<CompressionResult> {
+  const inputBytes = await fs.readFile(inputPath);
+  const originalSize = inputBytes.length;
+  const candidates: Uint8Array[] = [inputBytes];
+
+  onProgress?.(10, 'Rewriting document structure...');
+  const rewrittenPath = outputPath.replace(/\.pdf$/i, '') + '_gs.pdf';
+  try {
+    await rewriteLossless(inputPath, rewrittenPath);
+    const rewritten = await fs.readFile(rewrittenPath);
+    onProgress?.(50, 'Recompressing streams...');
+    candidates.push(await optimizeStreams(rewritten));
+  } catch (err) {
+    console.error('Lossless Ghostscript rewrite failed, using pdf-lib only:', err);
+  } finally {
+    await fs.unlink(rewrittenPath).catch(() => {});
+  }
+
+  onProgress?.(75, 'Recompressing streams...');
+  try {
+    candidates.push(await optimizeStreams(inputBytes));
+  } catch (err) {
+    console.error('Lossless stream optimization failed:', err);
+  }
+
+  const best = candidates.reduce((a, b) => (b.length < a.length ? b : a));
+  await fs.writeFile(outputPath, best);
+
+  onProgress?.(100, 'Compression complete');
+
+  return {
+    outputPath,
+    originalSize,
+    compressedSize: best.length,
+    compressionRatio: originalSize > 0 ? best.length / originalSize : 1,
+  };
+}
+
+/**
+ * Merge identical streams, recompress streams with maximum Flate and save
+ * with object streams (which also means a cross-reference stream).
+ */
+export async function optimizeStreams(pdfBytes: Uint8Array): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(pdfBytes, { ignoreEncryption: true, updateMetadata: false });
+  const context = pdfDoc.context;
+
+  mergeDuplicateStreams(pdfDoc);
+
+  context.enumerateIndirectObjects().forEach(([ref, obj]) => {
+    if (!(obj instanceof PDFRawStream)) return;
+
+    // XMP metadata is conventionally left uncompressed so tools can find it
+    if (obj.dict.get(PDFName.of('Type'))?.toString() === '/Metadata') return;
+
+    const filter = obj.dict.get(PDFName.of('Filter'));
+    let decoded: Uint8Array;
+
+    try {
+      if (!filter) {
+        decoded = obj.contents;
+      } else if (filter.toString() === '/FlateDecode') {
+        // Predictor-encoded data is re-deflated as-is, so DecodeParms stay valid
+        decoded = pako.inflate(obj.contents);
+      } else {
+        // JPEG, CCITT, LZW, multi-filter chains etc. are left untouched
+        return;
+      }
+    } catch {
+      return;
+    }
+
+    const recompressed = pako.deflate(decoded, { level: 9 });
+    if (recompressed.length >= obj.contents.length) return;
+
+    const dict = obj.dict.clone(context);
+    dict.set(PDFName.of('Filter'), PDFName.of('FlateDecode'));
+    context.assign(ref, PDFRawStream.of(dict, recompressed));
+  });
+
+  return pdfDoc.save({ useObjectStreams: true });
+}
+
+/**
+ * Point every reference to a byte-identical stream at a single copy
+ */
+function mergeDuplicateStreams(pdfDoc: PDFDocument): void {
+  const context = pdfDoc.context;
+  const canonical = new Map<string, PDFRef>();
+  const replacements = new Map<PDFRef, PDFRef>();
+
+  context.enumerateIndirectObjects().forEach(([ref, obj]) => {
+    if (!(obj instanceof PDFRawStream)) return;
+
+    const hash = createHash('sha1')
+      .update(obj.dict.toString())
+      .update(obj.contents)
+      .digest('hex');
+
+    const existing = canonical.get(hash);
+    if (existing) {
+      replacements.set(ref, existing);
+    } else {
+      canonical.set(hash, ref);
+    }
+  });
+
+  if (replacements.size === 0) return;
+
+  const rewrite = (obj: PDFObject | undefined): void => {
+    if (obj instanceof PDFDict) {
+      for (const [key, value] of obj.entries()) {
+        const replacement = value instanceof PDFRef ? replacements.get(value) : undefined;
+        if (replacement) {
+          obj.set(key, replacement);
+        } else {
+          rewrite(value);
+        }
+      }
+    } else if (obj instanceof PDFArray) {
+      for (let i = 0; i < obj.size(); i++) {
+        const value = obj.get(i);
+        const replacement = value instanceof PDFRef ? replacements.get(value) : undefined;
+        if (replacement) {
+          obj.set(i, replacement);
+        } else {
+          rewrite(value);
+        }
+      }
+    } else if (obj instanceof PDFRawStream) {
+      rewrite(obj.dict);
+    }
+  };
+
+  context.enumerateIndirectObjects().forEach(([, obj]) => rewrite(obj));
+  for (const ref of replacements.keys()) {
+    context.delete(ref);
+  }
+}
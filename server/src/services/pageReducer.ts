@@ -0,0 +1,246 @@
+import { promises as fs } from 'fs';
+import { PDFDocument } from 'pdf-lib';
+import {
+  compressPdf,
+  compressToTargetSize,
+  extractPages,
+  renderImagePages,
+  ColorConversion,
+  PageProgress,
+  VerifiedCompressionResult,
+} from './ghostscript.js';
+import { PageSizeInfo } from './analyzer.js';
+import { SizeEstimate, estimateSizeAtQuality } from './sampler.js';
+
+// Placeholder pages are rendered at this resolution
+const PLACEHOLDER_DPI = Number(process.env.PLACEHOLDER_DPI) || 50;
+const PLACEHOLDER_JPEG_QUALITY = 50;
+// Rough size of one placeholder page, used when picking pages
+const PLACEHOLDER_PAGE_BYTES = 30 * 1000;
+// With automatic selection the remaining pages should keep this quality
+const AUTO_KEEP_QUALITY = 75;
+// Pick pages until the estimate is this fraction of the target
+const AUTO_FILL_RATIO = 0.9;
+// Extra pages are picked at most this many times when the result is too big
+const MAX_REDUCTION_ROUNDS = 3;
+
+// 'remove' deletes the pages, 'placeholder' keeps them as low-resolution images
+export type PageAction = 'remove' | 'placeholder';
+
+export interface PageReduction {
+  // 1-based page numbers, or 'auto' to take the heaviest pages until the
+  // target is met
+  pages: number[] | 'auto';
+  action: PageAction;
+}
+
+export interface PageReductionResult extends VerifiedCompressionResult {
+  reducedPages: number[];
+}
+
+/**
+ * Bytes saved by reducing a page, given how much stored bytes shrink
+ */
+function pageSavings(page: PageSizeInfo, ratio: number, action: PageAction): number {
+  const size = page.totalBytes * ratio;
+  return action === 'remove' ? size : size - PLACEHOLDER_PAGE_BYTES;
+}
+
+/**
+ * Add the heaviest pages to a selection until `bytesToSave` is covered.
+ *
+ * `ratio` converts a page's stored bytes to its expected compressed size.
+ * Pages that wouldn't get smaller as a placeholder are never picked, and
+ * removal always leaves at least one page.
+ */
+export function pickHeaviestPages(
+  pages: PageSizeInfo[],
+  ratio: number,
+  bytesToSave: number,
+  action: PageAction,
+  selected: number[] = []
+): number[] {
+  const picked = new Set(selected);
+  const candidates = pages
+    .filter((page) => !picked.has(page.pageNumber) && pageSavings(page, ratio, action) > 0)
+    .sort((a, b) => b.totalBytes - a.totalBytes);
+  let saved = 0;
+
+  for (const page of candidates) {
+    if (saved >= bytesToSave) break;
+    if (action === 'remove' && picked.size >= pages.length - 1) break;
+    picked.add(page.pageNumber);
+    saved += pageSavings(page, ratio, action);
+  }
+
+  return [...picked].sort((a, b) => a - b);
+}
+
+/**
+ * Remove pages, or replace them with low-resolution renderings of themselves
+ */
+export async function reducePages(
+  inputPath: string,
+  outputPath: string,
+  pageNumbers: number[],
+  action: PageAction
+): Promise<void> {
+  const source = await PDFDocument.load(await fs.readFile(inputPath), {
+    ignoreEncryption: true,
+    updateMetadata: false,
+  });
+  const pageCount = source.getPageCount();
+  const selected = new Set(pageNumbers);
+
+  const outOfRange = pageNumbers.find((page) => page < 1 || page > pageCount);
+  if (outOfRange !== undefined) {
+    throw new Error(`Page ${outOfRange} is out of range (the document has ${pageCount} pages)`);
+  }
+
+  // extractPages takes 0-based indices
+  if (action === 'remove') {
+    const kept: number[] = [];
+    for (let i = 0; i < pageCount; i++) {
+      if (!selected.has(i + 1)) kept.push(i);
+    }
+    if (kept.length === 0) {
+      throw new Error('Cannot remove every page of the document');
+    }
+    await extractPages(inputPath, outputPath, kept);
+    return;
+  }
+
+  const prefix = outputPath.replace(/\.pdf$/i, '');
+  const selectedPath = `${prefix}_selected.pdf`;
+  const renderedPath = `${prefix}_rendered.pdf`;
+
+  try {
+    const sorted = [...selected].sort((a, b) => a - b);
+    await extractPages(inputPath, selectedPath, sorted.map((page) => page - 1));
+    await renderImagePages(selectedPath, renderedPath, PLACEHOLDER_DPI, PLACEHOLDER_JPEG_QUALITY);
+
+    const rendered = await PDFDocument.load(await fs.readFile(renderedPath));
+    const placeholders = await source.copyPages(rendered, rendered.getPageIndices());
+    if (placeholders.length !== sorted.length) {
+      throw new Error('Ghostscript rendered the wrong number of placeholder pages');
+    }
+
+    // The replaced pages' objects stay in the file until Ghostscript
+    // rewrites it, which the compression step always does
+    sorted.forEach((pageNumber, i) => {
+      source.removePage(pageNumber - 1);
+      source.insertPage(pageNumber - 1, placeholders[i]);
+    });
+
+    await fs.writeFile(outputPath, await source.save());
+  } finally {
+    await fs.unlink(selectedPath).catch(() => {});
+    await fs.unlink(renderedPath).catch(() => {});
+  }
+}
+
+/**
+ * Remove or downgrade pages, then compress the rest.
+ *
+ * With a target the result goes through the same verification gate as a
+ * whole document. Automatically selected pages are the heaviest ones, picked
+ * so the remaining pages can stay at AUTO_KEEP_QUALITY; if even the lowest
+ * quality doesn't fit, more pages are picked and the document is tried again.
+ */
+export async function compressWithPageReduction(
+  inputPath: string,
+  outputPath: string,
+  reduction: PageReduction,
+  options: {
+    quality: number;
+    targetSizeBytes?: number;
+    originalSize: number;
+    pages?: PageSizeInfo[];
+    estimates?: SizeEstimate[];
+    colorConversion?: ColorConversion;
+    onProgress?: (percent: number, message: string, pages?: PageProgress) => void;
+  }
+): Promise<PageReductionResult> {
+  const { quality, targetSizeBytes, originalSize, pages, estimates, colorConversion, onProgress } = options;
+  const auto = reduction.pages === 'auto';
+  const reducedPath = outputPath.replace(/\.pdf$/i, '_reduced.pdf');
+
+  let selected: number[];
+  let ratio = 1;
+
+  if (reduction.pages === 'auto') {
+    if (!targetSizeBytes) {
+      throw new Error('Automatic page selection needs a target size');
+    }
+    if (!pages || pages.length === 0) {
+      throw new Error('Page sizes are not available for this document; select pages explicitly');
+    }
+
+    const storedBytes = pages.reduce((sum, page) => sum + page.totalBytes, 0) || 1;
+    const estimatedSize = estimates && estimates.length > 0
+      ? estimateSizeAtQuality(estimates, AUTO_KEEP_QUALITY)
+      : originalSize;
+    ratio = estimatedSize / storedBytes;
+    selected = pickHeaviestPages(pages, ratio, estimatedSize - targetSizeBytes * AUTO_FILL_RATIO, reduction.action);
+  } else {
+    selected = [...new Set(reduction.pages)].sort((a, b) => a - b);
+  }
+
+  try {
+    for (let round = 1; ; round++) {
+      onProgress?.(
+        5,
+        reduction.action === 'remove'
+          ? `Removing ${selected.length} pages...`
+          : `Rendering ${selected.length} pages as previews...`
+      );
+
+      if (selected.length > 0) {
+        await reducePages(inputPath, reducedPath, selected, reduction.action);
+      } else {
+        await fs.copyFile(inputPath, reducedPath);
+      }
+
+      let result: VerifiedCompressionResult;
+      if (targetSizeBytes) {
+        result = await compressToTargetSize(reducedPath, outputPath, targetSizeBytes, {
+          initialQuality: auto ? AUTO_KEEP_QUALITY : quality,
+          colorConversion,
+          onProgress: (percent, message, progress) =>
+            onProgress?.(10 + Math.round(percent * 0.9), message, progress),
+        });
+      } else {
+        const compressed = await compressPdf(reducedPath, outputPath, quality, {
+          colorConversion,
+          onProgress: (progress) => onProgress?.(
+            10 + Math.round(((progress.page - 1) / progress.pageCount) * 85),
+            `Compressing page ${progress.page} of ${progress.pageCount}...`,
+            progress
+          ),
+        });
+        result = { ...compressed, quality, attempts: 1, verificationPassed: true };
+      }
+
+      if (!auto || result.verificationPassed || round >= MAX_REDUCTION_ROUNDS || !pages) {
+        return { ...result, reducedPages: selected };
+      }
+
+      // Too big even at the lowest quality: measure how far the kept pages
+      // actually shrank and pick more pages to cover the overshoot
+      const selectedSet = new Set(selected);
+      const keptBytes = pages
+        .filter((page) => !selectedSet.has(page.pageNumber))
+        .reduce((sum, page) => sum + page.totalBytes, 0) || 1;
+      ratio = result.compressedSize / keptBytes;
+
+      const more = pickHeaviestPages(pages, ratio, result.compressedSize - targetSizeBytes!, reduction.action, selected);
+      if (more.length === selected.length) {
+        return { ...result, reducedPages: selected };
+      }
+      console.log(`Still ${result.compressedSize - targetSizeBytes!} bytes over target, reducing ${more.length} pages`);
+      selected = more;
+    }
+  } finally {
+    await fs.unlink(reducedPath).catch(() => {});
+  }
+}
@@ -0,0 +1,190 @@
+import { PageSizeInfo } from './analyzer.js';
+
+// A page is an image page when images make up at least this much of its bytes
+const IMAGE_PAGE_SHARE = 0.5;
+
+// A group of similar pages, sampled and extrapolated on its own
+export interface Stratum {
+  name: string;
+  // 0-based page indices, ascending
+  pages: number[];
+  // Fraction (0-1) of the document's page bytes on these pages
+  share: number;
+  // All its pages in the order they are sampled in
+  order: number[];
+}
+
+/**
+ * Seeded pseudo-random numbers in [0, 1) (mulberry32), so the same seed
+ * always picks the same pages
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * A seed that stays the same for the same file, so uploading it again gives
+ * the same estimates
+ */
+export function deriveSeed(fileSize: number, pageCount: number): number {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (const char of `${fileSize}:${pageCount}`) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Split pages at the median of their weight into heavier and lighter halves
+ */
+function splitByWeight(pages: number[], weights: number[]): [number[], number[]] {
+  const sorted = [...pages].sort((a, b) => weights[b] - weights[a]);
+  const half = Math.ceil(sorted.length / 2);
+  return [sorted.slice(0, half).sort((a, b) => a - b), sorted.slice(half).sort((a, b) => a - b)];
+}
+
+/**
+ * Group pages into strata by what they hold and how heavy they are, making
+ * at most `maxStrata`. Without a page breakdown all pages form one stratum.
+ */
+function buildStrata(pageCount: number, pageSizes: PageSizeInfo[] | undefined, maxStrata: number): Stratum[] {
+  const allPages = Array.from({ length: pageCount }, (_, i) => i);
+  const weights = allPages.map((i) => pageSizes?.[i]?.totalBytes ?? 0);
+  const totalWeight = weights.reduce((sum, bytes) => sum + bytes, 0);
+
+  const toStratum = (name: string, pages: number[]): Stratum => ({
+    name,
+    pages,
+    // Weightless pages (no breakdown) count by number instead
+    share: totalWeight > 0
+      ? pages.reduce((sum, i) => sum + weights[i], 0) / totalWeight
+      : pages.length / pageCount,
+    order: [],
+  });
+
+  if (!pageSizes || pageSizes.length !== pageCount || totalWeight === 0) {
+    return [toStratum('all pages', allPages)];
+  }
+
+  const isImagePage = (i: number) =>
+    pageSizes[i].imageBytes > 0 && pageSizes[i].imageBytes >= pageSizes[i].totalBytes * IMAGE_PAGE_SHARE;
+  const kinds = [
+    { name: 'image pages', pages: allPages.filter(isImagePage) },
+    { name: 'text pages', pages: allPages.filter((i) => !isImagePage(i)) },
+  ].filter((kind) => kind.pages.length > 0);
+
+  // Finest split first: each kind halved by weight
+  const fine = kinds.flatMap((kind) => {
+    if (kind.pages.length < 2) return [kind];
+    const [heavy, light] = splitByWeight(kind.pages, weights);
+    return [
+      { name: `heavy ${kind.name}`, pages: heavy },
+      { name: `light ${kind.name}`, pages: light },
+    ];
+  });
+
+  for (const candidate of [fine, kinds]) {
+    if (candidate.length <= maxStrata) {
+      return candidate.map((group) => toStratum(group.name, group.pages));
+    }
+  }
+  return [toStratum('all pages', allPages)];
+}
+
+/**
+ * `pages` in a random order; sampling takes them from the front
+ */
+function shufflePages(pages: number[], random: () => number): number[] {
+  const pool = [...pages];
+  // Fisher-Yates shuffle
+  for (let i = pool.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool;
+}
+
+/**
+ * Group pages into strata by image content and weight, so a short run of
+ * photo pages in a long text document is still sampled, and put each
+ * stratum's pages in the order they are to be sampled. There are no more
+ * strata than `maxSamples` can give two pages each. The same seed always
+ * gives the same order.
+ */
+export function planStrata(
+  pageCount: number,
+  pageSizes: PageSizeInfo[] | undefined,
+  maxSamples: number,
+  seed: number
+): Stratum[] {
+  const random = createRandom(seed);
+  const strata = buildStrata(pageCount, pageSizes, Math.max(1, Math.floor(maxSamples / 2)));
+  return strata.map((stratum) => ({ ...stratum, order: shufflePages(stratum.pages, random) }));
+}
+
+// What a stratum's sampled pages measured, for one quality level
+export interface StratumObservations {
+  share: number;
+  // Pages in the stratum
+  population: number;
+  // Compressed/original size ratio of each sampled page
+  ratios: number[];
+}
+
+/**
+ * Mean and sample variance
+ */
+function meanAndVariance(values: number[]): { mean: number; variance: number } {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.length > 1
+    ? values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1)
+    : 0;
+  return { mean, variance };
+}
+
+/**
+ * Each stratum's contribution to the variance of the stratified mean, with
+ * the finite population correction: a fully sampled stratum contributes
+ * nothing. Infinite when a stratum has too few pages sampled to tell.
+ */
+export function stratumVariance(stratum: StratumObservations): number {
+  const sampled = stratum.ratios.length;
+  if (sampled >= stratum.population) return 0;
+  if (sampled < 2) return Infinity;
+
+  const { variance } = meanAndVariance(stratum.ratios);
+  return stratum.share ** 2 * (variance / sampled) * (1 - sampled / stratum.population);
+}
+
+/**
+ * Stratified estimate of the document's compression ratio: the strata means
+ * weighted by share, with the half-width of its confidence interval at `z`
+ * standard errors (1.96 for 95%)
+ */
+export function estimateRatio(strata: StratumObservations[], z: number): { ratio: number; halfWidth: number } {
+  let ratio = 0;
+  let variance = 0;
+
+  for (const stratum of strata) {
+    ratio += stratum.share * meanAndVariance(stratum.ratios).mean;
+    variance += stratumVariance(stratum);
+  }
+
+  return { ratio, halfWidth: z * Math.sqrt(variance) };
+}
+
+/**
+ * Standard deviation of per-page ratios across all sampled pages
+ */
+export function ratioSpread(strata: StratumObservations[]): number {
+  const ratios = strata.flatMap((stratum) => stratum.ratios);
+  return ratios.length > 1 ? Math.sqrt(meanAndVariance(ratios).variance) : 0;
+}
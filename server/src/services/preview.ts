@@ -0,0 +1,96 @@
+import { promises as fs } from 'fs';
+import { extractPages, compressPdf, renderPagePng } from './ghostscript.js';
+import { decryptUpload } from './encryption.js';
+import { getJobPath } from '../utils/tempFiles.js';
+
+// Resolution previews are rendered at: about twice the width they are shown
+// at, so they can be zoomed in on
+const PREVIEW_DPI = Number(process.env.PREVIEW_DPI) || 110;
+
+export interface RenderedPage {
+  // PNG image of the page
+  image: Buffer;
+  // The page on its own as a PDF
+  sizeBytes: number;
+}
+
+export interface PagePreview {
+  original: RenderedPage;
+  compressed: RenderedPage;
+}
+
+// Preview files being written, so concurrent requests wait for the same run
+// instead of reading a half-written file
+const pending = new Map<string, Promise<void>>();
+
+/**
+ * Create a job's preview file unless it already exists. Previews are kept
+ * with the job's other files and removed along with them.
+ */
+async function ensureFile(filePath: string, create: () => Promise<void>): Promise<void> {
+  let run = pending.get(filePath);
+  if (!run) {
+    const exists = await fs.access(filePath).then(() => true, () => false);
+    if (exists) return;
+
+    run = create()
+      .catch(async (err) => {
+        await fs.unlink(filePath).catch(() => {});
+        throw err;
+      })
+      .finally(() => pending.delete(filePath));
+    pending.set(filePath, run);
+  }
+  await run;
+}
+
+/**
+ * Render a page (1-based) of a job's upload as it is and as compressing it at
+ * `quality` would leave it. The page is compressed on its own, the same way
+ * estimation compresses its samples.
+ *
+ * Encrypted uploads need the job's password to be held; PasswordRequiredError
+ * is thrown otherwise.
+ */
+export async function renderPagePreview(
+  jobId: string,
+  uploadPath: string,
+  page: number,
+  quality: number,
+  encrypted = false
+): Promise<PagePreview> {
+  const pagePath = getJobPath(jobId, `preview_p${page}.pdf`);
+  const compressedPath = getJobPath(jobId, `preview_p${page}_q${quality}.pdf`);
+  const originalImagePath = getJobPath(jobId, `preview_p${page}.png`);
+  const compressedImagePath = getJobPath(jobId, `preview_p${page}_q${quality}.png`);
+
+  await ensureFile(pagePath, async () => {
+    const decryptedPath = encrypted ? await decryptUpload(jobId, uploadPath, `preview_p${page}`) : undefined;
+    try {
+      await extractPages(decryptedPath ?? uploadPath, pagePath, [page - 1]);
+    } finally {
+      if (decryptedPath) await fs.unlink(decryptedPath).catch(() => {});
+    }
+  });
+
+  await Promise.all([
+    ensureFile(originalImagePath, () => renderPagePng(pagePath, originalImagePath, PREVIEW_DPI)),
+    ensureFile(compressedPath, async () => {
+      await compressPdf(pagePath, compressedPath, quality);
+    }).then(() =>
+      ensureFile(compressedImagePath, () => renderPagePng(compressedPath, compressedImagePath, PREVIEW_DPI))
+    ),
+  ]);
+
+  const [originalImage, compressedImage, originalStats, compressedStats] = await Promise.all([
+    fs.readFile(originalImagePath),
+    fs.readFile(compressedImagePath),
+    fs.stat(pagePath),
+    fs.stat(compressedPath),
+  ]);
+
+  return {
+    original: { image: originalImage, sizeBytes: originalStats.size },
+    compressed: { image: compressedImage, sizeBytes: compressedStats.size },
+  };
+}
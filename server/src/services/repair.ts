@@ -0,0 +1,192 @@
+import { promises as fs } from 'fs';
+import { PDFDocument, PDFDict, PDFArray, PDFName, PDFNumber, PDFInvalidObject } from 'pdf-lib';
+import { rewriteLossless } from './ghostscript.js';
+import { getPageCount, CorruptPdfError } from './analyzer.js';
+import { GhostscriptTimeoutError, ResourceLimitError } from './ghostscriptRunner.js';
+import { getJobPath } from '../utils/tempFiles.js';
+
+// Least to most aggressive:
+// 'xref' rebuilds the cross-reference table from the objects in the file,
+// 'redistill' lets Ghostscript rewrite the document from what it can read,
+// 'salvage' drops the objects that can't be parsed, and pages that needed them
+export type RepairMethod = 'xref' | 'redistill' | 'salvage';
+
+export interface RepairReport {
+  method: RepairMethod;
+  // Content that didn't survive, for the user to review before compressing
+  warnings: string[];
+}
+
+// How far into the file the end-of-file pointer is searched for
+const TRAILER_WINDOW_BYTES = 1024;
+
+/**
+ * "1 page was" / "3 pages were"
+ */
+function countWas(count: number, noun: string): string {
+  return count === 1 ? `1 ${noun} was` : `${count} ${noun}s were`;
+}
+
+/**
+ * Whether the last startxref points at a cross-reference table or stream.
+ * pdf-lib finds objects by scanning and never reads the xref, but
+ * Ghostscript and most viewers rely on it.
+ */
+function hasValidXref(pdfBytes: Buffer): boolean {
+  const tail = pdfBytes.subarray(Math.max(0, pdfBytes.length - TRAILER_WINDOW_BYTES)).toString('latin1');
+  const pointers = [...tail.matchAll(/startxref\s+(\d+)/g)];
+  if (pointers.length === 0) return false;
+
+  const offset = Number(pointers[pointers.length - 1][1]);
+  const target = pdfBytes.subarray(offset, offset + 32).toString('latin1');
+  return /^\s*(xref|\d+\s+\d+\s+obj)/.test(target);
+}
+
+/**
+ * Count objects pdf-lib couldn't parse (it keeps them as PDFInvalidObject)
+ */
+function countInvalidObjects(pdfDoc: PDFDocument): number {
+  return pdfDoc.context
+    .enumerateIndirectObjects()
+    .filter(([, obj]) => obj instanceof PDFInvalidObject).length;
+}
+
+/**
+ * Page count, or 0 when the page tree itself is broken
+ */
+function safePageCount(pdfDoc: PDFDocument): number {
+  try {
+    return pdfDoc.getPageCount();
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Remove kids that no longer resolve to a page or page tree node, and fix up
+ * /Count on the way back. Returns the number of pages left under `node`.
+ */
+function prunePageTree(pdfDoc: PDFDocument, node: PDFDict, removed: { pages: number }): number {
+  const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray);
+  if (!kids) return 0;
+
+  let leaves = 0;
+  for (let i = kids.size() - 1; i >= 0; i--) {
+    const kid = pdfDoc.context.lookup(kids.get(i));
+    if (!(kid instanceof PDFDict)) {
+      kids.remove(i);
+      removed.pages++;
+      continue;
+    }
+    leaves += kid.get(PDFName.of('Kids')) ? prunePageTree(pdfDoc, kid, removed) : 1;
+  }
+
+  node.set(PDFName.of('Count'), PDFNumber.of(leaves));
+  return leaves;
+}
+
+/**
+ * Delete unparseable objects and the pages that were one. References to
+ * deleted objects read as null, which readers treat as absent.
+ */
+function dropUnreadableObjects(pdfDoc: PDFDocument): { objects: number; pages: number; remainingPages: number } {
+  let objects = 0;
+  for (const [ref, obj] of pdfDoc.context.enumerateIndirectObjects()) {
+    if (obj instanceof PDFInvalidObject) {
+      pdfDoc.context.delete(ref);
+      objects++;
+    }
+  }
+
+  // pdf-lib caches its page count, so the pruned tree is counted here
+  const removed = { pages: 0 };
+  const root = pdfDoc.catalog.lookupMaybe(PDFName.of('Pages'), PDFDict);
+  const remainingPages = root ? prunePageTree(pdfDoc, root, removed) : 0;
+
+  return { objects, pages: removed.pages, remainingPages };
+}
+
+/**
+ * Check a job's upload and, if it is damaged, repair it in place with the
+ * least aggressive method that works. Resolves with what was done, or
+ * undefined when the file was fine. Throws CorruptPdfError when nothing can
+ * recover a readable page.
+ */
+export async function repairPdf(
+  pdfPath: string,
+  jobId: string,
+  onProgress?: (message: string) => void
+): Promise<RepairReport | undefined> {
+  onProgress?.('Checking file integrity...');
+  const pdfBytes = await fs.readFile(pdfPath);
+
+  // pdf-lib skips what it can't parse instead of failing the whole load
+  let pdfDoc: PDFDocument | undefined;
+  try {
+    pdfDoc = await PDFDocument.load(pdfBytes, { ignoreEncryption: true, updateMetadata: false });
+  } catch {
+    pdfDoc = undefined;
+  }
+
+  const invalidObjects = pdfDoc ? countInvalidObjects(pdfDoc) : 0;
+  const pageCount = pdfDoc ? safePageCount(pdfDoc) : 0;
+  const readable = pdfDoc !== undefined && invalidObjects === 0 && pageCount > 0;
+
+  if (readable && hasValidXref(pdfBytes)) {
+    return undefined;
+  }
+
+  const repairedPath = getJobPath(jobId, 'repaired.pdf');
+
+  // Every object parsed, so only the cross-reference data was wrong
+  if (readable && pdfDoc) {
+    onProgress?.('Rebuilding damaged cross-reference table...');
+    await fs.writeFile(repairedPath, await pdfDoc.save());
+    await fs.rename(repairedPath, pdfPath);
+    return { method: 'xref', warnings: [] };
+  }
+
+  onProgress?.('Repairing damaged PDF with Ghostscript...');
+  try {
+    await rewriteLossless(pdfPath, repairedPath);
+    const repairedPages = await getPageCount(repairedPath);
+
+    if (repairedPages > 0) {
+      const warnings = [
+        'The document was rebuilt from its pages. Form fields, attachments and other interactive features may have been lost.',
+      ];
+      if (pageCount > repairedPages) {
+        warnings.unshift(`${pageCount - repairedPages} of ${pageCount} pages could not be recovered.`);
+      }
+      await fs.rename(repairedPath, pdfPath);
+      return { method: 'redistill', warnings };
+    }
+  } catch (err) {
+    // The same limit would stop compression too
+    if (err instanceof GhostscriptTimeoutError || err instanceof ResourceLimitError) {
+      throw err;
+    }
+    console.error(`Ghostscript could not repair job ${jobId}:`, err);
+  }
+  await fs.unlink(repairedPath).catch(() => {});
+
+  if (pdfDoc) {
+    onProgress?.('Removing unreadable content...');
+    const dropped = dropUnreadableObjects(pdfDoc);
+
+    if (dropped.remainingPages > 0) {
+      const warnings: string[] = [];
+      if (dropped.pages > 0) {
+        warnings.push(`${countWas(dropped.pages, 'unreadable page')} removed.`);
+      }
+      if (dropped.objects > 0) {
+        warnings.push(`${countWas(dropped.objects, 'unreadable object')} removed. Some text, images or fonts may be missing.`);
+      }
+      await fs.writeFile(repairedPath, await pdfDoc.save());
+      await fs.rename(repairedPath, pdfPath);
+      return { method: 'salvage', warnings };
+    }
+  }
+
+  throw new CorruptPdfError('This PDF is too badly damaged to repair. Please try a different file.');
+}
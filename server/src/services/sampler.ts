@@ -1,8 +1,21 @@
 import path from 'path';
 import { promises as fs } from 'fs';
-import { getPageCount, extractPages, compressPdf } from './ghostscript.js';
+import { PDFDocument } from 'pdf-lib';
+import { extractPages, compressPdf } from './ghostscript.js';
 import { getTempDir } from '../utils/tempFiles.js';
-import { analyzePdf, PDFAnalysis, CorruptPdfError } from './analyzer.js';
+import { analyzePdf, getPageCount, PDFAnalysis, CorruptPdfError } from './analyzer.js';
+import { compressLossless } from './lossless.js';
+import { GhostscriptTimeoutError, ResourceLimitError, getGhostscriptConcurrency } from './ghostscriptRunner.js';
+import { renderForComparison, removeRenders, scoreAgainstOriginal, VisualScore } from './visualQuality.js';
+import {
+  planStrata,
+  deriveSeed,
+  estimateRatio,
+  stratumVariance,
+  ratioSpread,
+  Stratum,
+  StratumObservations,
+} from './pageSampling.js';
 
 export { CorruptPdfError };
 
@@ -14,6 +27,19 @@ export interface SizeEstimate {
   samplePages: number;
   totalPages: number;
   compressionRatio: number; // ratio of compressed/original for this quality
+  // Range the compressed size falls in at CONFIDENCE_LEVEL, in bytes
+  confidenceInterval?: { low: number; high: number };
+  // How close the compressed sample looks to the original (SSIM, 1 = identical)
+  visualScore?: number;
+  // Text in the compressed sample stays readable
+  legible?: boolean;
+}
+
+export interface LosslessEstimate {
+  estimatedSize: number; // in bytes (conservative estimate)
+  rawEstimate: number; // in bytes (before safety margin)
+  sampleSize: number; // actual sample size after lossless optimization
+  compressionRatio: number;
 }
 
 // Configuration for conservative estimation
@@ -25,42 +51,279 @@ export interface EstimationResult {
   originalSize: number;
   pageCount: number;
   estimates: SizeEstimate[];
+  // Size reachable without touching image quality (lossless mode)
+  losslessEstimate?: LosslessEstimate;
   samplingTimeMs: number;
   // New analysis data
   analysis?: PDFAnalysis;
   // Estimation confidence metrics
-  estimationVariance: number; // Variance in compression ratios (higher = less confident)
+  estimationVariance: number; // Spread of per-page compression ratios (higher = less confident)
   safetyMarginApplied: number; // Total safety margin applied (0.05 = 5%)
+  // How the sample was picked (missing on older jobs)
+  sampling?: SamplingSummary;
+}
+
+// Why sampling stopped adding pages
+export type SamplingStop = 'confident' | 'timeBudget' | 'pageLimit' | 'allPages';
+
+export interface SamplingSummary {
+  // Picks the same pages again for the same file
+  seed: number;
+  strata: {
+    name: string;
+    pageCount: number;
+    sampledPages: number[]; // 1-based, in the order they were sampled
+    share: number; // of the document's page bytes
+  }[];
+  stoppedBy: SamplingStop;
+  // Confidence level of the estimates' intervals (0.95 = 95%)
+  confidenceLevel: number;
+}
+
+export interface EstimateOptions {
+  // Seed for picking sample pages; by default derived from the file
+  seed?: number;
 }
 
 const QUALITY_LEVELS = [100, 75, 50, 25];
-const SAMPLE_PERCENTAGE = 0.25; // 25% for better accuracy
-const MIN_SAMPLE_PAGES = 2;
-const MAX_SAMPLE_PAGES = 20; // Cap to prevent very long sampling on huge documents
+// Sampling starts with this many pages from each stratum, then adds pages
+// one at a time until the estimate is confident
+const INITIAL_PAGES_PER_STRATUM = 2;
+const MAX_SAMPLE_PAGES = Number(process.env.MAX_SAMPLE_PAGES) || 40; // Cap to prevent very long sampling on huge documents
+const SAMPLING_TIME_BUDGET_MS = Number(process.env.SAMPLING_TIME_BUDGET_MS) || 60000;
+// Confident once every quality level's interval is within this fraction of its estimate
+const TARGET_INTERVAL_WIDTH = Number(process.env.TARGET_INTERVAL_WIDTH) || 0.05;
+const CONFIDENCE_LEVEL = 0.95;
+const CONFIDENCE_Z = 1.96; // Standard errors either side for CONFIDENCE_LEVEL
+
+/**
+ * Wait for all of `tasks`, then reject with the first failure. Unlike
+ * Promise.all, nothing is still running (or cleaning up) when this rejects.
+ */
+async function settleAll<T>(tasks: Promise<T>[]): Promise<T[]> {
+  const results = await Promise.allSettled(tasks);
+  const failed = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+  if (failed) throw failed.reason;
+  return results.map((result) => (result as PromiseFulfilledResult<T>).value);
+}
+
+// What one sampled page measured
+interface PageSample {
+  page: number; // 0-based
+  stratum: number; // Index into the strata
+  size: number; // The page on its own as a PDF
+  // Compressed size at each quality level; missing where compression failed
+  compressedSizes: Map<number, number>;
+  scores: Map<number, VisualScore>;
+}
+
+/**
+ * Extract a page and compress it at each quality level, scoring the results
+ * against the page as it is when `score` is set. Files are removed before
+ * returning. Limit errors propagate, since the other pages would hit them too.
+ */
+async function samplePage(
+  inputPath: string,
+  pagePath: string,
+  page: number,
+  stratum: number,
+  score: boolean
+): Promise<PageSample & { rendered: boolean }> {
+  const sample: PageSample = { page, stratum, size: 0, compressedSizes: new Map(), scores: new Map() };
+  let renders: string[] | undefined;
+
+  try {
+    await extractPages(inputPath, pagePath, [page]);
+    sample.size = (await fs.stat(pagePath)).size;
+
+    // Scores are a bonus: estimates go ahead without them
+    if (score) {
+      renders = await renderForComparison(pagePath, pagePath.replace(/\.pdf$/, '_render'), 1).catch((err) => {
+        console.error(`Failed to render page ${page + 1}, estimates will have no visual scores:`, err);
+        return undefined;
+      });
+    }
+
+    // All levels at once; the Ghostscript pool caps how many actually run
+    await settleAll(QUALITY_LEVELS.map(async (quality) => {
+      const compressedPath = pagePath.replace(/\.pdf$/, `_q${quality}.pdf`);
+      try {
+        const result = await compressPdf(pagePath, compressedPath, quality);
+        sample.compressedSizes.set(quality, result.compressedSize);
+
+        const visual = renders
+          ? await scoreAgainstOriginal(renders, compressedPath, compressedPath.replace(/\.pdf$/, '_render')).catch(
+              (err) => {
+                console.error(`Failed to score page ${page + 1} at quality ${quality}:`, err);
+                return undefined;
+              }
+            )
+          : undefined;
+        if (visual) sample.scores.set(quality, visual);
+      } catch (err) {
+        if (err instanceof GhostscriptTimeoutError || err instanceof ResourceLimitError) {
+          throw err;
+        }
+        console.error(`Failed to compress page ${page + 1} at quality ${quality}:`, err);
+      } finally {
+        await fs.unlink(compressedPath).catch(() => {});
+      }
+    }));
+  } finally {
+    if (renders) await removeRenders(renders);
+    await fs.unlink(pagePath).catch(() => {});
+  }
+
+  return { ...sample, rendered: renders !== undefined };
+}
+
+// What a sampled page weighs with nothing on it: the header, catalog, xref
+// and metadata every standalone PDF carries, before and after compression
+type PartOverhead = Pick<PageSample, 'size' | 'compressedSizes'>;
+
+/**
+ * Measure PartOverhead by sampling a blank page like any other. Undefined
+ * when that fails, and ratios are then taken as they are.
+ */
+async function measurePartOverhead(tempDir: string, jobId: string): Promise<PartOverhead | undefined> {
+  const blankPath = path.join(tempDir, `${jobId}_sample_blank.pdf`);
+  try {
+    const blank = await PDFDocument.create();
+    blank.addPage();
+    await fs.writeFile(blankPath, await blank.save());
+
+    const { size, compressedSizes } = await samplePage(
+      blankPath,
+      path.join(tempDir, `${jobId}_sample_blank_p1.pdf`),
+      0,
+      0,
+      false
+    );
+    return { size, compressedSizes };
+  } catch (err) {
+    console.error('Failed to measure the overhead of a sampled page:', err);
+    return undefined;
+  } finally {
+    await fs.unlink(blankPath).catch(() => {});
+  }
+}
 
 /**
- * Select random page indices for sampling
+ * A sampled page's compression ratio at one quality level. A page on its own
+ * carries a whole file's overhead that it shares with every other page in
+ * the document, so that is taken off both sizes. Pages with less on them
+ * than the overhead are measured as they are: the difference would be noise.
  */
-function selectRandomPages(totalPages: number, sampleCount: number): number[] {
-  const pages: number[] = [];
-  const available = Array.from({ length: totalPages }, (_, i) => i);
-
-  for (let i = 0; i < sampleCount && available.length > 0; i++) {
-    const randomIndex = Math.floor(Math.random() * available.length);
-    pages.push(available[randomIndex]);
-    available.splice(randomIndex, 1);
+function pageRatio(sample: PageSample, quality: number, overhead: PartOverhead | undefined): number {
+  const compressedSize = sample.compressedSizes.get(quality)!;
+  const compressedOverhead = overhead?.compressedSizes.get(quality);
+  if (!overhead || compressedOverhead === undefined || sample.size - overhead.size < overhead.size) {
+    return compressedSize / sample.size;
   }
+  return Math.max(0, compressedSize - compressedOverhead) / (sample.size - overhead.size);
+}
+
+/**
+ * Per-stratum ratios of the sampled pages at one quality level
+ */
+function observe(
+  strata: Stratum[],
+  samples: PageSample[],
+  quality: number,
+  overhead: PartOverhead | undefined
+): StratumObservations[] {
+  return strata.map((stratum, i) => ({
+    share: stratum.share,
+    population: stratum.pages.length,
+    ratios: samples
+      .filter((sample) => sample.stratum === i)
+      .map((sample) => pageRatio(sample, quality, overhead)),
+  }));
+}
+
+/**
+ * Combine page scores into the document's: each stratum's mean counts by its
+ * share, and text has to stay legible on every page
+ */
+function combineScores(strata: Stratum[], samples: PageSample[], quality: number): { score: number; legible: boolean } {
+  let score = 0;
+  let totalShare = 0;
+
+  strata.forEach((stratum, i) => {
+    const scores = samples.filter((sample) => sample.stratum === i).map((sample) => sample.scores.get(quality)!);
+    if (scores.length === 0) return;
+    score += stratum.share * (scores.reduce((sum, visual) => sum + visual.score, 0) / scores.length);
+    totalShare += stratum.share;
+  });
+
+  return {
+    score: totalShare > 0 ? score / totalShare : 1,
+    legible: samples.every((sample) => sample.scores.get(quality)!.legible),
+  };
+}
 
-  return pages.sort((a, b) => a - b);
+/**
+ * The stratum whose next page narrows the interval the most: one still short
+ * of two sampled pages first, then the one whose variance falls furthest with
+ * one more page. -1 when every page is sampled.
+ */
+function pickNextStratum(observations: StratumObservations[]): number {
+  let best = -1;
+  let bestReduction = -Infinity;
+
+  observations.forEach((stratum, i) => {
+    const sampled = stratum.ratios.length;
+    if (sampled >= stratum.population) return;
+
+    const current = stratumVariance(stratum);
+    // Same spread over one more page
+    const next = sampled < 2
+      ? 0
+      : current * (sampled / (sampled + 1)) *
+        ((1 - (sampled + 1) / stratum.population) / (1 - sampled / stratum.population));
+    const reduction = current === Infinity ? Infinity : current - next;
+
+    if (reduction > bestReduction) {
+      best = i;
+      bestReduction = reduction;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * The strata to sample the next `count` pages from, picked one after another
+ * as if each picked page measured its stratum's current mean
+ */
+function pickNextStrata(observations: StratumObservations[], count: number): number[] {
+  const projected = observations.map((stratum) => ({ ...stratum, ratios: [...stratum.ratios] }));
+  const picks: number[] = [];
+
+  while (picks.length < count) {
+    const next = pickNextStratum(projected);
+    if (next < 0) break;
+
+    const ratios = projected[next].ratios;
+    ratios.push(ratios.length > 0 ? ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length : 0);
+    picks.push(next);
+  }
+  return picks;
 }
 
 /**
- * Perform PDF analysis and sample compression to estimate sizes at different quality levels
+ * Perform PDF analysis and sample compression to estimate sizes at different quality levels.
+ *
+ * Pages are sampled adaptively: a couple from each stratum to start with, then
+ * a few at a time until the 95% interval of every quality level's estimate is
+ * within TARGET_INTERVAL_WIDTH of it, MAX_SAMPLE_PAGES are sampled or
+ * SAMPLING_TIME_BUDGET_MS runs out.
  */
 export async function estimateSizes(
   inputPath: string,
   jobId: string,
-  onProgress?: (message: string) => void
+  onProgress?: (message: string) => void,
+  options: EstimateOptions = {}
 ): Promise<EstimationResult> {
   const startTime = Date.now();
   const tempDir = getTempDir();
@@ -85,85 +348,174 @@ export async function estimateSizes(
   const pageCount = analysis?.pageCount ?? await getPageCount(inputPath);
   onProgress?.(`Scanning ${pageCount} pages...`);
 
-  // Calculate sample size (10% of pages, min 1, max 10)
-  let sampleCount = Math.floor(pageCount * SAMPLE_PERCENTAGE);
-  sampleCount = Math.max(MIN_SAMPLE_PAGES, Math.min(MAX_SAMPLE_PAGES, sampleCount));
+  const maxSamples = Math.min(pageCount, MAX_SAMPLE_PAGES);
+  const samplingStart = Date.now();
+
+  // Spread the sample across groups of similar pages
+  const samplingSeed = options.seed ?? deriveSeed(originalSize, pageCount);
+  const strata = planStrata(pageCount, analysis?.pages, maxSamples, samplingSeed);
+
+  // Taken off every sampled page's sizes
+  const overhead = await measurePartOverhead(tempDir, jobId);
+
+  const samples: PageSample[] = [];
+  let scoring = true;
+
+  // Pages taken from each stratum's order so far
+  const taken = strata.map(() => 0);
+
+  // Sample a page from each of `picks` (stratum indices) at once. Results are
+  // kept in pick order, so the same seed lists the same pages.
+  const addPages = async (picks: number[]) => {
+    const pages = picks.map((stratum) => ({ stratum, page: strata[stratum].order[taken[stratum]++] }));
+    onProgress?.(
+      pages.length > 1
+        ? `Sampling pages ${samples.length + 1}-${samples.length + pages.length} of up to ${maxSamples}...`
+        : `Sampling page ${samples.length + 1} of up to ${maxSamples}...`
+    );
+
+    const results = await settleAll(
+      pages.map(({ stratum, page }) =>
+        samplePage(inputPath, path.join(tempDir, `${jobId}_sample_p${page + 1}.pdf`), page, stratum, scoring)
+      )
+    );
+    for (const sample of results) {
+      // One page failing to render is enough to leave the estimates unscored
+      if (!sample.rendered) scoring = false;
+      samples.push(sample);
+    }
+  };
 
-  // For very small documents, just use the whole thing
-  if (pageCount <= 3) {
-    sampleCount = pageCount;
-  }
+  // Quality levels every sampled page compressed at
+  const usableQualities = () =>
+    QUALITY_LEVELS.filter((quality) => samples.every((sample) => sample.compressedSizes.has(quality)));
+
+  // The widest interval relative to its estimate, across quality levels
+  const widestInterval = () => {
+    let widest: { quality: number; width: number } | undefined;
+    for (const quality of usableQualities()) {
+      const { ratio, halfWidth } = estimateRatio(observe(strata, samples, quality, overhead), CONFIDENCE_Z);
+      const width = ratio > 0 ? halfWidth / ratio : halfWidth;
+      if (!widest || width > widest.width) widest = { quality, width };
+    }
+    return widest;
+  };
 
-  const estimates: SizeEstimate[] = [];
+  // Initial round
+  await addPages(strata.flatMap((stratum, i) =>
+    Array<number>(Math.min(INITIAL_PAGES_PER_STRATUM, stratum.pages.length)).fill(i)
+  ));
 
-  // Select random pages
-  const selectedPages = selectRandomPages(pageCount, sampleCount);
+  // Later rounds add enough pages to keep the Ghostscript pool busy
+  const pagesPerRound = Math.max(1, Math.floor(getGhostscriptConcurrency() / QUALITY_LEVELS.length));
 
-  // Extract sample pages
-  const samplePath = path.join(tempDir, `${jobId}_sample.pdf`);
+  let stoppedBy: SamplingStop;
+  for (;;) {
+    const widest = widestInterval();
+    if (samples.length >= pageCount) {
+      stoppedBy = 'allPages';
+      break;
+    }
+    // Nothing left to measure when every quality level failed
+    if (!widest || widest.width <= TARGET_INTERVAL_WIDTH) {
+      stoppedBy = 'confident';
+      break;
+    }
+    if (samples.length >= maxSamples) {
+      stoppedBy = 'pageLimit';
+      break;
+    }
+    if (Date.now() - samplingStart >= SAMPLING_TIME_BUDGET_MS) {
+      stoppedBy = 'timeBudget';
+      break;
+    }
 
-  if (sampleCount === pageCount) {
-    // Use original file as sample for small docs
-    await fs.copyFile(inputPath, samplePath);
-  } else {
-    await extractPages(inputPath, samplePath, selectedPages);
+    await addPages(pickNextStrata(
+      observe(strata, samples, widest.quality, overhead),
+      Math.min(pagesPerRound, maxSamples - samples.length)
+    ));
   }
 
-  // Get the sample file size (before compression)
-  const sampleStats = await fs.stat(samplePath);
-  const sampleOriginalSize = sampleStats.size;
-
   // Get fixed overhead from analysis (metadata, fonts, non-compressible content)
   const fixedOverhead = analysis?.fixedOverhead ?? 0;
 
-  // Compress sample at each quality level and extrapolate using compression ratio
-  onProgress?.('Calculating compression options...');
-  const compressionRatios: number[] = [];
-
-  for (let i = 0; i < QUALITY_LEVELS.length; i++) {
-    const quality = QUALITY_LEVELS[i];
-    const compressedSamplePath = path.join(tempDir, `${jobId}_sample_q${quality}.pdf`);
-
-    try {
-      onProgress?.(`Testing quality level ${i + 1}/${QUALITY_LEVELS.length}...`);
-      const result = await compressPdf(samplePath, compressedSamplePath, quality);
-
-      // Calculate compression ratio from the sample
-      // ratio = compressed_size / original_size (e.g., 0.5 means 50% of original)
-      const compressionRatio = result.compressedSize / sampleOriginalSize;
-      compressionRatios.push(compressionRatio);
-
-      // Apply ratio to compressible content, add fixed overhead back
-      // This is the raw estimate before safety margin
-      const compressibleContent = originalSize - fixedOverhead;
-      const rawEstimate = Math.round(
-        Math.min(originalSize, (compressibleContent * compressionRatio) + fixedOverhead)
-      );
+  // Apply ratio to compressible content, add fixed overhead back
+  const compressibleContent = originalSize - fixedOverhead;
+  const toSize = (ratio: number) =>
+    Math.round(Math.min(originalSize, (compressibleContent * Math.max(0, ratio)) + fixedOverhead));
 
-      estimates.push({
-        quality,
-        estimatedSize: rawEstimate, // Will be adjusted with safety margin below
-        rawEstimate,
-        sampleSize: result.compressedSize,
-        samplePages: sampleCount,
-        totalPages: pageCount,
-        compressionRatio,
-      });
+  // Extrapolate each quality level from the stratified ratio of its pages
+  onProgress?.('Calculating compression options...');
+  const estimates: SizeEstimate[] = [];
+  let estimationVariance = 0;
 
-      // Clean up compressed sample
-      await fs.unlink(compressedSamplePath);
-    } catch (err) {
-      console.error(`Failed to estimate at quality ${quality}:`, err);
-      // Continue with other quality levels
-    }
+  for (const quality of usableQualities()) {
+    const observations = observe(strata, samples, quality, overhead);
+    // ratio = compressed_size / original_size (e.g., 0.5 means 50% of original)
+    const { ratio, halfWidth } = estimateRatio(observations, CONFIDENCE_Z);
+    estimationVariance = Math.max(estimationVariance, ratioSpread(observations));
+
+    // Every page has to be scored for the document to be
+    const visual = samples.every((sample) => sample.scores.has(quality))
+      ? combineScores(strata, samples, quality)
+      : undefined;
+
+    const rawEstimate = toSize(ratio);
+    estimates.push({
+      quality,
+      estimatedSize: rawEstimate, // Will be adjusted with safety margin below
+      rawEstimate,
+      sampleSize: samples.reduce((sum, sample) => sum + sample.compressedSizes.get(quality)!, 0),
+      samplePages: samples.length,
+      totalPages: pageCount,
+      compressionRatio: ratio,
+      confidenceInterval: Number.isFinite(halfWidth)
+        ? { low: toSize(ratio - halfWidth), high: toSize(ratio + halfWidth) }
+        : undefined,
+      visualScore: visual?.score,
+      legible: visual?.legible,
+    });
   }
 
-  // Calculate variance in compression ratios to assess estimation confidence
-  let estimationVariance = 0;
-  if (compressionRatios.length > 1) {
-    const mean = compressionRatios.reduce((a, b) => a + b, 0) / compressionRatios.length;
-    const squaredDiffs = compressionRatios.map(r => Math.pow(r - mean, 2));
-    estimationVariance = Math.sqrt(squaredDiffs.reduce((a, b) => a + b, 0) / compressionRatios.length);
+  // Lossless optimization of the same pages, one file per stratum: what we
+  // can save without touching images
+  let losslessEstimate: LosslessEstimate | undefined;
+  try {
+    onProgress?.('Testing lossless optimization...');
+    // Every stratum at once; the Ghostscript pool caps how many actually run
+    const parts = await settleAll(strata.map(async (stratum, i) => {
+      const pages = samples.filter((sample) => sample.stratum === i).map((sample) => sample.page);
+      if (pages.length === 0) return { ratio: 0, size: 0 };
+
+      const samplePath = path.join(tempDir, `${jobId}_sample_s${i + 1}.pdf`);
+      const losslessSamplePath = samplePath.replace(/\.pdf$/, '_lossless.pdf');
+      try {
+        if (pages.length === pageCount) {
+          // Use original file as sample when every page was sampled
+          await fs.copyFile(inputPath, samplePath);
+        } else {
+          await extractPages(inputPath, samplePath, [...pages].sort((a, b) => a - b));
+        }
+        const size = (await fs.stat(samplePath)).size;
+        const result = await compressLossless(samplePath, losslessSamplePath);
+        return { ratio: stratum.share * (result.compressedSize / size), size: result.compressedSize };
+      } finally {
+        await fs.unlink(samplePath).catch(() => {});
+        await fs.unlink(losslessSamplePath).catch(() => {});
+      }
+    }));
+    const compressionRatio = parts.reduce((sum, part) => sum + part.ratio, 0);
+    const sampleSize = parts.reduce((sum, part) => sum + part.size, 0);
+
+    const rawEstimate = Math.round(Math.min(originalSize, originalSize * compressionRatio));
+    losslessEstimate = {
+      estimatedSize: rawEstimate, // Will be adjusted with safety margin below
+      rawEstimate,
+      sampleSize,
+      compressionRatio,
+    };
+  } catch (err) {
+    console.error('Failed to estimate lossless size:', err);
   }
 
   // Determine total safety margin based on confidence
@@ -175,17 +527,22 @@ export async function estimateSizes(
   }
 
   // Apply conservative safety margin to all estimates
-  // We estimate HIGHER (larger) to ensure we never exceed target
+  // We estimate HIGHER (larger) to ensure we never exceed target, and never
+  // below the top of the interval when sampling stopped before it was tight
   for (const estimate of estimates) {
-    estimate.estimatedSize = Math.round(estimate.rawEstimate * (1 + totalSafetyMargin));
+    estimate.estimatedSize = Math.max(
+      Math.round(estimate.rawEstimate * (1 + totalSafetyMargin)),
+      estimate.confidenceInterval?.high ?? 0
+    );
     // Never estimate larger than original
     estimate.estimatedSize = Math.min(originalSize, estimate.estimatedSize);
   }
-
-  // Clean up sample file
-  try {
-    await fs.unlink(samplePath);
-  } catch {}
+  if (losslessEstimate) {
+    losslessEstimate.estimatedSize = Math.min(
+      originalSize,
+      Math.round(losslessEstimate.rawEstimate * (1 + totalSafetyMargin))
+    );
+  }
 
   // Ensure estimates are logically ordered: higher quality = larger file
   // Sort by quality ascending, then ensure each lower quality is <= higher quality
@@ -203,10 +560,22 @@ export async function estimateSizes(
     originalSize,
     pageCount,
     estimates,
+    losslessEstimate,
     samplingTimeMs,
     analysis,
     estimationVariance,
     safetyMarginApplied: totalSafetyMargin,
+    sampling: {
+      seed: samplingSeed,
+      strata: strata.map((stratum, i) => ({
+        name: stratum.name,
+        pageCount: stratum.pages.length,
+        sampledPages: samples.filter((sample) => sample.stratum === i).map((sample) => sample.page + 1),
+        share: stratum.share,
+      })),
+      stoppedBy,
+      confidenceLevel: CONFIDENCE_LEVEL,
+    },
   };
 }
 
@@ -214,9 +583,38 @@ export async function estimateSizes(
 // We use slightly lower quality than calculated to ensure we hit target
 const QUALITY_REDUCTION_BUFFER = 3; // Reduce quality by 3 points for safety
 
+/**
+ * The lowest sampled quality level that, like every level above it, kept
+ * text legible. Levels without a score count as legible. Undefined when even
+ * the highest level blurred text, so picking a quality can't help.
+ */
+function findLegibleEstimate(estimates: SizeEstimate[]): SizeEstimate | undefined {
+  const sorted = [...estimates].sort((a, b) => b.quality - a.quality);
+  let floor: SizeEstimate | undefined;
+
+  for (const estimate of sorted) {
+    if (estimate.legible === false) break;
+    floor = estimate;
+  }
+
+  return floor;
+}
+
+/**
+ * Smallest estimated size that keeps text legible, or undefined when that
+ * isn't limited by quality
+ */
+export function findMinimumLegibleSize(estimates: SizeEstimate[]): number | undefined {
+  const floor = findLegibleEstimate(estimates);
+  const lowest = Math.min(...estimates.map((e) => e.quality));
+  return floor && floor.quality > lowest ? floor.estimatedSize : undefined;
+}
+
 /**
  * Find the best quality level to achieve target size based on estimates.
  * Uses linear interpolation between sample points with conservative bias.
+ * `legible` is false when the quality falls below the sampled levels that
+ * kept text readable.
  *
  * IMPORTANT: This function is conservative - it will recommend a slightly
  * lower quality than mathematically required to ensure we NEVER exceed target.
@@ -224,6 +622,25 @@ const QUALITY_REDUCTION_BUFFER = 3; // Reduce quality by 3 points for safety
 export function findBestQuality(
   estimates: SizeEstimate[],
   targetSizeBytes: number
+): { quality: number; estimatedSize: number; achievable: boolean; legible: boolean } {
+  const best = findBestQualityBySize(estimates, targetSizeBytes);
+  const floor = findLegibleEstimate(estimates);
+  const lowest = Math.min(...estimates.map((e) => e.quality));
+
+  // Legibility between sampled levels is unknown, so qualities under the
+  // floor count as illegible, allowing for the safety reduction
+  const legible = floor !== undefined &&
+    (floor.quality === lowest || best.quality >= floor.quality - QUALITY_REDUCTION_BUFFER);
+
+  return { ...best, legible };
+}
+
+/**
+ * Quality for a target size, interpolated between the sampled levels
+ */
+function findBestQualityBySize(
+  estimates: SizeEstimate[],
+  targetSizeBytes: number
 ): { quality: number; estimatedSize: number; achievable: boolean } {
   if (estimates.length === 0) {
     return { quality: 50, estimatedSize: 0, achievable: false };
@@ -302,3 +719,55 @@ export function findBestQuality(
     achievable: false,
   };
 }
+
+/**
+ * Find the pair of sampled quality levels whose estimates straddle the
+ * target. Used as the starting bracket for the target-size search in
+ * compressToTargetSize.
+ */
+export function findQualityBracket(
+  estimates: SizeEstimate[],
+  targetSizeBytes: number
+): { low: number; high: number } {
+  // Sort by quality ascending (25, 50, 75, 100)
+  const sorted = [...estimates].sort((a, b) => a.quality - b.quality);
+
+  let low = 1;
+  let high = 100;
+
+  for (const estimate of sorted) {
+    if (estimate.estimatedSize <= targetSizeBytes) {
+      low = estimate.quality;
+    } else {
+      high = estimate.quality;
+      break;
+    }
+  }
+
+  return { low, high };
+}
+
+/**
+ * Estimated output size at any quality, interpolated linearly between the
+ * sampled levels. Qualities outside the sampled range use the nearest level.
+ */
+export function estimateSizeAtQuality(estimates: SizeEstimate[], quality: number): number {
+  if (estimates.length === 0) return 0;
+
+  // Sort by quality ascending (25, 50, 75, 100)
+  const sorted = [...estimates].sort((a, b) => a.quality - b.quality);
+
+  if (quality <= sorted[0].quality) return sorted[0].estimatedSize;
+
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const lower = sorted[i];
+    const higher = sorted[i + 1];
+
+    if (quality <= higher.quality) {
+      const ratio = (quality - lower.quality) / (higher.quality - lower.quality);
+      return Math.round(lower.estimatedSize + ratio * (higher.estimatedSize - lower.estimatedSize));
+    }
+  }
+
+  return sorted[sorted.length - 1].estimatedSize;
+}
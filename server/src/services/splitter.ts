@@ -0,0 +1,260 @@
+import { promises as fs, createWriteStream } from 'fs';
+import { PDFDocument } from 'pdf-lib';
+import { compressToTargetSize } from './ghostscript.js';
+import { getPageResourceUsage, PageResourceUsage } from './analyzer.js';
+import { SizeEstimate, estimateSizeAtQuality } from './sampler.js';
+import { writeZip, safeFileName } from './archive.js';
+
+// Plan parts to this fraction of the target; estimates are rough per page
+const SPLIT_FILL_RATIO = 0.9;
+// Document structure every part carries on top of its pages
+const PART_OVERHEAD_BYTES = 4 * 1000;
+// Parts are planned with the estimate at this quality, so the plan has as
+// few parts as possible; each part is then compressed at the best quality
+// that still fits
+const PLANNING_QUALITY = 1;
+
+export interface PageRange {
+  firstPage: number; // 1-based, inclusive
+  lastPage: number;
+}
+
+export interface SplitPart extends PageRange {
+  filename: string;
+  compressedSize: number;
+  quality: number;
+  verificationPassed: boolean;
+}
+
+export interface SplitResult {
+  outputPath: string; // ZIP of all parts
+  originalSize: number;
+  compressedSize: number; // Sum of the parts
+  compressionRatio: number;
+  quality: number; // Lowest quality any part needed
+  attempts: number;
+  verificationPassed: boolean; // Every part fits the target
+  parts: SplitPart[];
+}
+
+/**
+ * Cut pages into the fewest consecutive ranges whose estimated compressed
+ * size fits the target.
+ *
+ * A range's size is estimated from the stored bytes of everything its
+ * pages use - shared fonts and images counted once, as they would be in
+ * the part - scaled by how much the whole document is expected to shrink.
+ */
+export function planSplit(
+  usages: PageResourceUsage[],
+  estimatedTotalSize: number,
+  targetSizeBytes: number
+): PageRange[] {
+  const documentBytes = new RangeSize().addAll(usages).bytes || 1;
+  const ratio = estimatedTotalSize / documentBytes;
+  const budget = targetSizeBytes * SPLIT_FILL_RATIO;
+  const ranges: PageRange[] = [];
+
+  let first = 0;
+  while (first < usages.length) {
+    const range = new RangeSize().add(usages[first]);
+    let last = first;
+
+    // Grow the range while the next page still fits; a page that is too
+    // big on its own still becomes a range of one
+    while (last + 1 < usages.length) {
+      const grown = range.clone().add(usages[last + 1]);
+      if (grown.bytes * ratio + PART_OVERHEAD_BYTES > budget) break;
+      range.adopt(grown);
+      last++;
+    }
+
+    ranges.push({ firstPage: first + 1, lastPage: last + 1 });
+    first = last + 1;
+  }
+
+  return ranges;
+}
+
+/**
+ * Running stored size of a set of pages, counting shared resources once
+ */
+class RangeSize {
+  bytes = 0;
+  private seen = new Set<string>();
+
+  add(usage: PageResourceUsage): this {
+    this.bytes += usage.contentBytes;
+    for (const [key, resource] of usage.resources) {
+      if (this.seen.has(key)) continue;
+      this.seen.add(key);
+      this.bytes += resource.bytes;
+    }
+    return this;
+  }
+
+  addAll(usages: PageResourceUsage[]): this {
+    usages.forEach((usage) => this.add(usage));
+    return this;
+  }
+
+  clone(): RangeSize {
+    const copy = new RangeSize();
+    copy.bytes = this.bytes;
+    copy.seen = new Set(this.seen);
+    return copy;
+  }
+
+  adopt(other: RangeSize): void {
+    this.bytes = other.bytes;
+    this.seen = other.seen;
+  }
+}
+
+/**
+ * Split a PDF into parts that each fit the target size, packed into a ZIP.
+ *
+ * Every part goes through the same verified target search as a whole
+ * document. A part that still doesn't fit is cut in half and both halves
+ * are tried again; only a single page can end up over the target.
+ */
+export async function splitToTargetSize(
+  inputPath: string,
+  outputPath: string,
+  targetSizeBytes: number,
+  options: {
+    originalFilename: string;
+    estimates?: SizeEstimate[];
+    onProgress?: (percent: number, message: string) => void;
+  }
+): Promise<SplitResult> {
+  const { originalFilename, estimates, onProgress } = options;
+  const inputBytes = await fs.readFile(inputPath);
+  const source = await PDFDocument.load(inputBytes, { ignoreEncryption: true, updateMetadata: false });
+  const pageCount = source.getPageCount();
+
+  onProgress?.(5, 'Planning parts...');
+
+  const usages = getPageResourceUsage(source);
+  const estimatedTotal = estimates && estimates.length > 0
+    ? estimateSizeAtQuality(estimates, PLANNING_QUALITY)
+    : inputBytes.length;
+  const queue = planSplit(usages, estimatedTotal, targetSizeBytes);
+
+  const baseName = safeFileName(originalFilename).replace(/\.pdf$/i, '');
+  const workPrefix = outputPath.replace(/\.zip$/i, '');
+  const done: (Omit<SplitPart, 'filename'> & { path: string })[] = [];
+  let attempts = 0;
+  let pagesDone = 0;
+
+  try {
+    while (queue.length > 0) {
+      const range = queue.shift()!;
+      const rawPath = `${workPrefix}_p${range.firstPage}-${range.lastPage}_raw.pdf`;
+      const partPath = `${workPrefix}_p${range.firstPage}-${range.lastPage}.pdf`;
+
+      onProgress?.(
+        10 + Math.round((pagesDone / pageCount) * 80),
+        `Compressing pages ${range.firstPage}-${range.lastPage} of ${pageCount}...`
+      );
+
+      await writePartSource(source, range, originalFilename, rawPath);
+
+      try {
+        const result = await compressToTargetSize(rawPath, partPath, targetSizeBytes);
+        attempts += result.attempts;
+
+        if (!result.verificationPassed && range.lastPage > range.firstPage) {
+          // Too big: halve the range and try both halves next
+          const middle = Math.floor((range.firstPage + range.lastPage) / 2);
+          queue.unshift(
+            { firstPage: range.firstPage, lastPage: middle },
+            { firstPage: middle + 1, lastPage: range.lastPage }
+          );
+          await fs.unlink(partPath).catch(() => {});
+          continue;
+        }
+
+        done.push({
+          ...range,
+          path: partPath,
+          compressedSize: result.compressedSize,
+          quality: result.quality,
+          verificationPassed: result.verificationPassed,
+        });
+        pagesDone += range.lastPage - range.firstPage + 1;
+      } finally {
+        await fs.unlink(rawPath).catch(() => {});
+      }
+    }
+
+    // Ranges were processed in page order, so numbering follows the document
+    const parts: SplitPart[] = done.map((part, index) => ({
+      filename: `${baseName}_part${index + 1}of${done.length}.pdf`,
+      firstPage: part.firstPage,
+      lastPage: part.lastPage,
+      compressedSize: part.compressedSize,
+      quality: part.quality,
+      verificationPassed: part.verificationPassed,
+    }));
+
+    onProgress?.(95, 'Packing parts...');
+    await writeZip(
+      done.map((part, index) => ({ path: part.path, name: parts[index].filename })),
+      createWriteStream(outputPath)
+    );
+    // Only the ZIP is kept
+    await Promise.all(done.map((part) => fs.unlink(part.path).catch(() => {})));
+
+    const compressedSize = parts.reduce((sum, part) => sum + part.compressedSize, 0);
+
+    onProgress?.(100, 'Compression complete');
+
+    return {
+      outputPath,
+      originalSize: inputBytes.length,
+      compressedSize,
+      compressionRatio: compressedSize / inputBytes.length,
+      quality: Math.min(...parts.map((part) => part.quality)),
+      attempts,
+      verificationPassed: parts.every((part) => part.verificationPassed),
+      parts,
+    };
+  } catch (err) {
+    await Promise.all(done.map((part) => fs.unlink(part.path).catch(() => {})));
+    throw err;
+  }
+}
+
+/**
+ * Copy a page range into its own PDF, recording the range in its metadata.
+ * Ghostscript carries the document info over when compressing the part.
+ */
+async function writePartSource(
+  source: PDFDocument,
+  range: PageRange,
+  originalFilename: string,
+  outputPath: string
+): Promise<void> {
+  const part = await PDFDocument.create();
+  const indices = [];
+  for (let i = range.firstPage - 1; i < range.lastPage; i++) {
+    indices.push(i);
+  }
+
+  const pages = await part.copyPages(source, indices);
+  pages.forEach((page) => part.addPage(page));
+
+  const pageLabel = range.firstPage === range.lastPage
+    ? `page ${range.firstPage}`
+    : `pages ${range.firstPage}-${range.lastPage}`;
+  const title = source.getTitle();
+
+  part.setTitle(title ? `${title} (${pageLabel})` : `${originalFilename} (${pageLabel})`);
+  part.setSubject(`${pageLabel[0].toUpperCase()}${pageLabel.slice(1)} of ${originalFilename}`);
+  part.setKeywords([`pages:${range.firstPage}-${range.lastPage}`, `source:${originalFilename}`]);
+  const author = source.getAuthor();
+  if (author) part.setAuthor(author);
+
+  await fs.writeFile(outputPath, await part.save());
+}
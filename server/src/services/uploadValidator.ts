@@ -0,0 +1,135 @@
+import { promises as fs } from 'fs';
+import { PDFDocument } from 'pdf-lib';
+import { readEncryption, opensWithPassword, PdfEncryption } from './encryption.js';
+import { countPages } from './ghostscript.js';
+
+// Uploads with more pages than this are refused
+const MAX_PAGE_COUNT = Number(process.env.MAX_PAGE_COUNT) || 5000;
+// Readers accept the header this far into the file, and the end-of-file
+// marker this far from the end
+const HEADER_WINDOW_BYTES = 1024;
+const TRAILER_WINDOW_BYTES = 1024;
+// Encryption assumed for a file whose /Encrypt dictionary can't be read:
+// what Ghostscript writes anyway, and no permissions (only the reserved
+// bits set), so the output never allows more than the upload did
+const UNKNOWN_ENCRYPTION: PdfEncryption = { revision: 3, keyLength: 128, permissions: -3904 };
+
+export type UploadErrorCode =
+  | 'NOT_PDF'
+  | 'ENCRYPTED'
+  | 'INCORRECT_PASSWORD'
+  | 'TOO_MANY_PAGES'
+  | 'TRUNCATED'
+  | 'DAMAGED';
+
+/**
+ * Thrown when an upload is refused, with a code clients can map to a message
+ */
+export class UploadValidationError extends Error {
+  constructor(public readonly code: UploadErrorCode, message: string) {
+    super(message);
+    this.name = 'UploadValidationError';
+  }
+}
+
+/**
+ * Read `length` bytes at `position` (clamped to the file)
+ */
+async function readRange(file: fs.FileHandle, position: number, length: number): Promise<string> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await file.read(buffer, 0, length, Math.max(0, position));
+  return buffer.subarray(0, bytesRead).toString('latin1');
+}
+
+/**
+ * Check the header, and that the file still ends with the pointer to its
+ * cross-reference section, without reading the whole file. Resolves with
+ * the text around the last trailer: the end of the file, and the start of
+ * the cross-reference section, where an xref stream keeps its dictionary.
+ *
+ * A pointer that lands on the wrong byte is common in files from sloppy
+ * producers and can be repaired, so only its presence is checked.
+ */
+async function checkStructure(filePath: string): Promise<string> {
+  const file = await fs.open(filePath, 'r');
+
+  try {
+    const { size } = await file.stat();
+
+    const head = await readRange(file, 0, HEADER_WINDOW_BYTES);
+    if (!head.includes('%PDF-')) {
+      throw new UploadValidationError('NOT_PDF', 'This file is not a PDF.');
+    }
+
+    // Incremental updates append sections; the last one counts
+    const tail = await readRange(file, size - TRAILER_WINDOW_BYTES, TRAILER_WINDOW_BYTES);
+    const pointers = [...tail.matchAll(/startxref\s+(\d+)\s+%%EOF/g)];
+    const offset = pointers.length > 0 ? Number(pointers[pointers.length - 1][1]) : -1;
+    if (offset < 0 || offset >= size) {
+      throw new UploadValidationError('TRUNCATED', 'This PDF is incomplete. It may not have finished downloading.');
+    }
+
+    return (await readRange(file, offset, TRAILER_WINDOW_BYTES)) + tail;
+  } finally {
+    await file.close();
+  }
+}
+
+function checkPageCount(pageCount: number): void {
+  if (pageCount > MAX_PAGE_COUNT) {
+    throw new UploadValidationError(
+      'TOO_MANY_PAGES',
+      `This PDF has ${pageCount} pages. The maximum is ${MAX_PAGE_COUNT}.`
+    );
+  }
+}
+
+/**
+ * Validate an uploaded file by its content; the client's content type isn't
+ * trusted. Rejects with UploadValidationError for files that aren't complete
+ * PDFs within MAX_PAGE_COUNT, or that are encrypted and `password` doesn't
+ * open. Resolves with the file's encryption, if it has any.
+ *
+ * Files pdf-lib can't parse are checked with Ghostscript, which often can:
+ * it counts their pages, and their encryption is found from the trailer.
+ * Those Ghostscript can't open either are refused.
+ */
+export async function validatePdfUpload(filePath: string, password?: string): Promise<PdfEncryption | undefined> {
+  const trailer = await checkStructure(filePath);
+
+  let pdfDoc: PDFDocument | undefined;
+  try {
+    pdfDoc = await PDFDocument.load(await fs.readFile(filePath), {
+      ignoreEncryption: true,
+      updateMetadata: false,
+    });
+    // The page tree isn't encrypted, so pages can be counted either way.
+    // It's only read here, so this is where it can fail too.
+    checkPageCount(pdfDoc.getPageCount());
+  } catch (err) {
+    if (err instanceof UploadValidationError) throw err;
+    // Left to Ghostscript below
+    pdfDoc = undefined;
+  }
+
+  const encryption = pdfDoc
+    ? readEncryption(pdfDoc)
+    : /\/Encrypt\b/.test(trailer) ? UNKNOWN_ENCRYPTION : undefined;
+  // Files that only restrict permissions open without a password. Other
+  // Ghostscript failures are left for analysis to report.
+  if (encryption && !(await opensWithPassword(filePath, password ?? '').catch(() => true))) {
+    throw password
+      ? new UploadValidationError('INCORRECT_PASSWORD', 'The password is incorrect.')
+      : new UploadValidationError('ENCRYPTED', 'This PDF is password-protected. Enter its password to upload it.');
+  }
+
+  // Ghostscript needs the password to count an encrypted file's pages
+  if (!pdfDoc) {
+    const pageCount = await countPages(filePath, password).catch(() => {
+      throw new UploadValidationError('DAMAGED', 'This PDF is too badly damaged to open.');
+    });
+    checkPageCount(pageCount);
+  }
+
+  return encryption;
+}
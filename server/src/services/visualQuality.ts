@@ -0,0 +1,190 @@
+import { promises as fs } from 'fs';
+import { renderGrayPages } from './ghostscript.js';
+import { withGhostscriptSlot } from './ghostscriptRunner.js';
+
+// Pages are compared at about the size a screen shows them at 100% zoom
+const QUALITY_CHECK_DPI = Number(process.env.QUALITY_CHECK_DPI) || 100;
+// Text whose edges score below this SSIM is getting hard to read
+const LEGIBILITY_THRESHOLD = Number(process.env.LEGIBILITY_THRESHOLD) || 0.85;
+// SSIM is computed over square windows of this many pixels
+const WINDOW_SIZE = 8;
+// Windows of the original with at least this much contrast (standard
+// deviation of gray levels) hold text or line art rather than flat areas
+const EDGE_CONTRAST = 40;
+// SSIM stabilizing constants for 8-bit images
+const C1 = (0.01 * 255) ** 2;
+const C2 = (0.03 * 255) ** 2;
+
+interface GrayImage {
+  width: number;
+  height: number;
+  data: Uint8Array; // One byte per pixel, 0 = black
+}
+
+export interface VisualScore {
+  // Mean SSIM of the compressed pages against the originals: 1 is identical
+  score: number;
+  // SSIM over text and line art on the worst page
+  textScore: number;
+  // textScore meets LEGIBILITY_THRESHOLD
+  legible: boolean;
+}
+
+/**
+ * Parse a raw (P5) PGM file with 8-bit samples
+ */
+function parsePgm(buffer: Buffer): GrayImage {
+  let offset = 0;
+  const tokens: string[] = [];
+
+  // Header: magic, width, height, maxval - whitespace separated, '#' starts a comment
+  while (tokens.length < 4) {
+    while (offset < buffer.length && /\s/.test(String.fromCharCode(buffer[offset]))) offset++;
+    if (buffer[offset] === 0x23) {
+      while (offset < buffer.length && buffer[offset] !== 0x0a) offset++;
+      continue;
+    }
+
+    let token = '';
+    while (offset < buffer.length && !/\s/.test(String.fromCharCode(buffer[offset]))) {
+      token += String.fromCharCode(buffer[offset++]);
+    }
+    if (!token) throw new Error('Truncated PGM header');
+    tokens.push(token);
+  }
+  offset++; // Single whitespace byte before the raster
+
+  if (tokens[0] !== 'P5' || tokens[3] !== '255') {
+    throw new Error(`Unexpected bitmap format ${tokens[0]}`);
+  }
+
+  const width = parseInt(tokens[1], 10);
+  const height = parseInt(tokens[2], 10);
+  const data = buffer.subarray(offset, offset + width * height);
+
+  if (data.length < width * height) {
+    throw new Error('Truncated PGM raster');
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Mean SSIM of two renders of a page, over the whole page and over the
+ * windows with edges. Renders can differ by a pixel at the borders, so only
+ * the area both cover is compared. `edges` is undefined for pages without
+ * text or line art.
+ */
+function comparePages(original: GrayImage, compressed: GrayImage): { all: number; edges?: number } {
+  const width = Math.min(original.width, compressed.width);
+  const height = Math.min(original.height, compressed.height);
+  const pixels = WINDOW_SIZE * WINDOW_SIZE;
+
+  let sum = 0;
+  let count = 0;
+  let edgeSum = 0;
+  let edgeCount = 0;
+
+  for (let top = 0; top + WINDOW_SIZE <= height; top += WINDOW_SIZE) {
+    for (let left = 0; left + WINDOW_SIZE <= width; left += WINDOW_SIZE) {
+      let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+
+      for (let y = top; y < top + WINDOW_SIZE; y++) {
+        const rowA = y * original.width;
+        const rowB = y * compressed.width;
+        for (let x = left; x < left + WINDOW_SIZE; x++) {
+          const a = original.data[rowA + x];
+          const b = compressed.data[rowB + x];
+          sumA += a;
+          sumB += b;
+          sumAA += a * a;
+          sumBB += b * b;
+          sumAB += a * b;
+        }
+      }
+
+      const meanA = sumA / pixels;
+      const meanB = sumB / pixels;
+      const varA = sumAA / pixels - meanA * meanA;
+      const varB = sumBB / pixels - meanB * meanB;
+      const covariance = sumAB / pixels - meanA * meanB;
+      const ssim =
+        ((2 * meanA * meanB + C1) * (2 * covariance + C2)) /
+        ((meanA * meanA + meanB * meanB + C1) * (varA + varB + C2));
+
+      sum += ssim;
+      count++;
+      if (Math.sqrt(Math.max(0, varA)) >= EDGE_CONTRAST) {
+        edgeSum += ssim;
+        edgeCount++;
+      }
+    }
+  }
+
+  return {
+    all: count > 0 ? sum / count : 1,
+    edges: edgeCount > 0 ? edgeSum / edgeCount : undefined,
+  };
+}
+
+/**
+ * Paths of the renders of a document's pages
+ */
+function renderPaths(prefix: string, pageCount: number): string[] {
+  return Array.from({ length: pageCount }, (_, i) => `${prefix}_${i + 1}.pgm`);
+}
+
+/**
+ * Render a document's pages for comparison. Returns one file per page,
+ * which the caller deletes with removeRenders.
+ * @param prefix Path prefix for the render files
+ */
+export async function renderForComparison(pdfPath: string, prefix: string, pageCount: number): Promise<string[]> {
+  const paths = renderPaths(prefix, pageCount);
+  try {
+    await renderGrayPages(pdfPath, `${prefix}_%d.pgm`, QUALITY_CHECK_DPI);
+  } catch (err) {
+    await removeRenders(paths);
+    throw err;
+  }
+  return paths;
+}
+
+/**
+ * Delete render files
+ */
+export async function removeRenders(paths: string[]): Promise<void> {
+  await Promise.all(paths.map((filePath) => fs.unlink(filePath).catch(() => {})));
+}
+
+/**
+ * Score a compressed document against renders of its original, page by page.
+ * Each compressed page is rendered to a `prefix` file, compared and removed
+ * before the next. Comparing holds a Ghostscript pool slot, so scores running
+ * side by side never hold more bitmaps than the pool allows processes.
+ */
+export async function scoreAgainstOriginal(
+  originalRenders: string[],
+  compressedPath: string,
+  prefix: string
+): Promise<VisualScore> {
+  let sum = 0;
+  let textScore = 1;
+
+  for (let i = 0; i < originalRenders.length; i++) {
+    const renderPath = `${prefix}_${i + 1}.pgm`;
+    try {
+      await renderGrayPages(compressedPath, renderPath, QUALITY_CHECK_DPI, i + 1);
+      const page = await withGhostscriptSlot(async () =>
+        comparePages(parsePgm(await fs.readFile(originalRenders[i])), parsePgm(await fs.readFile(renderPath)))
+      );
+      sum += page.all;
+      if (page.edges !== undefined) textScore = Math.min(textScore, page.edges);
+    } finally {
+      await removeRenders([renderPath]);
+    }
+  }
+
+  const score = originalRenders.length > 0 ? sum / originalRenders.length : 1;
+  return { score, textScore, legible: textScore >= LEGIBILITY_THRESHOLD };
+}
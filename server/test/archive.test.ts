@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs, createWriteStream } from 'fs';
+import os from 'os';
+import path from 'path';
+import { safeFileName, writeZip } from '../src/services/archive.js';
+
+/**
+ * Entry names from a ZIP's central directory
+ */
+function zipEntryNames(zip: Buffer): string[] {
+  const end = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+
+  const names: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    names.push(zip.subarray(offset + 46, offset + 46 + nameLength).toString('utf8'));
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return names;
+}
+
+test('safeFileName keeps only a plain file name', () => {
+  assert.equal(safeFileName('report.pdf'), 'report.pdf');
+  assert.equal(safeFileName('../../etc/cron.d/evil.pdf'), 'evil.pdf');
+  assert.equal(safeFileName('C:\\Users\\me\\scan.pdf'), 'scan.pdf');
+  assert.equal(safeFileName('bad\u0000na\nme.pdf'), 'badname.pdf');
+  assert.equal(safeFileName('..hidden.pdf'), 'hidden.pdf');
+  assert.equal(safeFileName('../..'), 'document');
+  assert.equal(safeFileName(''), 'document');
+});
+
+test('writeZip sanitizes entry names and keeps every entry', async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'archive-test-'));
+  try {
+    const source = path.join(dir, 'source.pdf');
+    await fs.writeFile(source, '%PDF-1.4\n');
+    const zipPath = path.join(dir, 'out.zip');
+
+    await writeZip(
+      [
+        { path: source, name: '../a/report.pdf' },
+        { path: source, name: 'b\\REPORT.pdf' },
+        { path: source, name: '/etc/passwd' },
+      ],
+      createWriteStream(zipPath)
+    );
+
+    assert.deepEqual(zipEntryNames(await fs.readFile(zipPath)), ['report.pdf', 'REPORT_2.pdf', 'passwd']);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,65 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+
+let auth: typeof import('../src/middleware/auth.js');
+
+// The key is read when the module loads
+before(async () => {
+  process.env.API_KEY = 'test-key';
+  auth = await import('../src/middleware/auth.js');
+});
+
+/**
+ * Run the middleware on a request; resolves with the status it sent, or
+ * 'next' when it let the request through
+ */
+function authorize(request: { method?: string; path: string; headers?: Record<string, string>; query?: Record<string, string> }) {
+  let outcome: number | 'next' | undefined;
+  const res = {
+    status(code: number) {
+      outcome = code;
+      return this;
+    },
+    json() {
+      return this;
+    },
+  };
+  auth.authMiddleware(
+    { method: 'GET', headers: {}, query: {}, ...request } as unknown as Request,
+    res as unknown as Response,
+    () => {
+      outcome = 'next';
+    }
+  );
+  return outcome;
+}
+
+test('the API key is only accepted in the header', () => {
+  assert.equal(authorize({ path: '/job/a/status', headers: { 'x-api-key': 'test-key' } }), 'next');
+  assert.equal(authorize({ path: '/job/a/events', query: { apiKey: 'test-key' } }), 401);
+});
+
+test('a stream token opens only its own job\'s event stream', () => {
+  const { token } = auth.createStreamToken('job-a');
+
+  assert.equal(authorize({ path: '/job/job-a/events', query: { token } }), 'next');
+  assert.equal(authorize({ path: '/job/job-b/events', query: { token } }), 401);
+  assert.equal(authorize({ path: '/job/job-a/status', query: { token } }), 401);
+  assert.equal(authorize({ method: 'DELETE', path: '/job/job-a/events', query: { token } }), 401);
+});
+
+test('tampered and expired stream tokens are refused', () => {
+  const { token } = auth.createStreamToken('job-a');
+  const [expiresAt, signature] = token.split('.');
+
+  const extended = `${Number(expiresAt) + 60_000}.${signature}`;
+  assert.equal(authorize({ path: '/job/job-a/events', query: { token: extended } }), 401);
+
+  const expired = Date.now() - 1000;
+  const realNow = Date.now;
+  Date.now = () => expired - 600_000;
+  const stale = auth.createStreamToken('job-a').token;
+  Date.now = realNow;
+  assert.equal(authorize({ path: '/job/job-a/events', query: { token: stale } }), 401);
+});
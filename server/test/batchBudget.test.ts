@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { allocateCombinedBudget } from '../src/services/batch.js';
+import type { Job } from '../src/services/jobQueue.js';
+import type { SizeEstimate } from '../src/services/sampler.js';
+
+/**
+ * A job whose estimates shrink linearly from `originalSize` at quality 100
+ * to `smallest` at quality 25
+ */
+function jobWithEstimates(id: string, originalSize: number, smallest?: number): Job {
+  const estimates: SizeEstimate[] = smallest === undefined
+    ? []
+    : [25, 50, 75, 100].map((quality) => {
+        const estimatedSize = Math.round(smallest + ((originalSize - smallest) * (quality - 25)) / 75);
+        return {
+          quality,
+          estimatedSize,
+          rawEstimate: estimatedSize,
+          sampleSize: 0,
+          samplePages: 1,
+          totalPages: 1,
+          compressionRatio: estimatedSize / originalSize,
+        };
+      });
+  return { id, originalSize, estimates: { estimates } } as unknown as Job;
+}
+
+const sum = (targets: Map<string, number>) => [...targets.values()].reduce((total, size) => total + size, 0);
+
+test('files are aimed at the highest quality the budget allows', () => {
+  const jobs = [jobWithEstimates('a', 1_000_000, 100_000), jobWithEstimates('b', 400_000, 40_000)];
+
+  const { quality, targets } = allocateCombinedBudget(jobs, 700_000);
+
+  // Half-way down the estimates both files come to 770,000 bytes
+  assert.ok(quality > 25 && quality < 62, `quality ${quality}`);
+  assert.ok(sum(targets) <= 700_000 && sum(targets) > 699_000);
+  // Each file gets the same share of its estimate
+  assert.ok(Math.abs(targets.get('a')! / targets.get('b')! - 2.5) < 0.01);
+});
+
+test('a budget everything fits in keeps quality 100', () => {
+  const jobs = [jobWithEstimates('a', 1_000_000, 100_000), jobWithEstimates('b', 400_000, 40_000)];
+
+  const { quality, targets } = allocateCombinedBudget(jobs, 2_000_000);
+
+  assert.equal(quality, 100);
+  assert.equal(targets.get('a'), Math.floor(1_000_000 * (2_000_000 / 1_400_000)));
+});
+
+test('files without estimates count at their original size', () => {
+  const jobs = [jobWithEstimates('a', 1_000_000, 100_000), jobWithEstimates('b', 300_000)];
+
+  const { quality, targets } = allocateCombinedBudget(jobs, 60_000);
+
+  // Even quality 1 doesn't fit, so the shortfall is shared out too
+  assert.equal(quality, 1);
+  assert.ok(sum(targets) <= 60_000);
+  assert.ok(targets.get('b')! > targets.get('a')!);
+});
@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getDistillerParams } from '../src/services/ghostscript.js';
+
+test('quality 1 and 100 map to the ends of each parameter range', () => {
+  const lowest = getDistillerParams(1);
+  const highest = getDistillerParams(100);
+
+  assert.equal(lowest.colorImageResolution, 36);
+  assert.equal(highest.colorImageResolution, 300);
+  assert.equal(lowest.qFactor, 2.4);
+  assert.equal(highest.qFactor, 0.15);
+  assert.equal(lowest.chromaSubsampling, true);
+  assert.equal(highest.chromaSubsampling, false);
+});
+
+test('every parameter moves monotonically with quality', () => {
+  for (let quality = 2; quality <= 100; quality++) {
+    const lower = getDistillerParams(quality - 1);
+    const higher = getDistillerParams(quality);
+
+    assert.ok(higher.colorImageResolution >= lower.colorImageResolution, `dpi at ${quality}`);
+    assert.ok(higher.monoImageResolution >= lower.monoImageResolution, `mono dpi at ${quality}`);
+    assert.ok(higher.qFactor < lower.qFactor, `QFactor at ${quality}`);
+    assert.ok(higher.downsampleThreshold >= lower.downsampleThreshold, `threshold at ${quality}`);
+  }
+});
+
+test('out-of-range and fractional qualities are clamped and rounded', () => {
+  assert.deepEqual(getDistillerParams(0), getDistillerParams(1));
+  assert.deepEqual(getDistillerParams(250), getDistillerParams(100));
+  assert.deepEqual(getDistillerParams(49.6), getDistillerParams(50));
+});
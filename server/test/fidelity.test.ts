@@ -0,0 +1,86 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PDFDocument, PDFName, PDFString } from 'pdf-lib';
+import { preserveDocumentFeatures, findLostFeatures } from '../src/services/fidelity.js';
+
+let dir: string;
+
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'fidelity-test-'));
+});
+
+after(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+/**
+ * A two-page upload with a title and a link on its first page
+ */
+async function writeUpload(): Promise<string> {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.setTitle('Annual report');
+  const [first] = [pdfDoc.addPage(), pdfDoc.addPage()];
+  const link = pdfDoc.context.obj({
+    Type: 'Annot',
+    Subtype: 'Link',
+    Rect: [10, 10, 100, 30],
+    A: { S: 'URI', URI: PDFString.of('https://example.com') },
+  });
+  first.node.set(PDFName.of('Annots'), pdfDoc.context.obj([pdfDoc.context.register(link)]));
+
+  const uploadPath = path.join(dir, 'upload.pdf');
+  await fs.writeFile(uploadPath, await pdfDoc.save());
+  return uploadPath;
+}
+
+/**
+ * What pdfwrite might make of it: the same pages, without the title or link
+ */
+async function writeOutput(name: string): Promise<string> {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.addPage();
+  pdfDoc.addPage();
+
+  const outputPath = path.join(dir, name);
+  await fs.writeFile(outputPath, await pdfDoc.save());
+  return outputPath;
+}
+
+test('dropped features are found and copied back', async () => {
+  const uploadPath = await writeUpload();
+  const outputPath = await writeOutput('restored.pdf');
+  assert.deepEqual(await findLostFeatures(uploadPath, outputPath), ['links', 'metadata']);
+
+  const report = await preserveDocumentFeatures(uploadPath, outputPath, { pagesUnchanged: true });
+
+  assert.deepEqual(report, { regrafted: ['links', 'metadata'], lost: [] });
+  assert.deepEqual(await findLostFeatures(uploadPath, outputPath), []);
+  const restored = await PDFDocument.load(await fs.readFile(outputPath));
+  assert.equal(restored.getTitle(), 'Annual report');
+});
+
+test('features tied to pages stay lost when the pages changed', async () => {
+  const uploadPath = await writeUpload();
+  const outputPath = await writeOutput('reduced.pdf');
+
+  const report = await preserveDocumentFeatures(uploadPath, outputPath, { pagesUnchanged: false });
+
+  assert.deepEqual(report, { regrafted: ['metadata'], lost: ['links'] });
+});
+
+test('nothing is restored when it would go over the size limit', async () => {
+  const uploadPath = await writeUpload();
+  const outputPath = await writeOutput('limited.pdf');
+  const before = await fs.readFile(outputPath);
+
+  const report = await preserveDocumentFeatures(uploadPath, outputPath, {
+    maxSize: before.length,
+    pagesUnchanged: true,
+  });
+
+  assert.deepEqual(report, { regrafted: [], lost: ['links', 'metadata'], droppedForSize: true });
+  assert.deepEqual(await fs.readFile(outputPath), before);
+});
@@ -0,0 +1,152 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+let runner: typeof import('../src/services/ghostscriptRunner.js');
+let jobProcesses: typeof import('../src/services/jobProcesses.js');
+let ghostscript: typeof import('../src/services/ghostscript.js');
+let binDir: string;
+let tempDir: string;
+const originalPath = process.env.PATH;
+
+// Stand-ins for gs: each run picks its behaviour from its last argument
+const FAKE_GS = `#!/bin/sh
+for last; do :; done
+case "$last" in
+  ok) echo done ;;
+  vmerror) echo "Error: /VMerror in --showpage--" >&2; exit 1 ;;
+  crash) kill -SEGV $$ ;;
+  sleep) exec sleep 5 ;;
+  secrets)
+    echo "$*"
+    for arg; do
+      case "$arg" in
+        @*) stat -c %a "\${arg#@}"; cat "\${arg#@}" ;;
+        *_password.ps) stat -c %a "$arg"; cat "$arg" ;;
+      esac
+    done ;;
+  *.pdf)
+    printf '%s\n' "$@" | tee "$last.argv"
+    echo "Processing pages 1 through 4." ;;
+  leak)
+    for arg; do
+      case "$arg" in *_password.ps) echo "Wrong password: $(cat "$arg")" >&2 ;; esac
+    done
+    exit 1 ;;
+  *) echo "Unrecoverable error" >&2; exit 1 ;;
+esac
+`;
+
+// Limits are read when the modules load
+before(async () => {
+  binDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fake-gs-'));
+  await fs.writeFile(path.join(binDir, 'gs'), FAKE_GS, { mode: 0o755 });
+  process.env.PATH = `${binDir}${path.delimiter}${originalPath}`;
+  process.env.GS_MAX_MEMORY_MB = '2048';
+  process.env.GS_CONCURRENCY = '2';
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gs-secrets-'));
+  process.env.TEMP_DIR = tempDir;
+  runner = await import('../src/services/ghostscriptRunner.js');
+  jobProcesses = await import('../src/services/jobProcesses.js');
+  ghostscript = await import('../src/services/ghostscript.js');
+});
+
+after(async () => {
+  process.env.PATH = originalPath;
+  await fs.rm(binDir, { recursive: true, force: true });
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+test('a clean run resolves with stdout', async () => {
+  assert.equal((await runner.runGhostscript(['ok'], 'test')).trim(), 'done');
+});
+
+test('only an allocation failure in the output counts as the memory limit', async () => {
+  await assert.rejects(runner.runGhostscript(['vmerror'], 'test'), (err: unknown) => {
+    return err instanceof runner.ResourceLimitError && err.limit === 'memory';
+  });
+
+  await assert.rejects(runner.runGhostscript(['crash'], 'test'), (err: unknown) => {
+    assert.ok(!(err instanceof runner.ResourceLimitError));
+    assert.match((err as Error).message, /failed to test: killed by SIGSEGV/);
+    return true;
+  });
+});
+
+test('a run past its time limit is a timeout', async () => {
+  await assert.rejects(runner.runGhostscript(['sleep'], 'test', { timeoutMs: 200 }), runner.GhostscriptTimeoutError);
+});
+
+test('a run killed by cancelling its job is a cancellation', async () => {
+  const run = jobProcesses.runForJob('cancelled-job', () => runner.runGhostscript(['sleep'], 'test'));
+  await new Promise((resolve) => setTimeout(resolve, 200));
+  assert.equal(jobProcesses.cancelJobWork('cancelled-job'), true);
+
+  await assert.rejects(run, jobProcesses.JobCancelledError);
+});
+
+test('work in pool slots waits its turn like a run', async () => {
+  let active = 0;
+  let mostActive = 0;
+  const work = () =>
+    runner.withGhostscriptSlot(async () => {
+      mostActive = Math.max(mostActive, ++active);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      active--;
+    });
+
+  await Promise.all([work(), work(), work(), work()]);
+  assert.equal(mostActive, 2);
+});
+
+test('passwords reach Ghostscript in private files, not on the command line', async () => {
+  const output = await runner.runGhostscript(['-dBATCH', 'secrets'], 'test', {
+    password: 'open (sesame)',
+    secretArgs: ['-sUserPassword=p\\w'],
+  });
+  const [argv, ...files] = output.trim().split('\n');
+
+  assert.doesNotMatch(argv, /sesame|p\\w/);
+  // The password file runs after the switches, right before the input
+  assert.match(argv, /-dBATCH \S+_password\.ps secrets$/);
+  assert.deepEqual(files, ['600', '"-sUserPassword=p\\w"', '600', '/PDFPassword (open \\(sesame\\)) def']);
+  assert.deepEqual(await fs.readdir(tempDir), []);
+});
+
+test('errors never echo a password', async () => {
+  await assert.rejects(runner.runGhostscript(['leak'], 'test', { password: 'hunter2' }), (err: unknown) => {
+    assert.doesNotMatch((err as Error).message, /hunter2/);
+    return true;
+  });
+  assert.deepEqual(await fs.readdir(tempDir), []);
+});
+
+test('runs can only read their input and write their output', async () => {
+  const inputPath = path.join(tempDir, 'upload.pdf');
+  const outputPath = path.join(tempDir, 'page_%03d.pdf');
+  const argv = (await runner.runGhostscript(['-sDEVICE=pdfwrite', inputPath], 'test', { inputPath, outputPath }))
+    .trim()
+    .split('\n');
+  await fs.rm(`${inputPath}.argv`);
+
+  assert.deepEqual(
+    argv.filter((arg) => /SAFER|permit/.test(arg)),
+    ['-dSAFER', `--permit-file-read=${inputPath}`, `--permit-file-write=${path.join(tempDir, 'page_*.pdf')}`]
+  );
+});
+
+test('pages are counted by a plain sandboxed run, not a PostScript program', async () => {
+  const inputPath = path.join(tempDir, 'damaged.pdf');
+
+  assert.equal(await ghostscript.countPages(inputPath), 4);
+  const argv = (await fs.readFile(`${inputPath}.argv`, 'utf8')).trim().split('\n');
+  await fs.rm(`${inputPath}.argv`);
+  assert.ok(!argv.includes('-c'));
+  assert.deepEqual(
+    argv.filter((arg) => /SAFER|permit/.test(arg)),
+    ['-dSAFER', `--permit-file-read=${inputPath}`]
+  );
+  assert.equal(argv[argv.length - 1], inputPath);
+});
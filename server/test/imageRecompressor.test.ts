@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import pako from 'pako';
+import jpeg from 'jpeg-js';
+import { PDFDocument, PDFName, PDFRawStream } from 'pdf-lib';
+import { recompressImages } from '../src/services/imageRecompressor.js';
+import { encodeGrayJpeg } from '../src/services/grayJpeg.js';
+
+/**
+ * A noisy gradient, which compresses poorly enough to be worth re-encoding
+ */
+function noisyPixels(width: number, height: number, channels: number): Uint8Array {
+  const pixels = new Uint8Array(width * height * channels);
+  let seed = 1;
+  for (let i = 0; i < pixels.length; i++) {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    pixels[i] = (Math.floor(i / channels) % width) / 3 + ((seed >> 16) % 64);
+  }
+  return pixels;
+}
+
+async function writeImagePdf(filePath: string): Promise<void> {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.addPage([600, 600]);
+
+  for (const [colorSpace, channels] of [['DeviceGray', 1], ['DeviceRGB', 3]] as const) {
+    const stream = pdfDoc.context.stream(pako.deflate(noisyPixels(500, 500, channels)), {
+      Type: 'XObject',
+      Subtype: 'Image',
+      Width: 500,
+      Height: 500,
+      ColorSpace: colorSpace,
+      BitsPerComponent: 8,
+      Filter: 'FlateDecode',
+    });
+    pdfDoc.context.register(stream);
+  }
+
+  await fs.writeFile(filePath, await pdfDoc.save());
+}
+
+test('encodeGrayJpeg writes a single-component JPEG close to its input', () => {
+  const width = 37;
+  const height = 21;
+  const pixels = noisyPixels(width, height, 1);
+
+  const decoded = jpeg.decode(encodeGrayJpeg(pixels, width, height, 95), { useTArray: true, formatAsRGBA: false });
+  assert.equal(decoded.width, width);
+  assert.equal(decoded.height, height);
+
+  let worst = 0;
+  for (let i = 0; i < width * height; i++) {
+    worst = Math.max(worst, Math.abs(decoded.data[i * 3] - pixels[i]));
+  }
+  assert.ok(worst <= 12, `largest pixel error ${worst}`);
+});
+
+test('recompressImages shrinks images to the target and keeps gray images gray', async (t) => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'images-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  const inputPath = path.join(dir, 'in.pdf');
+  const outputPath = path.join(dir, 'out.pdf');
+  await writeImagePdf(inputPath);
+
+  const originalSize = (await fs.stat(inputPath)).size;
+  const result = await recompressImages(inputPath, outputPath, Math.round(originalSize / 4));
+
+  assert.equal(result.verificationPassed, true);
+  assert.equal(result.imagesRecompressed, 2);
+
+  const output = await PDFDocument.load(await fs.readFile(outputPath));
+  const colorSpaces = output.context
+    .enumerateIndirectObjects()
+    .map(([, obj]) => obj)
+    .filter((obj): obj is PDFRawStream => obj instanceof PDFRawStream)
+    .filter((stream) => stream.dict.get(PDFName.of('Filter')) === PDFName.of('DCTDecode'))
+    .map((stream) => stream.dict.get(PDFName.of('ColorSpace'))?.toString())
+    .sort();
+  assert.deepEqual(colorSpaces, ['/DeviceGray', '/DeviceRGB']);
+});
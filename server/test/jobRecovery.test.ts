@@ -0,0 +1,58 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileStore } from '../src/services/jobStore.js';
+import type { Job } from '../src/services/jobQueue.js';
+
+let jobQueue: typeof import('../src/services/jobQueue.js');
+let dir: string;
+let store: FileStore<Job>;
+
+// The store location is read when the module loads
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'recovery-test-'));
+  process.env.JOB_STORE = 'file';
+  process.env.JOB_STORE_DIR = dir;
+  process.env.JOB_HEARTBEAT_SECONDS = '30';
+  store = new FileStore<Job>(dir);
+  jobQueue = await import('../src/services/jobQueue.js');
+});
+
+after(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+/**
+ * An estimating job whose upload is gone, last marked alive `ageMs` ago
+ */
+function interruptedJob(id: string, ageMs: number): Job {
+  const seen = new Date(Date.now() - ageMs);
+  return {
+    id,
+    status: 'estimating',
+    originalFilename: `${id}.pdf`,
+    originalSize: 1000,
+    uploadPath: path.join(dir, `${id}-missing.pdf`),
+    owner: 'another-process',
+    heartbeatAt: seen.getTime(),
+    createdAt: seen,
+    updatedAt: seen,
+  };
+}
+
+test('only jobs whose process stopped marking them alive are taken over', async () => {
+  await store.set(interruptedJob('stale', 5 * 60 * 1000));
+  await store.set(interruptedJob('alive', 10 * 1000));
+
+  await jobQueue.recoverInterruptedJobs();
+
+  const stale = await store.get('stale');
+  assert.equal(stale?.status, 'failed');
+  assert.notEqual(stale?.owner, 'another-process');
+
+  const alive = await store.get('alive');
+  assert.equal(alive?.status, 'estimating');
+  assert.equal(alive?.owner, 'another-process');
+});
@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileStore, MemoryStore, StoredRecord } from '../src/services/jobStore.js';
+
+interface TestRecord extends StoredRecord {
+  [field: string]: unknown;
+}
+
+function record(id: string): TestRecord {
+  const now = new Date();
+  return { id, createdAt: now, updatedAt: now };
+}
+
+async function tempDir(t: { after: (fn: () => Promise<void>) => void }): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'jobstore-'));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+test('MemoryStore merges updates and ignores unknown records', async () => {
+  const store = new MemoryStore<TestRecord>();
+  await store.set({ ...record('a'), status: 'pending' });
+
+  const updated = await store.update('a', { progress: 5 });
+  assert.equal(updated?.status, 'pending');
+  assert.equal(updated?.progress, 5);
+  assert.equal(await store.update('missing', { progress: 1 }), undefined);
+});
+
+test('an update function can decline to change the record', async (t) => {
+  const dir = await tempDir(t);
+  for (const store of [new MemoryStore<TestRecord>(), new FileStore<TestRecord>(dir)]) {
+    await store.set({ ...record('e'), status: 'pending' });
+
+    const declined = await store.update('e', (current) => (current.status === 'done' ? { owner: 'x' } : undefined));
+    assert.equal(declined, undefined);
+    assert.equal((await store.get('e'))?.owner, undefined);
+
+    const taken = await store.update('e', (current) => (current.status === 'pending' ? { owner: 'x' } : undefined));
+    assert.equal(taken?.owner, 'x');
+    assert.equal((await store.get('e'))?.owner, 'x');
+  }
+});
+
+test('FileStore round-trips records with their dates', async (t) => {
+  const dir = await tempDir(t);
+  const store = new FileStore<TestRecord>(dir);
+  const original = { ...record('b'), status: 'ready' };
+  await store.set(original);
+
+  const loaded = await new FileStore<TestRecord>(dir).get('b');
+  assert.ok(loaded);
+  assert.equal(loaded.status, 'ready');
+  assert.ok(loaded.createdAt instanceof Date);
+  assert.equal(loaded.createdAt.getTime(), original.createdAt.getTime());
+
+  await store.delete('b');
+  assert.equal(await store.get('b'), undefined);
+  assert.deepEqual(await store.list(), []);
+});
+
+test('FileStore keeps every field when two stores update the same record', async (t) => {
+  const dir = await tempDir(t);
+  // Separate instances share nothing but the directory, like two processes
+  const first = new FileStore<TestRecord>(dir);
+  const second = new FileStore<TestRecord>(dir);
+  await first.set(record('c'));
+
+  await Promise.all(
+    Array.from({ length: 20 }, (_, i) => (i % 2 ? first : second).update('c', { [`field${i}`]: i }))
+  );
+
+  const loaded = await first.get('c');
+  for (let i = 0; i < 20; i++) {
+    assert.equal(loaded?.[`field${i}`], i);
+  }
+  assert.deepEqual(
+    (await fs.readdir(dir)).filter((file) => !file.endsWith('.json')),
+    [],
+    'lock and temp files are removed'
+  );
+});
+
+test('FileStore breaks a lock left behind by a dead process', async (t) => {
+  const dir = await tempDir(t);
+  const store = new FileStore<TestRecord>(dir);
+  await store.set(record('d'));
+
+  const lockPath = path.join(dir, 'd.json.lock');
+  await fs.writeFile(lockPath, '');
+  const longAgo = new Date(Date.now() - 60 * 1000);
+  await fs.utimes(lockPath, longAgo, longAgo);
+
+  const updated = await store.update('d', { status: 'done' });
+  assert.equal(updated?.status, 'done');
+});
+
+test('FileStore ids cannot reach outside its directory', async (t) => {
+  const dir = await tempDir(t);
+  const store = new FileStore<TestRecord>(dir);
+  await store.set({ ...record('../escape'), status: 'x' });
+
+  assert.deepEqual(await fs.readdir(path.dirname(dir)).then((files) => files.includes('escape.json')), false);
+  assert.equal((await store.get('escape'))?.status, 'x');
+});
@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PageSizeInfo } from '../src/services/analyzer.js';
+import { createRandom, deriveSeed, planStrata, estimateRatio } from '../src/services/pageSampling.js';
+
+/**
+ * A page breakdown entry with `imageBytes` of its `totalBytes` in images
+ */
+function pageSize(pageNumber: number, totalBytes: number, imageBytes = 0): PageSizeInfo {
+  return {
+    pageNumber,
+    contentBytes: totalBytes - imageBytes,
+    contentShare: 0,
+    imageBytes,
+    fontBytes: 0,
+    totalBytes,
+    resources: [],
+  };
+}
+
+test('the same seed gives the same numbers', () => {
+  const first = createRandom(42);
+  const second = createRandom(42);
+  const numbers = Array.from({ length: 100 }, () => first());
+
+  assert.deepEqual(Array.from({ length: 100 }, () => second()), numbers);
+  assert.ok(numbers.every((n) => n >= 0 && n < 1));
+  // mulberry32's first output for seed 42
+  assert.equal(numbers[0], 0.6011037519201636);
+  assert.notEqual(createRandom(43)(), numbers[0]);
+});
+
+test('seeds are derived from the file size and page count alone', () => {
+  assert.equal(deriveSeed(1000, 10), 2143676371);
+  assert.equal(deriveSeed(1000, 10), deriveSeed(1000, 10));
+  assert.notEqual(deriveSeed(1001, 10), deriveSeed(1000, 10));
+  assert.notEqual(deriveSeed(1000, 11), deriveSeed(1000, 10));
+});
+
+test('pages are grouped by images and weight, each group shuffled', () => {
+  // Pages 0-3 are photos, 4-9 text of two weights
+  const sizes = [
+    ...[0, 1, 2, 3].map((i) => pageSize(i + 1, i < 2 ? 90_000 : 60_000, 50_000)),
+    ...[4, 5, 6, 7, 8, 9].map((i) => pageSize(i + 1, i < 7 ? 4_000 : 1_000)),
+  ];
+  const strata = planStrata(10, sizes, 40, 7);
+
+  assert.deepEqual(
+    strata.map((stratum) => [stratum.name, stratum.pages]),
+    [
+      ['heavy image pages', [0, 1]],
+      ['light image pages', [2, 3]],
+      ['heavy text pages', [4, 5, 6]],
+      ['light text pages', [7, 8, 9]],
+    ]
+  );
+  assert.equal(strata[0].share, 180_000 / 315_000);
+  for (const stratum of strata) {
+    assert.deepEqual([...stratum.order].sort((a, b) => a - b), stratum.pages);
+  }
+  assert.deepEqual(planStrata(10, sizes, 40, 7), strata);
+
+  // Too few samples for four groups of two
+  assert.deepEqual(
+    planStrata(10, sizes, 5, 7).map((stratum) => stratum.name),
+    ['image pages', 'text pages']
+  );
+});
+
+test('without a page breakdown every page is one group', () => {
+  const [stratum, ...rest] = planStrata(5, undefined, 40, 1);
+
+  assert.deepEqual(rest, []);
+  assert.equal(stratum.share, 1);
+  assert.deepEqual([...stratum.order].sort((a, b) => a - b), [0, 1, 2, 3, 4]);
+});
+
+test('the ratio is the share-weighted mean of the strata', () => {
+  const { ratio, halfWidth } = estimateRatio(
+    [
+      { share: 0.75, population: 2, ratios: [0.2, 0.4] },
+      { share: 0.25, population: 3, ratios: [0.8, 0.8, 0.8] },
+    ],
+    1.96
+  );
+
+  assert.ok(Math.abs(ratio - (0.75 * 0.3 + 0.25 * 0.8)) < 1e-12);
+  // Every page was sampled, so there is nothing left to be unsure about
+  assert.equal(halfWidth, 0);
+});
+
+test('the interval narrows as pages are sampled and is unbounded below two', () => {
+  const widthWith = (ratios: number[]) =>
+    estimateRatio([{ share: 1, population: 100, ratios }], 1.96).halfWidth;
+
+  assert.equal(widthWith([0.5]), Infinity);
+  const few = widthWith([0.4, 0.6, 0.5, 0.45]);
+  const more = widthWith([0.4, 0.6, 0.5, 0.45, 0.55, 0.5, 0.4, 0.6]);
+  assert.ok(few > more && more > 0);
+});
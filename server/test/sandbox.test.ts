@@ -0,0 +1,74 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PDFDocument } from 'pdf-lib';
+import { runGhostscript } from '../src/services/ghostscriptRunner.js';
+import { getPageCount } from '../src/services/analyzer.js';
+
+const skip = spawnSync('gs', ['--version']).status !== 0 && 'Ghostscript is not installed';
+
+let dir: string;
+
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'sandbox-test-'));
+});
+
+after(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+/**
+ * Compress an upload the way compressPdf does, with the same sandbox
+ */
+function compress(inputPath: string) {
+  const outputPath = path.join(dir, 'out.pdf');
+  return runGhostscript(
+    ['-sDEVICE=pdfwrite', '-dNOPAUSE', '-dBATCH', '-dQUIET', `-sOutputFile=${outputPath}`, inputPath],
+    'compress PDF',
+    { inputPath, outputPath }
+  );
+}
+
+/**
+ * An upload whose content is PostScript: Ghostscript goes by the content,
+ * not the name, and runs it
+ */
+async function writeUpload(name: string, program: string): Promise<string> {
+  const uploadPath = path.join(dir, name);
+  await fs.writeFile(uploadPath, `%!PS\n${program}\nshowpage\n`);
+  return uploadPath;
+}
+
+test('an upload cannot read files outside the sandbox', { skip }, async () => {
+  const uploadPath = await writeUpload('read.pdf', '(/etc/passwd) (r) file 100 string readstring pop print');
+
+  await assert.rejects(compress(uploadPath), /invalidfileaccess/);
+});
+
+test('an upload cannot run commands through %pipe%', { skip }, async () => {
+  const marker = path.join(dir, 'pwned');
+  const uploadPath = await writeUpload('pipe.pdf', `(%pipe%touch ${marker}) (w) file closefile`);
+
+  await assert.rejects(compress(uploadPath), /invalidfileaccess/);
+  await assert.rejects(fs.access(marker));
+});
+
+test('pages of a PDF pdf-lib cannot parse are counted by Ghostscript', { skip }, async () => {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.addPage();
+  pdfDoc.addPage();
+  pdfDoc.addPage();
+  const bytes = Buffer.from(await pdfDoc.save({ useObjectStreams: false }));
+
+  // pdf-lib gives up on a catalog with the wrong type; Ghostscript only warns
+  const damagedPath = path.join(dir, 'damaged.pdf');
+  const damaged = bytes.toString('latin1').replace('/Type /Catalog', '/Type /Katalog');
+  await fs.writeFile(damagedPath, Buffer.from(damaged, 'latin1'));
+  const unparsable = await PDFDocument.load(await fs.readFile(damagedPath));
+  assert.throws(() => unparsable.getPageCount());
+
+  assert.equal(await getPageCount(damagedPath), 3);
+});
@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PDFDocument, PDFDict, PDFName, PDFNumber } from 'pdf-lib';
+import { isDigitallySigned } from '../src/services/analyzer.js';
+import { checkSignatures, parseCompressionParams, CompressionParams } from '../src/routes/compressionParams.js';
+import { Job } from '../src/services/jobQueue.js';
+
+/**
+ * A one-page document whose form has the given fields
+ */
+async function formDocument(fields: (doc: PDFDocument) => PDFDict[], sigFlags?: number): Promise<PDFDocument> {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.addPage();
+  const acroForm = pdfDoc.context.obj({
+    Fields: fields(pdfDoc).map((field) => pdfDoc.context.register(field)),
+  });
+  if (sigFlags !== undefined) acroForm.set(PDFName.of('SigFlags'), PDFNumber.of(sigFlags));
+  pdfDoc.catalog.set(PDFName.of('AcroForm'), acroForm);
+  return pdfDoc;
+}
+
+function signatureValue(pdfDoc: PDFDocument): PDFDict {
+  return pdfDoc.context.obj({ Type: 'Sig', Filter: 'Adobe.PPKLite', ByteRange: [0, 100, 200, 300] });
+}
+
+test('documents without a form or with only text fields are not signed', async () => {
+  const plain = await PDFDocument.create();
+  plain.addPage();
+  assert.equal(isDigitallySigned(plain), false);
+
+  const textForm = await formDocument((doc) => [doc.context.obj({ FT: 'Tx', T: 'Name' })]);
+  assert.equal(isDigitallySigned(textForm), false);
+});
+
+test('an empty signature field is not a signature', async () => {
+  const pdfDoc = await formDocument((doc) => [doc.context.obj({ FT: 'Sig', T: 'Signature1' })]);
+  assert.equal(isDigitallySigned(pdfDoc), false);
+});
+
+test('SigFlags marks a document as signed', async () => {
+  const pdfDoc = await formDocument(() => [], 3);
+  assert.equal(isDigitallySigned(pdfDoc), true);
+});
+
+test('a signed field is found, including in kids that inherit the field type', async () => {
+  const direct = await formDocument((doc) => [
+    doc.context.obj({ FT: 'Sig', T: 'Signature1', V: doc.context.register(signatureValue(doc)) }),
+  ]);
+  assert.equal(isDigitallySigned(direct), true);
+
+  const nested = await formDocument((doc) => {
+    const kid = doc.context.obj({ T: 'Approval', V: signatureValue(doc) });
+    return [doc.context.obj({ FT: 'Sig', T: 'Signatures', Kids: [doc.context.register(kid)] })];
+  });
+  assert.equal(isDigitallySigned(nested), true);
+});
+
+test('lossless mode refuses signed jobs unless breakSignatures is set', () => {
+  const job = {
+    id: 'job',
+    originalFilename: 'contract.pdf',
+    estimates: { analysis: { metadata: { hasSignatures: true } } },
+  } as unknown as Job;
+  const params = (body: Record<string, unknown>): CompressionParams => {
+    const parsed = parseCompressionParams(body);
+    assert.ok('params' in parsed);
+    return parsed.params;
+  };
+
+  assert.match(checkSignatures(job, params({ mode: 'lossless' }))!, /digitally signed/);
+  assert.equal(checkSignatures(job, params({ mode: 'lossless', breakSignatures: true })), undefined);
+  assert.equal(checkSignatures(job, params({ mode: 'standard', quality: 50 })), undefined);
+  assert.deepEqual(parseCompressionParams({ mode: 'lossless', breakSignatures: 'yes' }), {
+    error: 'breakSignatures must be a boolean',
+  });
+});
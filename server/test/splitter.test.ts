@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PageResourceUsage } from '../src/services/analyzer.js';
+import { planSplit } from '../src/services/splitter.js';
+
+function page(contentBytes: number, resources: [string, number][] = []): PageResourceUsage {
+  return {
+    contentBytes,
+    resources: new Map(resources.map(([key, bytes]) => [key, { name: key, kind: 'image' as const, bytes }])),
+  };
+}
+
+test('planSplit cuts consecutive ranges that fit the target', () => {
+  const usages = Array.from({ length: 10 }, () => page(100_000));
+
+  // No shrinking expected: 900 KB budget, 4 KB overhead per part
+  const ranges = planSplit(usages, 1_000_000, 1_000_000);
+
+  assert.deepEqual(ranges, [
+    { firstPage: 1, lastPage: 8 },
+    { firstPage: 9, lastPage: 10 },
+  ]);
+});
+
+test('planSplit scales page sizes by the expected compression', () => {
+  const usages = Array.from({ length: 10 }, () => page(100_000));
+
+  // The whole document should shrink to a quarter
+  assert.deepEqual(planSplit(usages, 250_000, 1_000_000), [{ firstPage: 1, lastPage: 10 }]);
+});
+
+test('planSplit counts a resource shared by pages once per range', () => {
+  // Every page shows the same 600 KB image
+  const usages = Array.from({ length: 5 }, () => page(50_000, [['logo', 600_000]]));
+  const documentBytes = 5 * 50_000 + 600_000;
+
+  const ranges = planSplit(usages, documentBytes, 1_000_000);
+
+  // 600 KB + 5 x 50 KB fits a 900 KB budget in one range
+  assert.deepEqual(ranges, [{ firstPage: 1, lastPage: 5 }]);
+});
+
+test('planSplit keeps a page that is too big on its own as a range of one', () => {
+  const usages = [page(100_000), page(5_000_000), page(100_000)];
+
+  assert.deepEqual(planSplit(usages, 5_200_000, 1_000_000), [
+    { firstPage: 1, lastPage: 1 },
+    { firstPage: 2, lastPage: 2 },
+    { firstPage: 3, lastPage: 3 },
+  ]);
+});
@@ -0,0 +1,78 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { TargetSearchOptions } from '../src/services/ghostscript.js';
+
+let ghostscript: typeof import('../src/services/ghostscript.js');
+let dir: string;
+const originalPath = process.env.PATH;
+
+// Stand-in for gs: the output's size grows with the image resolution asked for
+const FAKE_GS = `#!/bin/sh
+for arg; do
+  case "$arg" in
+    -dColorImageResolution=*) dpi=\${arg#*=} ;;
+    -sOutputFile=*) out=\${arg#*=} ;;
+  esac
+done
+head -c $(awk "BEGIN { print int($dpi * 100) }") /dev/zero > "$out"
+`;
+
+// Limits are read when the modules load
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'target-test-'));
+  await fs.writeFile(path.join(dir, 'gs'), FAKE_GS, { mode: 0o755 });
+  await fs.writeFile(path.join(dir, 'input.pdf'), '%PDF-1.4\n');
+  process.env.PATH = `${dir}${path.delimiter}${originalPath}`;
+  process.env.GS_MAX_MEMORY_MB = '0';
+  ghostscript = await import('../src/services/ghostscript.js');
+});
+
+after(async () => {
+  process.env.PATH = originalPath;
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+// What the fake makes at a quality
+const sizeAt = (quality: number) => Math.floor(ghostscript.getDistillerParams(quality).colorImageResolution * 100);
+
+/**
+ * Search for `target` and check no attempt files were left behind
+ */
+async function search(target: number, options: TargetSearchOptions) {
+  const outputPath = path.join(dir, 'output.pdf');
+  const result = await ghostscript.compressToTargetSize(path.join(dir, 'input.pdf'), outputPath, target, {
+    tolerance: 0,
+    maxAttempts: 10,
+    ...options,
+  });
+
+  assert.deepEqual((await fs.readdir(dir)).sort(), ['gs', 'input.pdf', 'output.pdf']);
+  assert.equal((await fs.stat(outputPath)).size, result.compressedSize);
+  return result;
+}
+
+test('the highest quality that fits is kept', async () => {
+  const result = await search(sizeAt(63) + 1, { initialQuality: 50 });
+
+  assert.equal(result.quality, 63);
+  assert.equal(result.verificationPassed, true);
+  assert.ok(result.attempts <= 8);
+});
+
+test('a wrong bracket only costs attempts', async () => {
+  const result = await search(sizeAt(80), { initialQuality: 20, bracket: { low: 10, high: 30 } });
+
+  assert.equal(result.quality, 80);
+  assert.equal(result.verificationPassed, true);
+});
+
+test('an unreachable target returns the smallest output, marked as failed', async () => {
+  const result = await search(sizeAt(1) - 1, { initialQuality: 50 });
+
+  assert.equal(result.quality, 1);
+  assert.equal(result.compressedSize, sizeAt(1));
+  assert.equal(result.verificationPassed, false);
+});
@@ -0,0 +1,113 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PDFDocument } from 'pdf-lib';
+
+let validator: typeof import('../src/services/uploadValidator.js');
+let dir: string;
+const originalPath = process.env.PATH;
+
+// Stand-in for gs: FAKE_GS_PAGES is the page count it reports (none: it
+// can't open the file), FAKE_GS_PASSWORD the password an encrypted file needs
+const FAKE_GS = `#!/bin/sh
+if [ -n "$FAKE_GS_PASSWORD" ]; then
+  for arg; do
+    case "$arg" in *_password.ps) grep -qF "($FAKE_GS_PASSWORD)" "$arg" && unlocked=1 ;; esac
+  done
+  [ -n "$unlocked" ] || { echo "This file requires a password for access." >&2; exit 1; }
+fi
+case "$*" in
+  *-sDEVICE=nullpage*)
+    [ -n "$FAKE_GS_PAGES" ] || { echo "Unrecoverable error" >&2; exit 1; }
+    echo "Processing pages 1 through $FAKE_GS_PAGES." ;;
+esac
+`;
+
+// Limits are read when the modules load
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'validator-test-'));
+  await fs.writeFile(path.join(dir, 'gs'), FAKE_GS, { mode: 0o755 });
+  process.env.PATH = `${dir}${path.delimiter}${originalPath}`;
+  process.env.GS_MAX_MEMORY_MB = '0';
+  process.env.MAX_PAGE_COUNT = '3';
+  validator = await import('../src/services/uploadValidator.js');
+});
+
+after(async () => {
+  process.env.PATH = originalPath;
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+async function writePdf(name: string, pages: number, damage?: (text: string) => string): Promise<string> {
+  const pdfDoc = await PDFDocument.create();
+  for (let i = 0; i < pages; i++) pdfDoc.addPage();
+  let text = Buffer.from(await pdfDoc.save({ useObjectStreams: false })).toString('latin1');
+  if (damage) text = damage(text);
+
+  const filePath = path.join(dir, name);
+  await fs.writeFile(filePath, Buffer.from(text, 'latin1'));
+  return filePath;
+}
+
+// pdf-lib gives up on a catalog with the wrong type
+const breakCatalog = (text: string) => text.replace('/Type /Catalog', '/Type /Katalog');
+
+async function rejectsWith(promise: Promise<unknown>, code: string): Promise<void> {
+  await assert.rejects(promise, (err: unknown) => {
+    assert.ok(err instanceof validator.UploadValidationError);
+    assert.equal(err.code, code);
+    return true;
+  });
+}
+
+test('files that are not complete PDFs are refused', async () => {
+  const notPdf = path.join(dir, 'image.pdf');
+  await fs.writeFile(notPdf, 'GIF89a');
+  await rejectsWith(validator.validatePdfUpload(notPdf), 'NOT_PDF');
+
+  const complete = await fs.readFile(await writePdf('complete.pdf', 1));
+  const truncated = path.join(dir, 'truncated.pdf');
+  await fs.writeFile(truncated, complete.subarray(0, complete.length - 40));
+  await rejectsWith(validator.validatePdfUpload(truncated), 'TRUNCATED');
+});
+
+test('the page limit applies to parsed PDFs', async () => {
+  assert.equal(await validator.validatePdfUpload(await writePdf('three.pdf', 3)), undefined);
+  await rejectsWith(validator.validatePdfUpload(await writePdf('four.pdf', 4)), 'TOO_MANY_PAGES');
+});
+
+test('PDFs pdf-lib cannot parse are counted by Ghostscript', async (t) => {
+  const damaged = await writePdf('damaged.pdf', 1, breakCatalog);
+  t.after(() => {
+    delete process.env.FAKE_GS_PAGES;
+  });
+
+  process.env.FAKE_GS_PAGES = '2';
+  assert.equal(await validator.validatePdfUpload(damaged), undefined);
+
+  process.env.FAKE_GS_PAGES = '4';
+  await rejectsWith(validator.validatePdfUpload(damaged), 'TOO_MANY_PAGES');
+
+  delete process.env.FAKE_GS_PAGES;
+  await rejectsWith(validator.validatePdfUpload(damaged), 'DAMAGED');
+});
+
+test('unparsable PDFs with /Encrypt in the trailer need their password', async (t) => {
+  const damaged = await writePdf('encrypted.pdf', 1, (text) =>
+    breakCatalog(text).replace(/trailer\s*<</, '$&\n/Encrypt 99 0 R')
+  );
+  t.after(() => {
+    delete process.env.FAKE_GS_PAGES;
+    delete process.env.FAKE_GS_PASSWORD;
+  });
+  process.env.FAKE_GS_PAGES = '1';
+  process.env.FAKE_GS_PASSWORD = 'secret';
+
+  await rejectsWith(validator.validatePdfUpload(damaged), 'ENCRYPTED');
+  await rejectsWith(validator.validatePdfUpload(damaged, 'wrong'), 'INCORRECT_PASSWORD');
+
+  const encryption = await validator.validatePdfUpload(damaged, 'secret');
+  assert.deepEqual(encryption, { revision: 3, keyLength: 128, permissions: -3904 });
+});